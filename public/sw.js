@@ -0,0 +1,99 @@
+// MadSnowi service worker: caches the app shell so MadSnowi opens without a connection, shows Web
+// Push notifications (commute risk, new hazards on saved routes) sent by the dispatch-notifications
+// function, and opens the app when one is tapped. The last trip and hazard list are kept by the
+// app itself (src/services/offlineService.ts); API calls are never cached here.
+
+// Filled in by the build (precacheBuild in vite.config.ts): its scripts, styles and images, and an
+// id that changes with them, so a deploy caches its own files and drops the last one's
+const BUILD_FILES = [];
+const BUILD_ID = 'dev';
+
+// Bump to drop every cached file on the next visit
+const SHELL_CACHE = `madsnowi-shell-v1-${BUILD_ID}`;
+const SHELL_FILES = ['/', '/manifest.webmanifest', '/badger.png', '/cheese.png', '/favicon.ico'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll([...SHELL_FILES, ...BUILD_FILES]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => name !== SHELL_CACHE).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages: the network first so a new deploy shows up, the cached shell without a connection
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          const copy = response.clone();
+          if (response.ok) caches.open(SHELL_CACHE).then(cache => cache.put('/', copy));
+          return response;
+        })
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Built files have a content hash in their name, so a cached copy is never stale
+  if (url.pathname.startsWith('/assets/') || SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(request).then(cached => cached || fetch(request).then(response => {
+        const copy = response.clone();
+        if (response.ok) caches.open(SHELL_CACHE).then(cache => cache.put(request, copy));
+        return response;
+      }))
+    );
+  }
+});
+
+self.addEventListener('push', event => {
+  if (!event.data) return;
+
+  let message;
+  try {
+    message = event.data.json();
+  } catch {
+    message = { title: 'MadSnowi', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: message.tag, // A newer alert for the same commute or hazard replaces the old one
+      renotify: Boolean(message.tag),
+      icon: '/badger.png',
+      badge: '/badger.png',
+      data: { url: message.url || '/' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  // Focus an open MadSnowi tab if there is one
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients.find(candidate => candidate.url.startsWith(self.location.origin));
+      if (client) {
+        client.navigate(url);
+        return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,132 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { AIHazardInput } from './AIHazardInput';
+import { mockGeolocation } from '@/test/browser';
+import { hazardAnalysis } from '@/test/fixtures';
+import { functionCalls, mockFunction } from '@/test/supabaseMock';
+
+// Canvas can't encode in jsdom, so photos come back already prepared, taken on the Capitol Square
+vi.mock('@/lib/photos', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/photos')>()),
+  preparePhoto: async () => ({
+    image: 'aW1hZ2U=',
+    thumbnail: 'dGh1bWI=',
+    width: 1600,
+    height: 1200,
+    previewUrl: 'data:image/jpeg;base64,dGh1bWI=',
+    gps: { lat: 43.0747, lng: -89.3841 }
+  })
+}));
+
+const USER_POSITION = { lat: 43.0747, lng: -89.3841 };
+const REPORT = 'Car in the ditch, sheet of black ice';
+
+// analyze-hazard can only place the report once it knows where the reporter is
+function mockAnalyzeHazard() {
+  mockFunction('analyze-hazard', body => {
+    if (body.userInput === 'reverse-geocode-only') {
+      return { reverseGeocodeResult: '2 E Main St, Madison, WI 53703, USA' };
+    }
+    const userLocation = body.locationContext?.lastKnownLocation;
+    return userLocation
+      ? hazardAnalysis({
+        title: 'Vehicle off road',
+        description: REPORT,
+        location: { address: userLocation.address, coordinates: { lat: userLocation.lat, lng: userLocation.lng }, confidence: 'medium', source: 'user_location' }
+      })
+      : hazardAnalysis({ title: 'Vehicle off road', description: REPORT, location: null, needsLocationConfirmation: true });
+  });
+}
+
+async function reportHazard(text: string) {
+  const user = userEvent.setup();
+  const onHazardSubmit = vi.fn();
+  render(<AIHazardInput onHazardSubmit={onHazardSubmit} />);
+  await user.type(screen.getByPlaceholderText(/describe the hazard/i), text);
+  await user.click(screen.getByRole('button', { name: /report with ai/i }));
+  return { user, onHazardSubmit };
+}
+
+describe('AIHazardInput', () => {
+  it('submits a report the AI could place', async () => {
+    mockFunction('analyze-hazard', () => hazardAnalysis());
+    const { onHazardSubmit } = await reportHazard('Ice patch on East Washington Ave');
+
+    await waitFor(() => expect(onHazardSubmit).toHaveBeenCalledTimes(1));
+    expect(onHazardSubmit.mock.calls[0][0]).toMatchObject({ title: 'Ice patch', location: { source: 'places_api' } });
+    expect(screen.getByPlaceholderText(/describe the hazard/i)).toHaveValue('');
+    expect(screen.queryByRole('button', { name: /share location/i })).not.toBeInTheDocument();
+  });
+
+  it('asks for the reporter location and re-analyzes with it', async () => {
+    mockAnalyzeHazard();
+    mockGeolocation(USER_POSITION);
+    const { user, onHazardSubmit } = await reportHazard(REPORT);
+
+    expect(await screen.findByText('Vehicle off road')).toBeInTheDocument();
+    expect(onHazardSubmit).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: /share location/i }));
+
+    await waitFor(() => expect(onHazardSubmit).toHaveBeenCalledTimes(1));
+    expect(onHazardSubmit.mock.calls[0][0]).toMatchObject({
+      needsLocationConfirmation: false,
+      location: { coordinates: USER_POSITION, address: '2 E Main St, Madison, WI 53703, USA' }
+    });
+    const reanalysis = functionCalls('analyze-hazard').at(-1);
+    expect(reanalysis.locationContext.lastKnownLocation).toMatchObject(USER_POSITION);
+    expect(screen.queryByRole('button', { name: /share location/i })).not.toBeInTheDocument();
+  });
+
+  it('places the report at the shared location when analyze-hazard goes down', async () => {
+    mockFunction('analyze-hazard', body => {
+      if (body.locationContext?.lastKnownLocation) throw new Error('analyze-hazard is down');
+      return hazardAnalysis({ location: null, needsLocationConfirmation: true });
+    });
+    mockGeolocation(USER_POSITION);
+    const { user, onHazardSubmit } = await reportHazard(REPORT);
+
+    await user.click(await screen.findByRole('button', { name: /share location/i }));
+
+    await waitFor(() => expect(onHazardSubmit).toHaveBeenCalledTimes(1));
+    expect(onHazardSubmit.mock.calls[0][0]).toMatchObject({
+      needsLocationConfirmation: false,
+      location: { coordinates: USER_POSITION, source: 'user_shared_location' }
+    });
+  });
+
+  it('places the report where its photo was taken instead of asking', async () => {
+    const user = userEvent.setup();
+    const onHazardSubmit = vi.fn();
+    mockAnalyzeHazard();
+    render(<AIHazardInput onHazardSubmit={onHazardSubmit} />);
+
+    await user.upload(screen.getByLabelText('Attach photos'), new File(['jpeg'], 'ditch.jpg', { type: 'image/jpeg' }));
+    expect(await screen.findByAltText('Attached photo 1')).toBeInTheDocument();
+    expect(screen.getByLabelText(/use where the photo was taken/i)).toBeChecked();
+
+    await user.type(screen.getByPlaceholderText(/describe the hazard/i), REPORT);
+    await user.click(screen.getByRole('button', { name: /report with ai/i }));
+
+    await waitFor(() => expect(onHazardSubmit).toHaveBeenCalledTimes(1));
+    const [analysis, photos] = onHazardSubmit.mock.calls[0];
+    expect(analysis).toMatchObject({
+      needsLocationConfirmation: false,
+      location: { coordinates: USER_POSITION, source: 'photo_gps' }
+    });
+    expect(photos).toEqual([expect.objectContaining({ image: 'aW1hZ2U=', width: 1600, height: 1200 })]);
+    expect(screen.queryByRole('button', { name: /share location/i })).not.toBeInTheDocument();
+    expect(screen.queryByAltText('Attached photo 1')).not.toBeInTheDocument();
+  });
+
+  it('drops the report when the reporter declines to share', async () => {
+    mockAnalyzeHazard();
+    const { user, onHazardSubmit } = await reportHazard(REPORT);
+
+    await user.click(await screen.findByRole('button', { name: /don't share/i }));
+
+    expect(screen.queryByText('Vehicle off road')).not.toBeInTheDocument();
+    expect(onHazardSubmit).not.toHaveBeenCalled();
+  });
+});
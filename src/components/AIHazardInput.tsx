@@ -1,27 +1,71 @@
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { AIService } from '@/services/aiService';
+import { AIService, HazardAnalysis, HazardLocation } from '@/services/aiService';
 import { LocationService, UserLocation } from '@/services/locationService';
+import type { LatLngPoint } from '@/lib/geo';
+import { MAX_PHOTOS_PER_REPORT, PreparedPhoto, preparePhoto } from '@/lib/photos';
 
 interface AIHazardInputProps {
-  onHazardSubmit: (hazard: {
-    text: string;
-    location?: { 
-      address?: string;
-      coordinates?: { lat: number; lng: number };
-    };
-  }) => void;
+  onHazardSubmit: (hazard: HazardAnalysis, photos: PreparedPhoto[]) => void;
 }
 
+// Location used when the reporter shares their position and the AI could not place the hazard itself
+const toSharedLocation = (userLocation: UserLocation): HazardLocation => ({
+  address: userLocation.address || 'User location',
+  coordinates: {
+    lat: userLocation.lat,
+    lng: userLocation.lng
+  },
+  confidence: 'medium',
+  source: 'user_shared_location',
+  reasoning: 'Reporter shared their current location'
+});
+
+// Location used when the AI could not place the hazard but an attached photo says where it was taken
+const toPhotoLocation = (gps: LatLngPoint): HazardLocation => ({
+  address: 'Photo location',
+  coordinates: gps,
+  confidence: 'medium',
+  source: 'photo_gps',
+  reasoning: 'Position recorded in the attached photo'
+});
+
 export const AIHazardInput: React.FC<AIHazardInputProps> = ({ onHazardSubmit }) => {
   const [input, setInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [needsLocation, setNeedsLocation] = useState(false);
-  const [pendingHazard, setPendingHazard] = useState<any>(null);
+  const [pendingHazard, setPendingHazard] = useState<HazardAnalysis | null>(null);
   const [showLocationPrompt, setShowLocationPrompt] = useState(false);
+  const [photos, setPhotos] = useState<PreparedPhoto[]>([]);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const [usePhotoLocation, setUsePhotoLocation] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // The first attached photo with a GPS position, if the reporter lets us use it
+  const photoLocation = usePhotoLocation ? photos.find(photo => photo.gps)?.gps ?? null : null;
+
+  const handlePhotosSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, MAX_PHOTOS_PER_REPORT - photos.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setPhotoError(null);
+    const prepared = await Promise.allSettled(files.map(file => preparePhoto(file)));
+    const added = prepared.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    if (added.length < files.length) {
+      console.error('Could not read photos:', prepared.filter(result => result.status === 'rejected'));
+      setPhotoError('Some photos could not be read. Try a JPEG or PNG.');
+    }
+    setPhotos(prev => [...prev, ...added].slice(0, MAX_PHOTOS_PER_REPORT));
+  };
+
+  const removePhoto = (index: number) => {
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -51,23 +95,25 @@ export const AIHazardInput: React.FC<AIHazardInputProps> = ({ onHazardSubmit })
 
       console.log('AI Analysis:', analysis);
 
-      if (analysis.needsLocationConfirmation) {
+      if ((analysis.needsLocationConfirmation || !analysis.location?.coordinates) && photoLocation) {
+        // Placed where the attached photo was taken instead of asking for the reporter's location
+        onHazardSubmit({
+          ...analysis,
+          location: toPhotoLocation(photoLocation),
+          needsLocationConfirmation: false
+        }, photos);
+        setInput('');
+        setPhotos([]);
+      } else if (analysis.needsLocationConfirmation) {
         // AI couldn't determine location precisely even with available context
         setPendingHazard(analysis);
         setShowLocationPrompt(true);
         setNeedsLocation(true);
       } else {
         // AI found a good location match
-        const hazardReport = {
-          text: `${analysis.hazardType}: ${analysis.description}`,
-          location: analysis.location ? {
-            address: analysis.location.address,
-            coordinates: analysis.location.coordinates
-          } : undefined
-        };
-
-        onHazardSubmit(hazardReport);
+        onHazardSubmit(analysis, photos);
         setInput('');
+        setPhotos([]);
       }
     } catch (error) {
       console.error('Error processing hazard report:', error);
@@ -110,40 +156,27 @@ export const AIHazardInput: React.FC<AIHazardInputProps> = ({ onHazardSubmit })
           
           console.log('Re-analysis with location:', updatedAnalysis);
           
-          const hazardReport = {
-            text: `${updatedAnalysis.hazardType}: ${updatedAnalysis.description}`,
-            location: updatedAnalysis.location ? {
-              address: updatedAnalysis.location.address,
-              coordinates: updatedAnalysis.location.coordinates
-            } : {
-              address: userLocation.address || 'User location',
-              coordinates: {
-                lat: userLocation.lat,
-                lng: userLocation.lng
-              }
-            }
-          };
-          
-          onHazardSubmit(hazardReport);
+          // The reporter just answered the location prompt, so a guess that still wants
+          // confirming gives way to where they are
+          const confirmed = !updatedAnalysis.needsLocationConfirmation && updatedAnalysis.location;
+          onHazardSubmit({
+            ...updatedAnalysis,
+            location: confirmed ? updatedAnalysis.location : toSharedLocation(userLocation),
+            needsLocationConfirmation: false
+          }, photos);
         } catch (reAnalysisError) {
           console.log('Re-analysis failed, using direct location:', reAnalysisError);
           
           // Fallback: use the shared location directly
-          const hazardReport = {
-            text: `${pendingHazard.hazardType}: ${pendingHazard.description}`,
-            location: {
-              address: userLocation.address || 'User location',
-              coordinates: {
-                lat: userLocation.lat,
-                lng: userLocation.lng
-              }
-            }
-          };
-          
-          onHazardSubmit(hazardReport);
+          onHazardSubmit({
+            ...pendingHazard,
+            location: toSharedLocation(userLocation),
+            needsLocationConfirmation: false
+          }, photos);
         }
         
         setInput('');
+        setPhotos([]);
         resetLocationPrompt();
       } else {
         console.log('Could not get user location or no pending hazard');
@@ -176,14 +209,71 @@ export const AIHazardInput: React.FC<AIHazardInputProps> = ({ onHazardSubmit })
           rows={3}
           className="resize-none bg-background/50 border-accent/30"
         />
-        <Button 
-          type="submit" 
-          size="sm" 
-          disabled={!input.trim() || isProcessing}
-          className="bg-primary hover:bg-primary/90"
-        >
-          {isProcessing ? 'Processing...' : '🤖 Report with AI'}
-        </Button>
+        {photos.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {photos.map((photo, index) => (
+              <div key={index} className="relative">
+                <img
+                  src={photo.previewUrl}
+                  alt={`Attached photo ${index + 1}`}
+                  className="h-12 w-12 rounded-lg object-cover border border-accent/30"
+                />
+                <button
+                  type="button"
+                  onClick={() => removePhoto(index)}
+                  aria-label={`Remove photo ${index + 1}`}
+                  className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-background border border-accent/30 text-[10px] leading-none"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {photos.some(photo => photo.gps) && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="use-photo-location"
+              checked={usePhotoLocation}
+              onCheckedChange={checked => setUsePhotoLocation(checked === true)}
+            />
+            <label htmlFor="use-photo-location" className="text-xs text-muted-foreground">
+              📍 Use where the photo was taken if the description doesn't say
+            </label>
+          </div>
+        )}
+        {photoError && (
+          <p className="text-xs text-destructive">{photoError}</p>
+        )}
+        <div className="flex gap-2">
+          <Button 
+            type="submit" 
+            size="sm" 
+            disabled={!input.trim() || isProcessing}
+            className="bg-primary hover:bg-primary/90"
+          >
+            {isProcessing ? 'Processing...' : '🤖 Report with AI'}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={isProcessing || photos.length >= MAX_PHOTOS_PER_REPORT}
+            onClick={() => fileInputRef.current?.click()}
+            className="bg-background/50 hover:bg-background/80"
+          >
+            📷 Add photo
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            aria-label="Attach photos"
+            onChange={handlePhotosSelected}
+            className="hidden"
+          />
+        </div>
       </form>
 
       {showLocationPrompt && (
@@ -191,7 +281,7 @@ export const AIHazardInput: React.FC<AIHazardInputProps> = ({ onHazardSubmit })
           <AlertDescription>
             <div className="space-y-3">
               <p className="text-sm">
-                🤖 I detected: <strong>{pendingHazard?.hazardType}</strong>
+                🤖 I detected: <strong>{pendingHazard?.title}</strong>
                 <br />
                 I checked your route and previous locations, but I still need your current location to report this hazard accurately. Would you like to share your location?
               </p>
@@ -0,0 +1,76 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import AccountPanel from './AccountPanel';
+import { chooseOption } from '@/test/routeForm';
+import { supabaseMock, tableRows, tableUpdates } from '@/test/supabaseMock';
+
+const ACCOUNT = {
+  userId: 'user-1',
+  email: 'driver@example.com',
+  displayName: null,
+  vehicles: [],
+  places: [],
+  quietHours: null,
+  timeZone: 'America/Chicago'
+};
+
+describe('AccountPanel', () => {
+  it('emails a sign-in link', async () => {
+    const user = userEvent.setup();
+    render(<AccountPanel account={null} onChange={vi.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: /sign in/i }));
+    await user.type(screen.getByLabelText('Email'), 'driver@example.com');
+    await user.click(screen.getByRole('button', { name: /email me a sign-in link/i }));
+
+    expect(await screen.findByText(/check driver@example.com for a sign-in link/i)).toBeInTheDocument();
+    expect(supabaseMock.auth.signInWithOtp).toHaveBeenCalledWith(expect.objectContaining({ email: 'driver@example.com' }));
+  });
+
+  it('adds a vehicle to the garage', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<AccountPanel account={ACCOUNT} onChange={onChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'driver@example.com' }));
+    expect(screen.getByText('No saved vehicles yet.')).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('Vehicle name'), 'Blue Outback');
+    await chooseOption(user, /vehicle type/i, /suv/i);
+    await chooseOption(user, /tires/i, /snow tires/i);
+    await chooseOption(user, /drive/i, /awd/i);
+    await user.click(screen.getByRole('button', { name: /add vehicle/i }));
+
+    await waitFor(() => expect(onChange).toHaveBeenCalled());
+    expect(tableRows('vehicles')).toEqual([expect.objectContaining({
+      user_id: 'user-1',
+      name: 'Blue Outback',
+      vehicle_type: 'suv',
+      tires: 'snow',
+      drive: 'awd'
+    })]);
+    // The first vehicle becomes the default
+    expect(supabaseMock.from).toHaveBeenCalledWith('profiles');
+  });
+
+  it('saves quiet hours for notifications', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<AccountPanel account={ACCOUNT} onChange={onChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'driver@example.com' }));
+    // jsdom has no service workers or Push API
+    expect(screen.getByText('This browser cannot show notifications.')).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('From'), '22:00');
+    await user.type(screen.getByLabelText('to'), '06:30');
+    await user.click(screen.getByRole('button', { name: /save quiet hours/i }));
+
+    await waitFor(() => expect(onChange).toHaveBeenCalled());
+    expect(tableUpdates('profiles')).toEqual([expect.objectContaining({
+      quiet_hours_start: '22:00',
+      quiet_hours_end: '06:30'
+    })]);
+  });
+});
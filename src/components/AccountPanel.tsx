@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UserRound } from 'lucide-react';
+import PlacesAutocompleteInput from './PlacesAutocompleteInput';
+import { Account, AccountService, NewVehicle, SUGGESTED_PLACE_LABELS } from '@/services/accountService';
+import { PushService, PushStatus } from '@/services/pushService';
+
+interface AccountPanelProps {
+  account: Account | null;
+  onChange: () => void; // Reload the account after a change
+}
+
+const VEHICLE_LABELS = {
+  type: { sedan: '🚗 Sedan', suv: '🚙 SUV', truck: '🛻 Truck' },
+  tires: { regular: '🛞 Regular tires', snow: '❄️ Snow tires' },
+  drive: { fwd: 'FWD', awd: 'AWD', '4wd': '4WD' }
+};
+
+const EMPTY_VEHICLE: Partial<NewVehicle> = { name: '' };
+
+const PUSH_STATUS_TEXT: Record<PushStatus, string> = {
+  unsupported: 'This browser cannot show notifications.',
+  denied: 'Notifications are blocked for this site. Allow them in your browser settings to turn them on.',
+  off: 'Get a notification when a commute looks worse than usual or a serious hazard is reported on its route.',
+  on: 'Notifications are on for this browser.'
+};
+
+// Sign-in, and for signed-in drivers their garage and saved places
+const AccountPanel: React.FC<AccountPanelProps> = ({ account, onChange }) => {
+  const [email, setEmail] = useState('');
+  const [linkSent, setLinkSent] = useState(false);
+  const [newVehicle, setNewVehicle] = useState<Partial<NewVehicle>>(EMPTY_VEHICLE);
+  const [placeLabel, setPlaceLabel] = useState('');
+  const [placeAddress, setPlaceAddress] = useState('');
+  const [pushStatus, setPushStatus] = useState<PushStatus>('unsupported');
+  const [quietStart, setQuietStart] = useState('');
+  const [quietEnd, setQuietEnd] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const accountService = AccountService.getInstance();
+  const pushService = PushService.getInstance();
+
+  useEffect(() => {
+    if (!account) return;
+    PushService.getInstance().getStatus().then(setPushStatus);
+    setQuietStart(account.quietHours?.start ?? '');
+    setQuietEnd(account.quietHours?.end ?? '');
+  }, [account]);
+
+  // Run a change, show its error if any and reload the account
+  const run = async (change: () => Promise<{ error: string | null }>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { error } = await change();
+      if (error) {
+        setError(error);
+        return false;
+      }
+      onChange();
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSendLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    const { error } = await accountService.sendSignInLink(email.trim());
+    setBusy(false);
+    if (error) {
+      setError(error);
+    } else {
+      setLinkSent(true);
+    }
+  };
+
+  const handleAddVehicle = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await run(() => accountService.addVehicle(account!, newVehicle as NewVehicle));
+    if (saved) setNewVehicle(EMPTY_VEHICLE);
+  };
+
+  const handleSavePlace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await run(() => accountService.savePlace(account!, placeLabel, placeAddress));
+    if (saved) {
+      setPlaceLabel('');
+      setPlaceAddress('');
+    }
+  };
+
+  const handleTogglePush = async () => {
+    const changed = await run(() => pushStatus === 'on' ? pushService.disable() : pushService.enable(account!));
+    if (!changed) return;
+    setPushStatus(await pushService.getStatus());
+  };
+
+  const handleSaveQuietHours = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => accountService.setQuietHours(account!, quietStart && quietEnd ? { start: quietStart, end: quietEnd } : null));
+  };
+
+  // This browser's notifications belong to whoever signs in next
+  const handleSignOut = async () => {
+    if (pushStatus === 'on') await pushService.disable();
+    await accountService.signOut();
+  };
+
+  const canAddVehicle = newVehicle.name?.trim() && newVehicle.type && newVehicle.tires && newVehicle.drive;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <UserRound className="w-4 h-4" />
+          {account ? account.displayName || account.email || 'Account' : 'Sign in'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        {!account ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Sign in to MadSnowi</DialogTitle>
+              <DialogDescription>
+                Save your vehicles and places so the route form is filled in for you. You can keep using MadSnowi without an account.
+              </DialogDescription>
+            </DialogHeader>
+            {linkSent ? (
+              <p className="text-sm text-foreground">✉️ Check {email} for a sign-in link.</p>
+            ) : (
+              <form onSubmit={handleSendLink} className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="account-email">Email</Label>
+                  <Input id="account-email" type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="you@example.com" />
+                </div>
+                <Button type="submit" disabled={busy || !email.trim()}>
+                  Email me a sign-in link
+                </Button>
+              </form>
+            )}
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Your garage and places</DialogTitle>
+              <DialogDescription>Signed in as {account.email}</DialogDescription>
+            </DialogHeader>
+
+            {/* Garage */}
+            <section className="space-y-3">
+              <h3 className="font-semibold text-foreground">🚗 Garage</h3>
+              {account.vehicles.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No saved vehicles yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {account.vehicles.map(vehicle => (
+                    <li key={vehicle.id} className="flex items-center justify-between gap-2 p-2 rounded-xl border border-accent/20">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-foreground flex items-center gap-2">
+                          {vehicle.name}
+                          {vehicle.isDefault && <Badge variant="secondary">Default</Badge>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {VEHICLE_LABELS.type[vehicle.type]} · {VEHICLE_LABELS.tires[vehicle.tires]} · {VEHICLE_LABELS.drive[vehicle.drive]}
+                        </p>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        {!vehicle.isDefault && (
+                          <Button variant="ghost" size="sm" disabled={busy} onClick={() => run(() => accountService.setDefaultVehicle(account, vehicle.id))}>
+                            Make default
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" disabled={busy} aria-label={`Remove ${vehicle.name}`} onClick={() => run(() => accountService.removeVehicle(vehicle.id))}>
+                          Remove
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form onSubmit={handleAddVehicle} className="space-y-2">
+                <Input
+                  value={newVehicle.name || ''}
+                  onChange={e => setNewVehicle(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Name, e.g. Blue Outback"
+                  aria-label="Vehicle name"
+                />
+                <div className="grid grid-cols-3 gap-2">
+                  <Select value={newVehicle.type || ''} onValueChange={(value: NewVehicle['type']) => setNewVehicle(prev => ({ ...prev, type: value }))}>
+                    <SelectTrigger aria-label="Vehicle type"><SelectValue placeholder="Type" /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(VEHICLE_LABELS.type).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Select value={newVehicle.tires || ''} onValueChange={(value: NewVehicle['tires']) => setNewVehicle(prev => ({ ...prev, tires: value }))}>
+                    <SelectTrigger aria-label="Tires"><SelectValue placeholder="Tires" /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(VEHICLE_LABELS.tires).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Select value={newVehicle.drive || ''} onValueChange={(value: NewVehicle['drive']) => setNewVehicle(prev => ({ ...prev, drive: value }))}>
+                    <SelectTrigger aria-label="Drive"><SelectValue placeholder="Drive" /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(VEHICLE_LABELS.drive).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" size="sm" disabled={busy || !canAddVehicle}>
+                  Add vehicle
+                </Button>
+              </form>
+            </section>
+
+            {/* Saved places */}
+            <section className="space-y-3">
+              <h3 className="font-semibold text-foreground">📍 Saved places</h3>
+              {account.places.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No saved places yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {account.places.map(place => (
+                    <li key={place.id} className="flex items-center justify-between gap-2 p-2 rounded-xl border border-accent/20">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-foreground">{place.label}</p>
+                        <p className="text-xs text-muted-foreground truncate">{place.address}</p>
+                      </div>
+                      <Button variant="ghost" size="sm" disabled={busy} aria-label={`Remove ${place.label}`} onClick={() => run(() => accountService.removePlace(place.id))}>
+                        Remove
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form onSubmit={handleSavePlace} className="space-y-2">
+                <div className="flex flex-wrap gap-1">
+                  {SUGGESTED_PLACE_LABELS.map(label => (
+                    <Button key={label} type="button" variant={placeLabel === label ? 'secondary' : 'outline'} size="sm" className="h-7 px-2 text-xs" onClick={() => setPlaceLabel(label)}>
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                <Input value={placeLabel} onChange={e => setPlaceLabel(e.target.value)} placeholder="Name, e.g. Home" aria-label="Place name" />
+                <PlacesAutocompleteInput defaultValue={placeAddress} onSelect={setPlaceAddress} placeholder="Search for the address" />
+                <Button type="submit" size="sm" disabled={busy || !placeLabel.trim() || !placeAddress}>
+                  Save place
+                </Button>
+              </form>
+            </section>
+
+            {/* Notifications */}
+            <section className="space-y-3">
+              <h3 className="font-semibold text-foreground">🔔 Notifications</h3>
+              <p className="text-sm text-muted-foreground">{PUSH_STATUS_TEXT[pushStatus]}</p>
+              {(pushStatus === 'off' || pushStatus === 'on') && (
+                <Button variant="outline" size="sm" disabled={busy} onClick={handleTogglePush}>
+                  {pushStatus === 'on' ? 'Turn off notifications' : 'Turn on notifications'}
+                </Button>
+              )}
+              <form onSubmit={handleSaveQuietHours} className="space-y-2">
+                <p className="text-sm text-foreground">Quiet hours</p>
+                <p className="text-xs text-muted-foreground">
+                  Notifications wait until quiet hours end, unless they are out of date by then. Leave both empty for none.
+                </p>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="quiet-hours-start" className="text-sm">From</Label>
+                  <Input id="quiet-hours-start" type="time" value={quietStart} onChange={e => setQuietStart(e.target.value)} className="w-32" />
+                  <Label htmlFor="quiet-hours-end" className="text-sm">to</Label>
+                  <Input id="quiet-hours-end" type="time" value={quietEnd} onChange={e => setQuietEnd(e.target.value)} className="w-32" />
+                </div>
+                <Button type="submit" size="sm" disabled={busy || Boolean(quietStart) !== Boolean(quietEnd)}>
+                  Save quiet hours
+                </Button>
+              </form>
+            </section>
+
+            <Button variant="outline" size="sm" onClick={handleSignOut}>
+              Sign out
+            </Button>
+          </>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountPanel;
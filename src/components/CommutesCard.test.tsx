@@ -0,0 +1,100 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
+import CommutesCard from './CommutesCard';
+import { END_PLACE, START_PLACE } from '@/test/routeForm';
+import { seedTable, tableRows, tableUpdates } from '@/test/supabaseMock';
+
+const ACCOUNT = {
+  userId: 'user-1',
+  email: 'driver@example.com',
+  displayName: null,
+  vehicles: [],
+  places: [],
+  quietHours: null,
+  timeZone: 'America/Chicago'
+};
+
+const COMMUTE = {
+  id: 'commute-1',
+  user_id: 'user-1',
+  name: 'To work',
+  start_location: START_PLACE,
+  end_location: END_PLACE,
+  travel_mode: 'driving',
+  vehicle_type: 'suv',
+  tires: 'snow',
+  drive: 'awd',
+  departure_time: '07:30:00',
+  days_of_week: [1, 2, 3, 4, 5],
+  time_zone: 'America/Chicago',
+  notify: true
+};
+
+const check = (departureAt: string, overallSafety: string, worsened = false) => ({
+  commute_id: 'commute-1',
+  departure_at: departureAt,
+  overall_safety: overallSafety,
+  usual_safety: 'safe',
+  worsened,
+  route_summary: 'US-151 N',
+  recommendation: worsened ? 'Icy bridges on US-151; leave early and slow down.' : 'Normal winter driving.'
+});
+
+describe('CommutesCard', () => {
+  it('shows each commute\'s recent verdicts and flags one worse than usual', async () => {
+    seedTable('commutes', [COMMUTE]);
+    seedTable('commute_checks', [
+      check('2025-01-08T13:30:00Z', 'caution', true),
+      check('2025-01-07T13:30:00Z', 'safe'),
+      check('2025-01-06T13:30:00Z', 'safe')
+    ]);
+    render(<CommutesCard account={ACCOUNT} />);
+
+    expect(await screen.findByText('To work')).toBeInTheDocument();
+    expect(screen.getByText(/weekdays at 7:30/i)).toBeInTheDocument();
+    expect(screen.getByText('Worse than usual')).toBeInTheDocument();
+    expect(screen.getByText(/icy bridges on us-151/i)).toBeInTheDocument();
+    expect(screen.getByLabelText(/recent checks of to work/i).children).toHaveLength(3);
+  });
+
+  it('saves the searched route as a commute', async () => {
+    const user = userEvent.setup();
+    const route = {
+      startLocation: START_PLACE,
+      endLocation: END_PLACE,
+      travelMode: 'driving' as const,
+      vehicleInfo: { type: 'sedan' as const, tires: 'regular' as const, drive: 'fwd' as const }
+    };
+    render(<CommutesCard account={ACCOUNT} route={route} />);
+
+    await user.type(screen.getByLabelText('Commute name'), 'To work');
+    await user.click(screen.getByRole('button', { name: 'Saturday' }));
+    await user.click(screen.getByRole('button', { name: /save commute/i }));
+
+    await waitFor(() => expect(tableRows('commutes')).toHaveLength(1));
+    expect(tableRows('commutes')[0]).toMatchObject({
+      user_id: 'user-1',
+      name: 'To work',
+      start_location: START_PLACE,
+      end_location: END_PLACE,
+      travel_mode: 'driving',
+      vehicle_type: 'sedan',
+      departure_time: '07:30',
+      days_of_week: [1, 2, 3, 4, 5, 6]
+    });
+    expect(await screen.findByText(/checked about an hour before each departure/i)).toBeInTheDocument();
+  });
+
+  it('turns off notifications for a commute', async () => {
+    const user = userEvent.setup();
+    seedTable('commutes', [COMMUTE]);
+    render(<CommutesCard account={ACCOUNT} />);
+
+    const toggle = await screen.findByRole('switch', { name: /notifications for to work/i });
+    expect(toggle).toBeChecked();
+    await user.click(toggle);
+
+    await waitFor(() => expect(tableUpdates('commutes')).toEqual([{ notify: false }]));
+  });
+});
@@ -0,0 +1,236 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { Account } from '@/services/accountService';
+import { Commute, CommuteCheck, CommuteService, NewCommute } from '@/services/commuteService';
+
+// The route the driver last searched for, offered as a new commute
+interface CommuteRoute {
+  startLocation: string;
+  endLocation: string;
+  travelMode: 'driving' | 'walking' | 'biking' | '';
+  vehicleInfo?: {
+    type: 'sedan' | 'suv' | 'truck' | '';
+    tires: 'regular' | 'snow' | '';
+    drive: 'fwd' | 'awd' | '4wd' | '';
+  };
+}
+
+interface CommutesCardProps {
+  account: Account;
+  route?: CommuteRoute | null;
+}
+
+const DAYS = [
+  { value: 0, short: 'S', name: 'Sunday' },
+  { value: 1, short: 'M', name: 'Monday' },
+  { value: 2, short: 'T', name: 'Tuesday' },
+  { value: 3, short: 'W', name: 'Wednesday' },
+  { value: 4, short: 'T', name: 'Thursday' },
+  { value: 5, short: 'F', name: 'Friday' },
+  { value: 6, short: 'S', name: 'Saturday' }
+];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const SAFETY_ICONS: Record<string, string> = { safe: '✅', caution: '⚠️', danger: '❌' };
+const SAFETY_DOTS: Record<string, string> = { safe: 'bg-green-500', caution: 'bg-yellow-500', danger: 'bg-red-500' };
+
+const formatDays = (days: number[]) => {
+  const key = [...days].sort((a, b) => a - b).join(',');
+  if (key === WEEKDAYS.join(',')) return 'Weekdays';
+  if (key === '0,6') return 'Weekends';
+  if (days.length === 7) return 'Every day';
+  return DAYS.filter(day => days.includes(day.value)).map(day => day.name.slice(0, 3)).join(', ');
+};
+
+const formatTimeOfDay = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return new Date(2000, 0, 1, hour, minute).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+};
+
+const formatDeparture = (iso: string) => new Date(iso).toLocaleString([], {
+  weekday: 'short',
+  hour: 'numeric',
+  minute: '2-digit'
+});
+
+const describeCheck = (check: CommuteCheck) =>
+  `${formatDeparture(check.departureAt)}: ${check.overallSafety ?? 'check failed'}`;
+
+// Vehicle details count only when all three were chosen
+const toVehicleInfo = (vehicle: CommuteRoute['vehicleInfo']): NewCommute['vehicleInfo'] =>
+  vehicle?.type && vehicle.tires && vehicle.drive
+    ? { type: vehicle.type, tires: vehicle.tires, drive: vehicle.drive }
+    : null;
+
+// A signed-in driver's saved commutes with the verdicts checked ahead of each departure
+const CommutesCard: React.FC<CommutesCardProps> = ({ account, route }) => {
+  const [commutes, setCommutes] = useState<Commute[]>([]);
+  const [name, setName] = useState('');
+  const [departureTime, setDepartureTime] = useState('07:30');
+  const [days, setDays] = useState<number[]>(WEEKDAYS);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const commuteService = CommuteService.getInstance();
+
+  const loadCommutes = useCallback(async () => {
+    setCommutes(await CommuteService.getInstance().loadCommutes(account));
+  }, [account]);
+
+  useEffect(() => {
+    loadCommutes();
+  }, [loadCommutes]);
+
+  const run = async (change: () => Promise<{ error: string | null }>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { error } = await change();
+      if (error) {
+        setError(error);
+        return false;
+      }
+      await loadCommutes();
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleDay = (value: number) => {
+    setDays(prev => prev.includes(value) ? prev.filter(day => day !== value) : [...prev, value]);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!route?.travelMode) return;
+    const saved = await run(() => commuteService.saveCommute(account, {
+      name,
+      startLocation: route.startLocation,
+      endLocation: route.endLocation,
+      travelMode: route.travelMode as NewCommute['travelMode'],
+      vehicleInfo: toVehicleInfo(route.vehicleInfo),
+      departureTime,
+      daysOfWeek: days
+    }));
+    if (saved) setName('');
+  };
+
+  const canSave = route?.startLocation && route.endLocation && route.travelMode && name.trim() && departureTime && days.length > 0;
+
+  return (
+    <Card className="bg-gradient-winter shadow-snow rounded-xl">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold">🚗 My Commutes</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {commutes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved commutes yet. Plan a route you drive regularly and save it here to have it checked before you leave.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {commutes.map(commute => {
+              const latest = commute.checks[0];
+              return (
+                <li key={commute.id} className="p-3 rounded-xl border border-accent/20 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground">{commute.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDays(commute.daysOfWeek)} at {formatTimeOfDay(commute.departureTime)} · {commute.startLocation} → {commute.endLocation}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Switch
+                        checked={commute.notify}
+                        disabled={busy}
+                        aria-label={`Notifications for ${commute.name}`}
+                        title="Notify me when it looks worse than usual or a serious hazard is reported on the way"
+                        onCheckedChange={notify => run(() => commuteService.setNotify(commute.id, notify))}
+                      />
+                      <Button variant="ghost" size="sm" disabled={busy} aria-label={`Remove ${commute.name}`} onClick={() => run(() => commuteService.removeCommute(commute.id))}>
+                        Remove
+                      </Button>
+                    </div>
+                  </div>
+
+                  {latest ? (
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span>
+                          {SAFETY_ICONS[latest.overallSafety ?? ''] ?? '❓'} {formatDeparture(latest.departureAt)}: {latest.overallSafety ?? 'could not be checked'}
+                        </span>
+                        {latest.worsened && (
+                          <Badge variant={latest.overallSafety === 'danger' ? 'destructive' : 'secondary'}>
+                            Worse than usual
+                          </Badge>
+                        )}
+                      </div>
+                      {latest.worsened && latest.recommendation && (
+                        <p className="text-xs text-muted-foreground">{latest.recommendation}</p>
+                      )}
+                      {/* Oldest to newest */}
+                      <div className="flex gap-1" aria-label={`Recent checks of ${commute.name}`}>
+                        {[...commute.checks].reverse().map(check => (
+                          <span
+                            key={check.departureAt}
+                            title={describeCheck(check)}
+                            aria-label={describeCheck(check)}
+                            className={`h-2.5 w-2.5 rounded-full ${SAFETY_DOTS[check.overallSafety ?? ''] ?? 'bg-muted'}`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Checked about an hour before each departure.</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {route?.startLocation && route.endLocation && (
+          <form onSubmit={handleSave} className="space-y-2 border-t border-accent/20 pt-3">
+            <p className="text-sm text-foreground">
+              Save {route.startLocation} → {route.endLocation} as a commute
+            </p>
+            <Input value={name} onChange={e => setName(e.target.value)} placeholder="Name, e.g. To work" aria-label="Commute name" />
+            <div className="flex items-center gap-2">
+              <Label htmlFor="commute-departure" className="text-sm">Leaves at</Label>
+              <Input id="commute-departure" type="time" value={departureTime} onChange={e => setDepartureTime(e.target.value)} className="w-32" />
+            </div>
+            <div className="flex gap-1">
+              {DAYS.map(day => (
+                <Button
+                  key={day.value}
+                  type="button"
+                  variant={days.includes(day.value) ? 'secondary' : 'outline'}
+                  size="sm"
+                  className="h-7 w-7 p-0 text-xs"
+                  aria-label={day.name}
+                  aria-pressed={days.includes(day.value)}
+                  onClick={() => toggleDay(day.value)}
+                >
+                  {day.short}
+                </Button>
+              ))}
+            </div>
+            <Button type="submit" size="sm" disabled={busy || !canSave}>
+              Save commute
+            </Button>
+          </form>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CommutesCard;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { DataSource } from '@/services/weatherService';
+
+interface DataSourceBannerProps {
+  dataSource?: DataSource;
+  cachedAt?: string;
+  compact?: boolean; // One line, for small cards
+}
+
+const formatSavedAt = (iso: string) => new Date(iso).toLocaleString([], {
+  weekday: 'short',
+  hour: 'numeric',
+  minute: '2-digit'
+});
+
+// Warns that what follows is not live data; renders nothing for live results
+const DataSourceBanner: React.FC<DataSourceBannerProps> = ({
+  dataSource,
+  cachedAt,
+  compact = false
+}) => {
+  if (!dataSource || dataSource === 'live') return null;
+
+  const savedAt = cachedAt ? formatSavedAt(cachedAt) : 'earlier';
+  const message = dataSource === 'demo'
+    ? compact
+      ? '🧪 Demo data, not real conditions'
+      : "🧪 Demo data: MadSnowi can't reach its weather and routing services, so the numbers below are examples, not real conditions."
+    : compact
+      ? `📦 Offline · last updated ${savedAt}`
+      : `📦 Offline: showing results last updated ${savedAt}. Conditions may have changed since.`;
+
+  return <Alert className={`border-amber-300 bg-amber-50 ${compact ? 'py-2' : ''}`}>
+      <AlertDescription className={compact ? 'text-xs' : 'text-sm'}>{message}</AlertDescription>
+    </Alert>;
+};
+export default DataSourceBanner;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceArea, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { DepartureTimeline } from '@/services/weatherService';
+
+const VERDICT_COLORS: Record<string, string> = {
+  safe: '#16a34a',
+  caution: '#eab308',
+  danger: '#dc2626',
+  unknown: '#94a3b8'
+};
+
+const chartConfig = {
+  maxSnowDepth: {
+    label: 'Max snow on route (in)'
+  }
+} satisfies ChartConfig;
+
+interface Props {
+  timeline: DepartureTimeline;
+}
+
+// "11:30 PM", or "Tue 11:30 PM" when the departures run past midnight
+const slotTimeFormatter = (withDay: boolean) => (iso: string) => new Date(iso).toLocaleString([], {
+  weekday: withDay ? 'short' : undefined,
+  hour: 'numeric',
+  minute: '2-digit'
+});
+
+// Deepest snow on the route for each departure time, colored by the safety verdict,
+// with the recommended window shaded. Slots are keyed by their time, as the same hour on two
+// days would give two bars one label.
+const DepartureTimelineChart: React.FC<Props> = ({ timeline }) => {
+  const data = timeline.slots.map(slot => ({
+    time: slot.departureTime,
+    maxSnowDepth: slot.maxSnowDepth ?? 0,
+    verdict: slot.overallSafety ?? 'unknown'
+  }));
+  const days = new Set(data.map(slot => new Date(slot.time).toDateString()));
+  const formatSlotTime = slotTimeFormatter(days.size > 1);
+  const recommendedWindow = timeline.recommendedWindow;
+
+  return <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="h-[200px] w-full aspect-auto">
+        <BarChart data={data} margin={{ left: -20, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" tickFormatter={formatSlotTime} tickLine={false} axisLine={false} interval="preserveStartEnd" />
+          <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+          {recommendedWindow && <ReferenceArea x1={recommendedWindow.start} x2={recommendedWindow.end} fill="#16a34a" fillOpacity={0.1} />}
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={label => formatSlotTime(String(label))} />} />
+          <Bar dataKey="maxSnowDepth" radius={4}>
+            {data.map((slot, index) => <Cell key={index} fill={VERDICT_COLORS[slot.verdict]} />)}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {(['safe', 'caution', 'danger'] as const).map(verdict => <span key={verdict} className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-sm" style={{ backgroundColor: VERDICT_COLORS[verdict] }} />
+            {verdict}
+          </span>)}
+      </div>
+    </div>;
+};
+
+export default DepartureTimelineChart;
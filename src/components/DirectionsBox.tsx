@@ -1,21 +1,39 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Navigation, Clock, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Navigation, Clock, MapPin, Volume2, VolumeX } from 'lucide-react';
+import DataSourceBanner from './DataSourceBanner';
+import { RouteAnalysisResult } from './RouteResults';
+import type { NavigationState } from '@/hooks/use-navigation';
+import { LatLngPoint } from '@/lib/geo';
 
 interface DirectionsBoxProps {
-  routeData?: any;
+  routeData?: Pick<RouteAnalysisResult, 'distance' | 'duration' | 'steps' | 'dataSource' | 'cachedAt'>;
   startLocation?: string;
   endLocation?: string;
   loading?: boolean;
+  navigation?: NavigationState;
+  onReroute?: (from: LatLngPoint) => void;
 }
 
 const DirectionsBox: React.FC<DirectionsBoxProps> = ({
   routeData,
   startLocation,
   endLocation,
-  loading
+  loading,
+  navigation,
+  onReroute
 }) => {
+  const navigating = Boolean(navigation?.active);
+  const currentStepRef = useRef<HTMLDivElement>(null);
+
+  // Keep the step the driver is on in view as it advances
+  useEffect(() => {
+    if (navigating) currentStepRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [navigating, navigation?.stepIndex]);
+
   // Get maneuver icon based on instruction content
   const getManeuverIcon = (instruction: string, maneuver?: string) => {
     if (instruction.toLowerCase().includes('destination')) return '📍';
@@ -76,11 +94,33 @@ const DirectionsBox: React.FC<DirectionsBoxProps> = ({
   }
 
   return (
-    <Card className="bg-gradient-winter shadow-snow h-[320px] rounded-xl">
+    <Card className={`bg-gradient-winter shadow-snow rounded-xl ${navigating ? 'min-h-[320px]' : 'h-[320px]'}`}>
       <CardHeader className="pb-3">
         <CardTitle className="text-lg font-semibold flex items-center gap-2">
           <Navigation className="h-5 w-5 text-primary" />
           Directions
+          {navigation && directions.length > 0 && (
+            <div className="ml-auto flex items-center gap-1">
+              {navigating && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label={navigation.muted ? 'Unmute voice' : 'Mute voice'}
+                  onClick={() => navigation.setMuted(!navigation.muted)}
+                >
+                  {navigation.muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+                </Button>
+              )}
+              <Button
+                variant={navigating ? 'outline' : 'default'}
+                size="sm"
+                onClick={navigating ? navigation.stop : navigation.start}
+              >
+                {navigating ? 'End navigation' : 'Start navigation'}
+              </Button>
+            </div>
+          )}
         </CardTitle>
         {routeData && (
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -92,28 +132,61 @@ const DirectionsBox: React.FC<DirectionsBoxProps> = ({
           </div>
         )}
       </CardHeader>
-      <CardContent className="h-full overflow-hidden">
+      <CardContent className="h-full overflow-hidden space-y-3">
+        {routeData?.dataSource === 'cached' && (
+          <DataSourceBanner dataSource={routeData.dataSource} cachedAt={routeData.cachedAt} compact />
+        )}
+        {navigation?.error && (
+          <p className="text-xs text-red-600">{navigation.error}</p>
+        )}
+        {navigating && navigation.offRoute && (
+          <Alert className="border-red-300 bg-red-50 py-2">
+            <AlertDescription className="flex items-center justify-between gap-2 text-sm">
+              <span>🧭 You're off the route</span>
+              {onReroute && navigation.position && (
+                <Button size="sm" variant="outline" onClick={() => onReroute(navigation.position)}>
+                  Re-route from here
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+        {navigating && !navigation.offRoute && (navigation.distanceToNextStepMiles != null || navigation.nextCallout) && (
+          <div className="text-xs space-y-1">
+            {navigation.distanceToNextStepMiles != null && (
+              <p className="text-muted-foreground">Next step in {navigation.distanceToNextStepMiles.toFixed(1)} mi</p>
+            )}
+            {navigation.nextCallout && (
+              <p className="font-medium text-amber-700">⚠️ {navigation.nextCallout}</p>
+            )}
+          </div>
+        )}
         <div className="space-y-3 max-h-52 overflow-y-auto">
-          {directions.length > 0 ? directions.map((step: any, index: number) => (
-            <div
-              key={index}
-              className="flex items-start gap-3 p-2 rounded-xl bg-background/30 border border-accent/20"
-            >
-              <div className="flex-shrink-0 w-6 h-6 bg-primary/20 rounded-full flex items-center justify-center text-xs font-semibold">
-                {getManeuverIcon(step.instruction, step.maneuver)}
-              </div>
-              <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium text-foreground leading-tight">
-                  {step.instruction}
-                </p>
-                {step.distance && (
-                  <p className="text-xs text-muted-foreground mt-1">
-                    {step.distance}
+          {directions.length > 0 ? directions.map((step, index) => {
+            const current = navigating && index === navigation.stepIndex;
+            return (
+              <div
+                key={index}
+                ref={current ? currentStepRef : undefined}
+                aria-current={current ? 'step' : undefined}
+                className={`flex items-start gap-3 p-2 rounded-xl border ${current ? 'bg-primary/15 border-primary' : 'bg-background/30 border-accent/20'}`}
+              >
+                <div className="flex-shrink-0 w-6 h-6 bg-primary/20 rounded-full flex items-center justify-center text-xs font-semibold">
+                  {getManeuverIcon(step.instruction, step.maneuver)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground leading-tight">
+                    {step.instruction}
                   </p>
-                )}
+                  {step.distance && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {step.distance}
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
-          )) : (
+            );
+          }) : (
             <div className="text-center py-4">
               <p className="text-sm text-muted-foreground">
                 No directions available
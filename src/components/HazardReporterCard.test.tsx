@@ -0,0 +1,188 @@
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
+import HazardReporterCard from './HazardReporterCard';
+import { mockOnline } from '@/test/browser';
+import { hazardAnalysis, hazardReport } from '@/test/fixtures';
+import { emitRealtimeChange, functionCalls, mockFunction, seedTable, supabaseMock } from '@/test/supabaseMock';
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+const hazardRow = (id: number, title: string) => ({
+  id: `hazard-${id}`,
+  hazard_type: 'snow',
+  title,
+  description: `${title} reported by a driver`,
+  severity: 'medium',
+  status: 'active',
+  location_address: 'Madison, WI',
+  created_at: minutesAgo(id * 10)
+});
+
+// Each listed hazard is a button labelled with its title
+const hazardTitles = () => screen.getAllByRole('button')
+  .map(button => button.textContent)
+  .filter(text => !/report with ai|processing|add photo/i.test(text));
+
+describe('HazardReporterCard', () => {
+  it('lists recent hazards', async () => {
+    seedTable('hazard_reports', [hazardRow(1, 'Unplowed side street'), hazardRow(2, 'Slush on Park St')]);
+    render(<HazardReporterCard />);
+
+    expect(await screen.findByText('Unplowed side street')).toBeInTheDocument();
+    expect(screen.getByText('Slush on Park St')).toBeInTheDocument();
+    expect(screen.queryByText('No recent hazard reports')).not.toBeInTheDocument();
+  });
+
+  it('adds a submitted report to the top of the list', async () => {
+    const user = userEvent.setup();
+    seedTable('hazard_reports', [1, 2, 3, 4, 5].map(id => hazardRow(id, `Older hazard ${id}`)));
+    mockFunction('analyze-hazard', () => hazardAnalysis());
+    mockFunction('submit-hazard', () => ({ hazard: hazardReport(), merged: false, sightingId: null, distanceMiles: null }));
+    render(<HazardReporterCard />);
+    await screen.findByText('Older hazard 1');
+
+    await user.type(screen.getByPlaceholderText(/describe the hazard/i), 'Ice patch on East Washington Ave');
+    await user.click(screen.getByRole('button', { name: /report with ai/i }));
+
+    await waitFor(() => expect(hazardTitles()[0]).toBe('Ice patch'));
+    // Still the five most recent
+    expect(hazardTitles()).toHaveLength(5);
+    expect(screen.queryByText('Older hazard 5')).not.toBeInTheDocument();
+
+    expect(functionCalls('submit-hazard')).toEqual([expect.objectContaining({
+      hazardType: 'ice',
+      severity: 'high',
+      location: expect.objectContaining({ lat: 43.0921, lng: -89.3605, source: 'places_api' })
+    })]);
+  });
+
+  it('shows a report merged into an existing hazard once', async () => {
+    const user = userEvent.setup();
+    seedTable('hazard_reports', [hazardRow(1, 'Unplowed side street'), hazardRow(2, 'Ice patch')]);
+    mockFunction('analyze-hazard', () => hazardAnalysis());
+    mockFunction('submit-hazard', () => ({
+      hazard: hazardReport({ id: 'hazard-2', status: 'confirmed', report_count: 3, confidence: 0.875 }),
+      merged: true,
+      sightingId: 'sighting-1',
+      distanceMiles: 0.04
+    }));
+    render(<HazardReporterCard />);
+    await screen.findByText('Ice patch');
+
+    await user.type(screen.getByPlaceholderText(/describe the hazard/i), 'Ice patch on East Washington Ave');
+    await user.click(screen.getByRole('button', { name: /report with ai/i }));
+
+    await waitFor(() => expect(hazardTitles()).toEqual(['Ice patch', 'Unplowed side street']));
+    expect(screen.getByText(/reported by 3 drivers/)).toBeInTheDocument();
+  });
+
+  it('queues a report made offline and sends it when the connection is back', async () => {
+    const user = userEvent.setup();
+    seedTable('hazard_reports', [hazardRow(1, 'Unplowed side street')]);
+    mockFunction('analyze-hazard', () => hazardAnalysis());
+    render(<HazardReporterCard />);
+    await screen.findByText('Unplowed side street');
+
+    // submit-hazard can't be reached
+    await user.type(screen.getByPlaceholderText(/describe the hazard/i), 'Ice patch on East Washington Ave');
+    await user.click(screen.getByRole('button', { name: /report with ai/i }));
+
+    expect(await screen.findByText(/1 report made offline will be sent/)).toBeInTheDocument();
+    expect(hazardTitles()).toEqual(['Unplowed side street']);
+
+    // The list reloads with the connection too, so the saved report is in it either way
+    mockFunction('submit-hazard', () => {
+      seedTable('hazard_reports', [hazardReport(), hazardRow(1, 'Unplowed side street')]);
+      return { hazard: hazardReport(), merged: false, sightingId: null, distanceMiles: null };
+    });
+    act(() => mockOnline(false));
+    act(() => mockOnline(true));
+
+    await waitFor(() => expect(hazardTitles()).toEqual(['Ice patch', 'Unplowed side street']));
+    expect(screen.queryByText(/made offline will be sent/)).not.toBeInTheDocument();
+    expect(functionCalls('submit-hazard')).toHaveLength(2);
+    expect(functionCalls('submit-hazard')[1]).toMatchObject({ hazardType: 'ice', severity: 'high' });
+  });
+
+  it('merges other drivers\' reports and votes as they happen', async () => {
+    seedTable('hazard_reports', [hazardRow(1, 'Unplowed side street'), hazardRow(2, 'Slush on Park St')]);
+    const { unmount } = render(<HazardReporterCard />);
+    await screen.findByText('Unplowed side street');
+
+    act(() => emitRealtimeChange('hazard_reports', 'INSERT', hazardReport({ id: 'hazard-3', title: 'Jackknifed semi' })));
+    expect(hazardTitles()).toEqual(['Jackknifed semi', 'Unplowed side street', 'Slush on Park St']);
+
+    act(() => emitRealtimeChange('hazard_reports', 'UPDATE', { ...hazardRow(2, 'Slush on Park St'), report_count: 4 }));
+    expect(screen.getByText(/reported by 4 drivers/)).toBeInTheDocument();
+
+    // Cleared hazards drop out
+    act(() => emitRealtimeChange('hazard_reports', 'UPDATE', { ...hazardRow(1, 'Unplowed side street'), status: 'resolved' }));
+    expect(hazardTitles()).toEqual(['Jackknifed semi', 'Slush on Park St']);
+
+    unmount();
+    expect(supabaseMock.removeChannel).toHaveBeenCalled();
+  });
+
+  it('shows the details of a selected hazard', async () => {
+    const user = userEvent.setup();
+    seedTable('hazard_reports', [hazardRow(1, 'Unplowed side street')]);
+    render(<HazardReporterCard />);
+
+    await user.click(await screen.findByRole('button', { name: 'Unplowed side street' }));
+
+    expect(screen.getByText('Unplowed side street reported by a driver')).toBeInTheDocument();
+    expect(screen.getByText(/medium severity/)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /back/i }));
+    expect(screen.getByText(/live hazard reports/i)).toBeInTheDocument();
+  });
+
+  it('shows thumbnails of the photos attached to a hazard', async () => {
+    const user = userEvent.setup();
+    seedTable('hazard_reports', [hazardRow(1, 'Unplowed side street')]);
+    seedTable('hazard_report_media', [{
+      id: 'media-1',
+      hazard_id: 'hazard-1',
+      sighting_id: null,
+      storage_path: 'hazard-1/photo.jpg',
+      thumbnail_path: 'hazard-1/photo-thumb.jpg',
+      content_type: 'image/jpeg',
+      width: 1600,
+      height: 1200,
+      created_at: minutesAgo(10)
+    }]);
+    render(<HazardReporterCard />);
+
+    await user.click(await screen.findByRole('button', { name: 'Unplowed side street' }));
+
+    const thumbnail = await screen.findByAltText('Photo 1 of Unplowed side street');
+    expect(thumbnail).toHaveAttribute('src', 'https://storage.test/hazard-photos/hazard-1/photo-thumb.jpg');
+    expect(thumbnail.closest('a')).toHaveAttribute('href', 'https://storage.test/hazard-photos/hazard-1/photo.jpg');
+  });
+
+  it('clears a hazard from the list once it is voted gone', async () => {
+    const user = userEvent.setup();
+    seedTable('hazard_reports', [hazardRow(1, 'Unplowed side street')]);
+    mockFunction('vote-hazard', ({ hazardId }) => ({
+      hazardId,
+      status: 'resolved',
+      stillThereCount: 0,
+      goneCount: 2,
+      lastSeenAt: minutesAgo(10),
+      expiresAt: minutesAgo(-60),
+      resolvedAt: new Date().toISOString()
+    }));
+    render(<HazardReporterCard />);
+
+    await user.click(await screen.findByRole('button', { name: 'Unplowed side street' }));
+    expect(screen.getByText('Not yet confirmed')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /gone/i }));
+
+    expect(await screen.findByText('Thanks! Marked as cleared.')).toBeInTheDocument();
+    expect(functionCalls('vote-hazard')).toEqual([
+      { hazardId: 'hazard-1', vote: 'gone' }
+    ]);
+    await user.click(screen.getByRole('button', { name: /back/i }));
+    expect(screen.getByText('No recent hazard reports')).toBeInTheDocument();
+  });
+});
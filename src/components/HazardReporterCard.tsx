@@ -3,90 +3,198 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { AIHazardInput } from './AIHazardInput';
-import { supabase } from '@/integrations/supabase/client';
+import DataSourceBanner from './DataSourceBanner';
+import { HazardAnalysis } from '@/services/aiService';
+import { LocationService } from '@/services/locationService';
+import { OfflineService } from '@/services/offlineService';
+import {
+  HazardChange,
+  HazardPhoto,
+  HazardService,
+  HazardStatus,
+  HazardVote,
+  isLiveHazard,
+  LIVE_HAZARD_STATUSES,
+  NEARBY_HAZARD_RADIUS_MILES,
+  reportedByLabel
+} from '@/services/hazardService';
+import { useHazardChanges } from '@/hooks/use-hazard-changes';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { haversineMiles } from '@/lib/geo';
+import type { PreparedPhoto } from '@/lib/photos';
 
 interface HazardReport {
   id: string;
   hazard_type: string;
+  title?: string;
   description: string;
   severity: 'low' | 'medium' | 'high';
   location_address?: string;
   location_lat?: number;
   location_lng?: number;
+  location_confidence?: 'high' | 'medium' | 'low';
+  location_source?: string;
+  ai_reasoning?: string;
+  status?: HazardStatus;
+  expires_at?: string;
+  still_there_count?: number;
+  gone_count?: number;
+  report_count?: number;
+  confidence?: number;
   created_at: string;
 }
 
+// The list as last loaded, for when there is no connection
+interface SavedHazardList {
+  hazards: HazardReport[];
+  nearby: boolean;
+}
+
+const SEVERITY_ICONS: Record<HazardReport['severity'], string> = {
+  low: '🟡',
+  medium: '🟠',
+  high: '🔴'
+};
+
+const STATUS_LABELS: Record<HazardStatus, string> = {
+  active: 'Not yet confirmed',
+  confirmed: '✅ Confirmed by other drivers',
+  disputed: '❓ Some drivers say it\'s gone',
+  resolved: 'Cleared',
+  expired: 'Expired'
+};
+
 const HazardReporterCard = () => {
   const [hazards, setHazards] = useState<HazardReport[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [selectedHazard, setSelectedHazard] = useState<HazardReport | null>(null);
+  const [isVoting, setIsVoting] = useState(false);
+  const [voteMessage, setVoteMessage] = useState<string | null>(null);
+  const [nearby, setNearby] = useState(false);
+  const [photos, setPhotos] = useState<HazardPhoto[]>([]);
+  const [lastUpdated, setLastUpdated] = useState<string | null>(null); // Set while showing a saved list
+  const [queuedCount, setQueuedCount] = useState(() => HazardService.getInstance().getQueuedReports().length);
+  const online = useOnlineStatus();
+  const selectedHazardId = selectedHazard?.id;
 
-  // Load hazards from the past 24 hours only (performance optimization)
+  // Load hazards that are still live; each type expires on its own schedule. Without a connection
+  // the list last loaded stands in, until the connection comes back.
   useEffect(() => {
+    const offlineService = OfflineService.getInstance();
+    const showSavedHazards = () => {
+      const saved = offlineService.loadSnapshot<SavedHazardList>('hazards');
+      if (!saved) return;
+      setNearby(saved.value.nearby);
+      setHazards(saved.value.hazards.filter(hazard => isLiveHazard(hazard)));
+      setLastUpdated(saved.savedAt);
+    };
+
     const loadHazards = async () => {
       try {
-        // Backend filtering: Only fetch hazard reports from the last 24 hours
-        // This reduces API payload size and improves performance with indexed queries
-        const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-        
-        console.log('📊 Loading hazards from the past 24 hours...');
-        const { data, error } = await supabase
-          .from('hazard_reports')
-          .select('*')
-          .gte('created_at', twentyFourHoursAgo) // Only show reports from last 24 hours
-          .order('created_at', { ascending: false })
-          .limit(5);
-
-        if (error) {
-          console.error('Error loading hazards:', error);
+        // Backend filtering: resolved and expired reports are kept as history but not shown, and
+        // with a known location only hazards nearby are fetched (spatially indexed hazards_near)
+        const location = LocationService.getLastKnownLocation();
+        console.log(`📊 Loading live hazards${location ? ' near you' : ''}...`);
+        const data = await HazardService.getInstance().getRecentHazards(location);
+        if (!data) {
+          showSavedHazards();
           return;
         }
 
-        console.log(`✅ Loaded ${data?.length || 0} recent hazards (24h filter applied)`);
-        setHazards((data || []) as HazardReport[]);
+        console.log(`✅ Loaded ${data.length} live hazards`);
+        setNearby(!!location);
+        setHazards(data as HazardReport[]);
+        setLastUpdated(null);
+        offlineService.saveSnapshot<SavedHazardList>('hazards', { hazards: data as HazardReport[], nearby: !!location });
       } catch (error) {
         console.log('Could not load hazards:', error);
       }
     };
 
-    loadHazards();
-  }, []);
+    if (online) {
+      loadHazards();
+    } else {
+      showSavedHazards();
+    }
+  }, [online]);
+
+  // Reports made offline go out once the connection is back
+  useEffect(() => {
+    if (!online) return;
+    const hazardService = HazardService.getInstance();
+    if (hazardService.getQueuedReports().length === 0) return;
+
+    hazardService.sendQueuedReports().then(sent => {
+      sent.forEach(({ hazard }) => addToTop(hazard as HazardReport));
+      setQueuedCount(hazardService.getQueuedReports().length);
+    });
+  }, [online]);
+
+  // Other drivers' reports, votes and expiry, as they happen
+  useHazardChanges(({ event, hazard: change }: HazardChange) => {
+    const hazard = change as HazardReport;
+    if (!isLiveHazard(hazard)) {
+      setHazards(prev => prev.filter(item => item.id !== hazard.id));
+    } else if (event === 'INSERT') {
+      if (!isNearby(hazard)) return;
+      setHazards(prev => [hazard, ...prev.filter(item => item.id !== hazard.id)].slice(0, 5));
+    } else {
+      setHazards(prev => prev.map(item => item.id === hazard.id ? hazard : item));
+    }
 
-  const handleAISubmit = (hazardData: { text: string; location?: any }) => {
-    submitHazard(hazardData);
+    if (event === 'UPDATE') {
+      setSelectedHazard(prev => prev?.id === hazard.id ? hazard : prev);
+    }
+  });
+
+  // Thumbnails for the detail view
+  useEffect(() => {
+    setPhotos([]);
+    if (!selectedHazardId) return;
+
+    let cancelled = false;
+    HazardService.getInstance().getHazardPhotos(selectedHazardId).then(result => {
+      if (!cancelled) setPhotos(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedHazardId]);
+
+  // Same radius as the initial load; anywhere counts when the location is unknown
+  const isNearby = (hazard: HazardReport) => {
+    const location = LocationService.getLastKnownLocation();
+    if (!location || hazard.location_lat == null || hazard.location_lng == null) return true;
+    return haversineMiles(location, { lat: hazard.location_lat, lng: hazard.location_lng }) <= NEARBY_HAZARD_RADIUS_MILES;
   };
 
-  const submitHazard = async (hazardData: { text: string; location?: any }) => {
+  // A merged report moves its hazard to the top
+  const addToTop = (hazard: HazardReport) => {
+    setHazards(prev => [hazard, ...prev.filter(item => item.id !== hazard.id)].slice(0, 5));
+  };
+
+  const handleAISubmit = (analysis: HazardAnalysis, attachedPhotos: PreparedPhoto[]) => {
+    submitHazard(analysis, attachedPhotos);
+  };
+
+  const submitHazard = async (analysis: HazardAnalysis, attachedPhotos: PreparedPhoto[]) => {
     setIsSubmitting(true);
     try {
-      // Clean up the location address by removing duplicate pin emojis
-      const cleanAddress = hazardData.location?.address?.replace(/📍\s*📍/g, '📍')?.replace(/^📍\s*/, '');
-      
-      // Prepare data for database insertion
-      const insertData = {
-        hazard_type: hazardData.text.split(' ').slice(0, 5).join(' '), // First few words as type
-        description: hazardData.text,
-        severity: 'medium' as const, // Default severity
-        location_address: cleanAddress,
-        location_lat: hazardData.location?.coordinates?.lat,
-        location_lng: hazardData.location?.coordinates?.lng,
-        user_id: (await supabase.auth.getUser()).data.user?.id || null,
-      };
-
-      const { data, error } = await supabase
-        .from('hazard_reports')
-        .insert(insertData)
-        .select()
-        .single();
+      // Saved through submit-hazard, which merges duplicates of a live hazard nearby into it
+      const { data, error, queued } = await HazardService.getInstance().reportHazard(analysis, attachedPhotos);
 
+      if (queued) {
+        setQueuedCount(HazardService.getInstance().getQueuedReports().length);
+        return;
+      }
       if (error) {
         console.error('Error submitting hazard:', error);
         return;
       }
 
       // Add to local state for immediate UI update
-      setHazards(prev => [data as HazardReport, ...prev.slice(0, 4)]);
-      
+      addToTop(data.hazard as HazardReport);
+
     } catch (error) {
       console.log('Could not submit hazard report:', error);
     } finally {
@@ -94,6 +202,42 @@ const HazardReporterCard = () => {
     }
   };
 
+  const selectHazard = (hazard: HazardReport | null) => {
+    setSelectedHazard(hazard);
+    setVoteMessage(null);
+  };
+
+  // "Still there" keeps the hazard up longer; enough "gone" votes clear it from the list
+  const handleVote = async (hazard: HazardReport, vote: HazardVote) => {
+    setIsVoting(true);
+    try {
+      const { data, error } = await HazardService.getInstance().voteOnHazard(hazard.id, vote);
+      if (error) {
+        setVoteMessage(error.code === 'conflict'
+          ? 'This hazard has already been cleared.'
+          : 'Could not record your vote. Please try again.');
+        return;
+      }
+
+      const updated: HazardReport = {
+        ...hazard,
+        status: data.status,
+        expires_at: data.expiresAt,
+        still_there_count: data.stillThereCount,
+        gone_count: data.goneCount
+      };
+      setSelectedHazard(updated);
+      setHazards(prev => LIVE_HAZARD_STATUSES.includes(data.status)
+        ? prev.map(item => item.id === hazard.id ? updated : item)
+        : prev.filter(item => item.id !== hazard.id));
+      setVoteMessage(data.status === 'resolved'
+        ? 'Thanks! Marked as cleared.'
+        : 'Thanks for letting other drivers know.');
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
   const formatTimeAgo = (dateString: string) => {
     const date = new Date(dateString);
     const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
@@ -109,7 +253,7 @@ const HazardReporterCard = () => {
       <Card className="bg-gradient-winter shadow-snow border-accent/30 rounded-xl">
         <CardHeader className="pb-3">
           <CardTitle className="text-lg font-semibold text-foreground flex items-center gap-2">
-            🚧 {selectedHazard.hazard_type}
+            🚧 {selectedHazard.title || selectedHazard.hazard_type}
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -122,15 +266,73 @@ const HazardReporterCard = () => {
                 📍 {selectedHazard.location_address}
               </p>
             )}
+            {photos.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {photos.map((photo, index) => (
+                  <a key={photo.id} href={photo.url} target="_blank" rel="noopener noreferrer">
+                    <img
+                      src={photo.thumbnailUrl}
+                      alt={`Photo ${index + 1} of ${selectedHazard.title || selectedHazard.hazard_type}`}
+                      loading="lazy"
+                      className="h-16 w-16 rounded-lg object-cover border border-accent/30 hover:opacity-90"
+                    />
+                  </a>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {SEVERITY_ICONS[selectedHazard.severity]} {selectedHazard.severity} severity · {selectedHazard.hazard_type}
+            </p>
             <p className="text-xs text-muted-foreground">
               Reported {formatTimeAgo(selectedHazard.created_at)}
+              {reportedByLabel(selectedHazard.report_count) && ` · ${reportedByLabel(selectedHazard.report_count).toLowerCase()}`}
             </p>
+            {selectedHazard.status && (
+              <p className="text-xs text-muted-foreground">
+                {STATUS_LABELS[selectedHazard.status]}
+                {(selectedHazard.still_there_count > 0 || selectedHazard.gone_count > 0) &&
+                  ` · ${selectedHazard.still_there_count || 0} still there · ${selectedHazard.gone_count || 0} gone`}
+              </p>
+            )}
+            {selectedHazard.ai_reasoning && (
+              <p className="text-xs text-muted-foreground italic">
+                🤖 {selectedHazard.ai_reasoning}
+              </p>
+            )}
           </div>
+          {LIVE_HAZARD_STATUSES.includes(selectedHazard.status || 'active') && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-foreground">Is it still there?</p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isVoting}
+                  onClick={() => handleVote(selectedHazard, 'still_there')}
+                  className="bg-background/50 hover:bg-background/80"
+                >
+                  👍 Still there
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isVoting}
+                  onClick={() => handleVote(selectedHazard, 'gone')}
+                  className="bg-background/50 hover:bg-background/80"
+                >
+                  ✅ Gone
+                </Button>
+              </div>
+            </div>
+          )}
+          {voteMessage && (
+            <p className="text-xs text-muted-foreground">{voteMessage}</p>
+          )}
           <div className="flex justify-start">
             <Button 
               variant="outline" 
               size="sm" 
-              onClick={() => setSelectedHazard(null)}
+              onClick={() => selectHazard(null)}
               className="bg-background/50 hover:bg-background/80"
             >
               ← Back
@@ -148,12 +350,21 @@ const HazardReporterCard = () => {
           🚧 Live Hazard Reports
         </CardTitle>
         <p className="text-xs text-muted-foreground mt-1">
-          Showing hazards reported in the last 24 hours
+          {nearby
+            ? `Showing hazards within ${NEARBY_HAZARD_RADIUS_MILES} mi that other drivers haven't cleared yet`
+            : "Showing hazards other drivers haven't cleared yet"}
         </p>
       </CardHeader>
       <CardContent className="space-y-4">
+        <DataSourceBanner dataSource={lastUpdated ? 'cached' : 'live'} cachedAt={lastUpdated ?? undefined} compact />
+
         {/* AI hazard input */}
         <AIHazardInput onHazardSubmit={handleAISubmit} />
+        {queuedCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            📤 {queuedCount === 1 ? '1 report' : `${queuedCount} reports`} made offline will be sent when you're back online
+          </p>
+        )}
 
         {/* Recent hazards list */}
         <div className="max-h-40 overflow-y-auto space-y-2">
@@ -167,14 +378,14 @@ const HazardReporterCard = () => {
                 key={hazard.id}
                 className="flex items-start gap-2 p-2 rounded-xl bg-background/30 border border-accent/20"
               >
-                <span className="text-sm mt-0.5">❗</span>
+                <span className="text-sm mt-0.5" title={`${hazard.severity} severity`}>{SEVERITY_ICONS[hazard.severity] || '❗'}</span>
                 <div className="flex-1 min-w-0">
                   <button
-                    onClick={() => setSelectedHazard(hazard)}
+                    onClick={() => selectHazard(hazard)}
                     className="text-left w-full hover:bg-background/20 rounded-lg p-1 -m-1 transition-colors"
                   >
                     <p className="text-sm text-foreground leading-tight font-medium underline hover:no-underline">
-                      {hazard.hazard_type}
+                      {hazard.title || hazard.hazard_type}
                     </p>
                   </button>
                   {hazard.location_address && (
@@ -184,6 +395,7 @@ const HazardReporterCard = () => {
                   )}
                   <p className="text-xs text-muted-foreground mt-1">
                     {formatTimeAgo(hazard.created_at)}
+                    {reportedByLabel(hazard.report_count) && ` · ${reportedByLabel(hazard.report_count).toLowerCase()}`}
                   </p>
                 </div>
               </div>
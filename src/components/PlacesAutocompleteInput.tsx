@@ -44,6 +44,7 @@ const PlacesAutocompleteInput: React.FC<PlacesAutocompleteInputProps> = ({
   const dropdownRef = useRef<HTMLDivElement>(null);
   const sessionTokenRef = useRef<string>('');
   const abortControllerRef = useRef<AbortController | null>(null);
+  const skipSuggestionsRef = useRef(false);
 
   // Generate a random session token
   const generateSessionToken = (): string => {
@@ -60,8 +61,21 @@ const PlacesAutocompleteInput: React.FC<PlacesAutocompleteInputProps> = ({
     sessionTokenRef.current = generateSessionToken();
   };
 
+  // Follow a value the parent sets, e.g. a saved place, without offering suggestions for it
+  useEffect(() => {
+    setInputValue(current => {
+      if (current === defaultValue) return current;
+      skipSuggestionsRef.current = true;
+      return defaultValue;
+    });
+  }, [defaultValue]);
+
   // Fetch suggestions using the new Places API
   useEffect(() => {
+    if (skipSuggestionsRef.current) {
+      skipSuggestionsRef.current = false;
+      return;
+    }
     if (!inputValue || inputValue.length < 2) {
       setSuggestions([]);
       setShowDropdown(false);
@@ -2,28 +2,55 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Snowflake, MapPin, Loader2 } from 'lucide-react';
-import { GoogleMap, DirectionsService, DirectionsRenderer, LoadScript, Marker } from '@react-google-maps/api';
+import { GoogleMap, DirectionsService, DirectionsRenderer, LoadScript, Marker, MarkerClusterer, InfoWindow, Polyline } from '@react-google-maps/api';
+import { reportedByLabel, RouteHazard } from '@/services/hazardService';
+import { RouteAnalysisResult } from './RouteResults';
+import { decodePolyline, LatLngPoint } from '@/lib/geo';
+
+interface RouteOptionLine {
+  polyline?: string;
+  summary?: string;
+  safetyScore: 'safe' | 'caution' | 'danger';
+  recommended?: boolean;
+}
 
 interface RouteMapProps {
   startLocation?: string;
   endLocation?: string;
   travelMode?: string;
-  routeData?: any;
+  routeData?: RouteAnalysisResult;
+  hazards?: RouteHazard[];
+  routeOptions?: RouteOptionLine[];
+  selectedRouteIndex?: number;
+  onSelectRoute?: (index: number) => void;
+  navigationPosition?: LatLngPoint | null; // The driver, while navigating
 }
 
 const DEFAULT_CENTER = { lat: 43.0731, lng: -89.4012 }; // UW-Madison
 
+const HAZARD_SEVERITY_COLORS: Record<RouteHazard['severity'], string> = {
+  low: '#eab308',
+  medium: '#f97316',
+  high: '#dc2626'
+};
+
 const RouteMap: React.FC<RouteMapProps> = ({ 
   startLocation, 
   endLocation, 
   travelMode,
-  routeData 
+  routeData,
+  hazards = [],
+  routeOptions = [],
+  selectedRouteIndex = 0,
+  onSelectRoute,
+  navigationPosition
 }) => {
   const [directions, setDirections] = useState<google.maps.DirectionsResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [center, setCenter] = useState(DEFAULT_CENTER);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [selectedHazard, setSelectedHazard] = useState<RouteHazard | null>(null);
 
   // Get API key from environment variable
   const apiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
@@ -51,6 +78,11 @@ const RouteMap: React.FC<RouteMapProps> = ({
     }
   }, []);
 
+  // Follow the driver while navigating
+  useEffect(() => {
+    if (navigationPosition) setCenter(navigationPosition);
+  }, [navigationPosition]);
+
   useEffect(() => {
     console.log("✅ Google Maps API Key:", import.meta.env.VITE_GOOGLE_MAPS_API_KEY);
     console.log("🔍 API Key length:", apiKey?.length);
@@ -60,6 +92,13 @@ const RouteMap: React.FC<RouteMapProps> = ({
   // Memoize directions to prevent flicker
   const memoizedDirections = useMemo(() => directions, [directions]);
 
+  // With alternatives we draw every route ourselves so the user can switch between them
+  const showAlternatives = routeOptions.length > 1;
+  const alternativePaths = useMemo(
+    () => routeOptions.map(option => option.polyline ? decodePolyline(option.polyline) : []),
+    [routeOptions]
+  );
+
   if (!apiKey || apiKey === 'your_actual_google_maps_api_key_here') {
     console.warn('Google Maps API key not configured. Please set VITE_GOOGLE_MAPS_API_KEY environment variable.');
     console.log("❌ API Key validation failed:", { apiKey, hasApiKey: !!apiKey, isPlaceholder: apiKey === 'your_actual_google_maps_api_key_here' });
@@ -149,6 +188,22 @@ const RouteMap: React.FC<RouteMapProps> = ({
                 title="Your Location"
               />
             )}
+            {/* The driver, snapped to the route, while navigating */}
+            {navigationPosition && (
+              <Marker
+                position={navigationPosition}
+                icon={{
+                  path: google.maps.SymbolPath.CIRCLE,
+                  scale: 8,
+                  fillColor: '#2563eb',
+                  fillOpacity: 1,
+                  strokeColor: '#ffffff',
+                  strokeWeight: 3
+                }}
+                title="You are here"
+                zIndex={4}
+              />
+            )}
             {/* Custom origin and destination markers */}
             {originLatLng && (
               <Marker
@@ -172,6 +227,50 @@ const RouteMap: React.FC<RouteMapProps> = ({
                 zIndex={2}
               />
             )}
+            {/* Reported hazards along the route, clustered when dense */}
+            {hazards.length > 0 && (
+              <MarkerClusterer options={{ minimumClusterSize: 3 }}>
+                {(clusterer) => (
+                  <>
+                    {hazards.map((hazard) => (
+                      <Marker
+                        key={hazard.id}
+                        position={{ lat: hazard.lat, lng: hazard.lng }}
+                        clusterer={clusterer}
+                        icon={{
+                          path: google.maps.SymbolPath.CIRCLE,
+                          scale: 9,
+                          fillColor: HAZARD_SEVERITY_COLORS[hazard.severity] || HAZARD_SEVERITY_COLORS.medium,
+                          fillOpacity: 0.9,
+                          strokeColor: '#ffffff',
+                          strokeWeight: 2
+                        }}
+                        title={hazard.title}
+                        zIndex={3}
+                        onClick={() => setSelectedHazard(hazard)}
+                      />
+                    ))}
+                  </>
+                )}
+              </MarkerClusterer>
+            )}
+            {selectedHazard && (
+              <InfoWindow
+                position={{ lat: selectedHazard.lat, lng: selectedHazard.lng }}
+                onCloseClick={() => setSelectedHazard(null)}
+              >
+                <div className="space-y-1 max-w-[220px]">
+                  <div className="font-semibold text-sm">🚧 {selectedHazard.title}</div>
+                  <div className="text-xs">{selectedHazard.description}</div>
+                  <div className="text-xs text-gray-500">
+                    {selectedHazard.severity} severity · {selectedHazard.distanceFromStartMiles.toFixed(1)} mi from start
+                  </div>
+                  {reportedByLabel(selectedHazard.reportCount) && (
+                    <div className="text-xs text-gray-500">👥 {reportedByLabel(selectedHazard.reportCount)}</div>
+                  )}
+                </div>
+              </InfoWindow>
+            )}
             {showRoute && (
               <DirectionsService
                 options={{
@@ -182,11 +281,26 @@ const RouteMap: React.FC<RouteMapProps> = ({
                 callback={directionsCallback}
               />
             )}
+            {showAlternatives && alternativePaths.map((path, index) => (
+              <Polyline
+                key={`${index}-${index === selectedRouteIndex}`}
+                path={path}
+                onClick={() => onSelectRoute?.(index)}
+                options={{
+                  strokeColor: index === selectedRouteIndex ? '#2563eb' : '#64748b',
+                  strokeWeight: index === selectedRouteIndex ? 5 : 4,
+                  strokeOpacity: index === selectedRouteIndex ? 0.9 : 0.5,
+                  zIndex: index === selectedRouteIndex ? 2 : 1,
+                  clickable: true
+                }}
+              />
+            ))}
             {memoizedDirections && (
               <DirectionsRenderer
                 options={{
                   directions: memoizedDirections,
                   suppressMarkers: true,
+                  suppressPolylines: showAlternatives,
                   polylineOptions: {
                     strokeColor: "#2563eb",
                     strokeWeight: 4,
@@ -217,6 +331,12 @@ const RouteMap: React.FC<RouteMapProps> = ({
               <div>🧀 {startLocation}</div>
               <div>🎯 {endLocation}</div>
               <div className="text-muted-foreground">{travelMode} mode</div>
+              {showAlternatives && routeOptions[selectedRouteIndex] && (
+                <div className="text-muted-foreground">
+                  🛣️ {routeOptions[selectedRouteIndex].summary || `Route ${selectedRouteIndex + 1}`}
+                  {routeOptions[selectedRouteIndex].recommended && ' ⭐ safest'}
+                </div>
+              )}
             </div>
           </div>
         )}
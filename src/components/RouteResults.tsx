@@ -3,25 +3,52 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Snowflake, Target, AlertTriangle } from 'lucide-react';
-interface RouteResultsProps {
-  routeData?: {
-    distance: string;
-    duration: string;
-    snowDepth: number;
-    safetyScore: 'safe' | 'caution' | 'danger';
-    vehicleSafety: string;
-    recommendation: string;
-    weatherConditions: {
-      temperature: number;
-      windChill?: number;
-      conditions: string;
-    };
+import { reportedByLabel, RouteHazard } from '@/services/hazardService';
+import type { LatLngPoint } from '@/lib/geo';
+import { ContributingHazard, DataSource, DepartureTimeline, FailedRouteSegment, RouteSegment, RouteStep } from '@/services/weatherService';
+import DataSourceBanner from './DataSourceBanner';
+import DepartureTimelineChart from './DepartureTimelineChart';
+export interface RouteAnalysisResult {
+  distance: string;
+  duration: string;
+  snowDepth: number;
+  safetyScore: 'safe' | 'caution' | 'danger';
+  vehicleSafety: string;
+  recommendation: string;
+  weatherConditions: {
+    temperature: number;
+    windChill?: number;
+    conditions: string;
   };
+  steps?: RouteStep[];
+  polyline?: string;
+  routePath?: LatLngPoint[]; // Decoded polyline, or the route's coordinates; places live hazards on it
+  summary?: string;
+  snowExposureMiles?: number | null;
+  hazardCount?: number | null;
+  recommended?: boolean;
+  routeHazards?: RouteHazard[];
+  contributingHazards?: ContributingHazard[];
+  departureTime?: string;
+  segments?: RouteSegment[];
+  failedSegments?: FailedRouteSegment[];
+  departureTimeline?: DepartureTimeline | null;
+  dataSource?: DataSource; // Least live of the route, its analysis and the weather
+  cachedAt?: string;
+}
+interface RouteResultsProps {
+  routeData?: RouteAnalysisResult;
+  routeOptions?: RouteAnalysisResult[];
+  selectedRouteIndex?: number;
+  onSelectRoute?: (index: number) => void;
   loading?: boolean;
   travelMode?: 'driving' | 'walking' | 'biking' | '';
 }
 const RouteResults: React.FC<RouteResultsProps> = ({
   routeData,
+  routeOptions = [],
+  selectedRouteIndex = 0,
+  onSelectRoute,
   loading,
   travelMode
 }) => {
@@ -77,7 +104,21 @@ const RouteResults: React.FC<RouteResultsProps> = ({
         return '❓';
     }
   };
+  const formatClockTime = (iso: string) => new Date(iso).toLocaleTimeString([], {
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+  const formatDepartureTime = (iso: string) => new Date(iso).toLocaleString([], {
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+  // Stretches that are not safe at the time the driver is expected to reach them
+  const riskySegments = (routeData.segments || []).filter(segment => segment.safetyScore !== 'safe' && segment.arrivalTime);
+  const usesForecast = (routeData.segments || []).some(segment => segment.isForecast);
   return <div className="space-y-4">
+      <DataSourceBanner dataSource={routeData.dataSource} cachedAt={routeData.cachedAt} />
+
       {/* Main Route Summary */}
       <Card className="bg-gradient-winter shadow-snow rounded-xl">
         <div className="p-6 space-y-4">
@@ -88,6 +129,14 @@ const RouteResults: React.FC<RouteResultsProps> = ({
             </Badge>
           </div>
 
+          {routeData.departureTime && <p className="text-sm text-muted-foreground">
+              🕒 Leaving {formatDepartureTime(routeData.departureTime)}
+              {usesForecast ? ' · each stretch checked against the forecast for when you reach it' : ' · current conditions'}
+            </p>}
+          {routeData.failedSegments && routeData.failedSegments.length > 0 && <p className="text-sm text-muted-foreground">
+              ⚠️ Weather unavailable for {routeData.failedSegments.length} of {routeData.failedSegments.length + (routeData.segments?.length ?? 0)} points along this route
+            </p>}
+
           <div className="grid md:grid-cols-2 gap-4">
             <div className="space-y-3">
               <div className="flex justify-between">
@@ -125,6 +174,92 @@ const RouteResults: React.FC<RouteResultsProps> = ({
         </div>
       </Card>
 
+      {/* When should I leave? */}
+      {routeData.departureTimeline && routeData.departureTimeline.slots.length > 0 && <Card className="bg-card/50 backdrop-blur-sm shadow-snow rounded-xl">
+          <div className="p-6 space-y-3">
+            <h3 className="text-lg font-semibold">🕒 Best time to leave</h3>
+            {routeData.departureTimeline.recommendedWindow ? <p className="text-sm">
+                Leave between <strong>{formatDepartureTime(routeData.departureTimeline.recommendedWindow.start)}</strong> and{' '}
+                <strong>{formatDepartureTime(routeData.departureTimeline.recommendedWindow.end)}</strong>{' '}
+                <Badge variant={getSafetyBadgeVariant(routeData.departureTimeline.recommendedWindow.overallSafety)} className="text-xs ml-1">
+                  {getSafetyIcon(routeData.departureTimeline.recommendedWindow.overallSafety)} {routeData.departureTimeline.recommendedWindow.overallSafety}
+                </Badge>
+              </p> : <p className="text-sm text-muted-foreground">Could not analyze any departure times in this window.</p>}
+            <DepartureTimelineChart timeline={routeData.departureTimeline} />
+          </div>
+        </Card>}
+
+      {/* Alternative routes, safest first */}
+      {routeOptions.length > 1 && <Card className="bg-card/50 backdrop-blur-sm shadow-snow rounded-xl">
+          <div className="p-6 space-y-3">
+            <h3 className="text-lg font-semibold">🛣️ Compare Routes</h3>
+            <div className="space-y-2">
+              {routeOptions.map((option, index) => <button key={index} type="button" onClick={() => onSelectRoute?.(index)} className={`w-full text-left p-3 rounded-xl border transition-colors ${index === selectedRouteIndex ? 'border-primary bg-primary/10' : 'border-accent/20 bg-background/30 hover:bg-background/50'}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {option.summary || `Route ${index + 1}`}
+                      {option.recommended && <Badge className="ml-2 text-xs">⭐ Recommended</Badge>}
+                    </span>
+                    <Badge variant={getSafetyBadgeVariant(option.safetyScore)} className="text-xs">
+                      {getSafetyIcon(option.safetyScore)} {option.safetyScore.toUpperCase()}
+                    </Badge>
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                    <span>{option.distance}</span>
+                    <span>{option.duration}</span>
+                    {option.snowExposureMiles != null && <span>❄️ {option.snowExposureMiles} mi on snow</span>}
+                    <span>🚧 {option.hazardCount ?? option.routeHazards?.length ?? 0} hazards</span>
+                  </div>
+                </button>)}
+            </div>
+          </div>
+        </Card>}
+
+      {/* Reported hazards along the route, in driving order */}
+      {routeData.routeHazards && routeData.routeHazards.length > 0 && <Card className="bg-card/50 backdrop-blur-sm shadow-snow rounded-xl">
+          <div className="p-6 space-y-3">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              🚧 {routeData.routeHazards.length} {routeData.routeHazards.length === 1 ? 'hazard' : 'hazards'} on your route
+            </h3>
+            <div className="space-y-2">
+              {routeData.routeHazards.map(hazard => <div key={hazard.id} className="flex items-start justify-between gap-3 p-2 rounded-xl bg-background/30 border border-accent/20">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{hazard.title}</p>
+                    {hazard.address && <p className="text-xs text-muted-foreground truncate">📍 {hazard.address}</p>}
+                    {reportedByLabel(hazard.reportCount) && <p className="text-xs text-muted-foreground">👥 {reportedByLabel(hazard.reportCount)}</p>}
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <Badge variant={hazard.severity === 'high' ? 'destructive' : hazard.severity === 'medium' ? 'secondary' : 'outline'} className="text-xs">
+                      {hazard.severity}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{hazard.distanceFromStartMiles.toFixed(1)} mi from start</span>
+                  </div>
+                </div>)}
+            </div>
+          </div>
+        </Card>}
+
+      {/* Stretches that will be risky when the driver gets there */}
+      {riskySegments.length > 0 && <Card className="bg-card/50 backdrop-blur-sm shadow-snow rounded-xl">
+          <div className="p-6 space-y-3">
+            <h3 className="text-lg font-semibold">🌨️ Conditions along the way</h3>
+            <div className="space-y-2">
+              {riskySegments.slice(0, 5).map((segment, index) => <div key={index} className="flex items-center justify-between gap-3 p-2 rounded-xl bg-background/30 border border-accent/20 text-sm">
+                  <span>
+                    {segment.distanceMiles != null ? `Mile ${segment.distanceMiles.toFixed(1)}` : 'En route'} around {formatClockTime(segment.arrivalTime!)}
+                  </span>
+                  <span className="flex items-center gap-2 text-muted-foreground">
+                    <Snowflake className="h-3 w-3 text-blue-500" />
+                    {segment.snowDepth.toFixed(1)}"
+                    <Badge variant={getSafetyBadgeVariant(segment.safetyScore)} className="text-xs">
+                      {getSafetyIcon(segment.safetyScore)} {segment.safetyScore}
+                    </Badge>
+                  </span>
+                </div>)}
+            </div>
+          </div>
+        </Card>}
+
       {/* Vehicle Safety Assessment - Only show for non-walking modes */}
       {travelMode !== 'walking' && (
         <Card className="bg-card/50 backdrop-blur-sm shadow-snow rounded-xl">
@@ -142,6 +277,11 @@ const RouteResults: React.FC<RouteResultsProps> = ({
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription>
             <strong>Recommendation:</strong> {routeData.recommendation}
+            {routeData.contributingHazards && routeData.contributingHazards.length > 0 && <ul className="mt-2 text-sm space-y-1">
+                {routeData.contributingHazards.map(hazard => <li key={hazard.id}>
+                    • {hazard.title} ({hazard.severity}, {hazard.distanceFromStartMiles.toFixed(1)} mi from start, reported {Math.round(hazard.ageHours)}h ago)
+                  </li>)}
+              </ul>}
           </AlertDescription>
         </Alert>}
 
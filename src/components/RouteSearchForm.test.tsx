@@ -0,0 +1,93 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import RouteSearchForm from './RouteSearchForm';
+import { chooseOption, END_PLACE, fillRouteForm, START_PLACE, submitButton } from '@/test/routeForm';
+
+const SUV_WITH_SNOW_TIRES = { type: /suv/i, tires: /snow tires/i, drive: /awd/i };
+
+const GARAGE = [
+  { id: 'vehicle-2', name: 'Blue Outback', type: 'suv', tires: 'snow', drive: 'awd', isDefault: true },
+  { id: 'vehicle-1', name: 'Old Civic', type: 'sedan', tires: 'regular', drive: 'fwd', isDefault: false }
+] as const;
+const PLACES = [
+  { id: 'place-1', label: 'Home', address: START_PLACE },
+  { id: 'place-2', label: 'Work', address: END_PLACE }
+];
+
+describe('RouteSearchForm', () => {
+  it('submits the chosen places, travel mode and vehicle', async () => {
+    const user = userEvent.setup();
+    const onSearch = vi.fn();
+    render(<RouteSearchForm onSearch={onSearch} />);
+
+    await fillRouteForm(user, { travelMode: /driving/i, vehicle: SUV_WITH_SNOW_TIRES });
+    await user.click(submitButton());
+
+    expect(onSearch).toHaveBeenCalledTimes(1);
+    expect(onSearch).toHaveBeenCalledWith(expect.objectContaining({
+      startLocation: START_PLACE,
+      endLocation: END_PLACE,
+      travelMode: 'driving',
+      vehicleInfo: { type: 'suv', tires: 'snow', drive: 'awd' },
+      departureTime: undefined,
+      departureWindowHours: undefined
+    }));
+  });
+
+  it('asks for vehicle details only when driving', async () => {
+    const user = userEvent.setup();
+    render(<RouteSearchForm onSearch={vi.fn()} />);
+    expect(submitButton()).toBeDisabled();
+
+    await fillRouteForm(user, { travelMode: /driving/i });
+    expect(screen.getByText('Vehicle Information')).toBeInTheDocument();
+    expect(submitButton()).toBeDisabled();
+
+    await chooseOption(user, /vehicle type/i, /sedan/i);
+    await chooseOption(user, /tire type/i, /regular tires/i);
+    expect(submitButton()).toBeDisabled();
+    await chooseOption(user, /drive system/i, /fwd/i);
+    expect(submitButton()).toBeEnabled();
+
+    await chooseOption(user, /travel mode/i, /walking/i);
+    expect(screen.queryByText('Vehicle Information')).not.toBeInTheDocument();
+    expect(submitButton()).toBeEnabled();
+  });
+
+  it('starts from the driver\'s default vehicle and home', async () => {
+    const user = userEvent.setup();
+    const onSearch = vi.fn();
+    render(<RouteSearchForm onSearch={onSearch} vehicles={[...GARAGE]} places={PLACES} />);
+
+    expect(screen.getByPlaceholderText(/starting point/i)).toHaveValue(START_PLACE);
+    expect(screen.getByRole('combobox', { name: /saved vehicle/i })).toHaveTextContent(/blue outback/i);
+
+    await user.click(screen.getByRole('button', { name: /go to work/i }));
+    await chooseOption(user, /saved vehicle/i, /old civic/i);
+    await user.click(submitButton());
+
+    expect(onSearch).toHaveBeenCalledWith(expect.objectContaining({
+      startLocation: START_PLACE,
+      endLocation: END_PLACE,
+      travelMode: 'driving',
+      vehicleInfo: { type: 'sedan', tires: 'regular', drive: 'fwd' }
+    }));
+  });
+
+  it('asks for the best departure window when requested', async () => {
+    const user = userEvent.setup();
+    const onSearch = vi.fn();
+    render(<RouteSearchForm onSearch={onSearch} />);
+
+    await fillRouteForm(user, { travelMode: /walking/i });
+    await user.click(screen.getByRole('switch', { name: /when should i leave/i }));
+    await chooseOption(user, /departure window/i, /next 6 hours/i);
+    await user.click(submitButton());
+
+    expect(onSearch).toHaveBeenCalledWith(expect.objectContaining({
+      travelMode: 'walking',
+      departureWindowHours: 6
+    }));
+  });
+});
@@ -1,11 +1,14 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Snowflake, Target } from 'lucide-react';
 import { useLoadScript } from '@react-google-maps/api';
 import PlacesAutocompleteInput from './PlacesAutocompleteInput';
+import type { SavedPlace, SavedVehicle } from '@/services/accountService';
 
 // Static libraries array to prevent performance warnings
 const GOOGLE_MAPS_LIBRARIES: ("places")[] = ['places'];
@@ -27,14 +30,32 @@ interface RouteSearchData {
   vehicleInfo?: VehicleInfo;
   startPlaceDetails?: PlaceDetails;
   endPlaceDetails?: PlaceDetails;
+  departureTime?: string; // ISO time; leaving now when omitted
+  departureWindowHours?: number; // Also find the best time to leave within this many hours
 }
 interface Props {
   onSearch: (data: RouteSearchData) => void;
   loading?: boolean;
+  // From the signed-in driver's account; the form starts from their default vehicle and home
+  vehicles?: SavedVehicle[];
+  places?: SavedPlace[];
 }
+const PLACE_ICONS: Record<string, string> = {
+  home: '🏠',
+  work: '💼',
+  daycare: '🧸'
+};
+const placeIcon = (label: string) => PLACE_ICONS[label.toLowerCase()] || '📍';
+const toVehicleInfo = (vehicle: SavedVehicle): VehicleInfo => ({
+  type: vehicle.type,
+  tires: vehicle.tires,
+  drive: vehicle.drive
+});
 const RouteSearchForm: React.FC<Props> = ({
   onSearch,
-  loading = false
+  loading = false,
+  vehicles,
+  places
 }) => {
   const {
     isLoaded
@@ -52,6 +73,35 @@ const RouteSearchForm: React.FC<Props> = ({
       drive: ''
     }
   });
+  // datetime-local value in the browser's time zone; empty means "leave now"
+  const [departureInput, setDepartureInput] = useState('');
+  const [findBestDeparture, setFindBestDeparture] = useState(false);
+  const [departureWindowHours, setDepartureWindowHours] = useState('12');
+  const prefilledRef = useRef(false);
+
+  // Once the account loads, fill in whatever the driver hasn't yet
+  useEffect(() => {
+    if (prefilledRef.current || (!vehicles?.length && !places?.length)) return;
+    prefilledRef.current = true;
+    const defaultVehicle = vehicles?.find(vehicle => vehicle.isDefault);
+    const home = places?.find(place => place.label.toLowerCase() === 'home');
+    setFormData(prev => {
+      const vehicleChosen = prev.vehicleInfo?.type || prev.vehicleInfo?.tires || prev.vehicleInfo?.drive;
+      return {
+        ...prev,
+        startLocation: prev.startLocation || home?.address || '',
+        travelMode: prev.travelMode || (defaultVehicle ? 'driving' : ''),
+        vehicleInfo: defaultVehicle && !vehicleChosen ? toVehicleInfo(defaultVehicle) : prev.vehicleInfo
+      };
+    });
+  }, [vehicles, places]);
+
+  // The saved vehicle matching the chosen details, if any
+  const savedVehicleId = vehicles?.find(vehicle =>
+    vehicle.type === formData.vehicleInfo?.type &&
+    vehicle.tires === formData.vehicleInfo?.tires &&
+    vehicle.drive === formData.vehicleInfo?.drive
+  )?.id ?? '';
   const handleStartLocationChange = (address: string, placeDetails?: PlaceDetails) => {
     setFormData(prev => ({
       ...prev,
@@ -69,7 +119,11 @@ const RouteSearchForm: React.FC<Props> = ({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (formData.startLocation && formData.endLocation && formData.travelMode) {
-      onSearch(formData);
+      onSearch({
+        ...formData,
+        departureTime: departureInput ? new Date(departureInput).toISOString() : undefined,
+        departureWindowHours: findBestDeparture ? Number(departureWindowHours) : undefined
+      });
     }
   };
   const isDriving = formData.travelMode === 'driving';
@@ -99,21 +153,31 @@ const RouteSearchForm: React.FC<Props> = ({
             <div className="space-y-2">
               <Label htmlFor="start">🧀 Start Location</Label>
               <PlacesAutocompleteInput defaultValue={formData.startLocation} onSelect={address => handleStartLocationChange(address)} placeholder="Enter starting point (e.g., UW-Madison)" />
+              {places?.length > 0 && <div className="flex flex-wrap gap-1">
+                  {places.map(place => <Button key={place.id} type="button" variant="outline" size="sm" title={place.address} aria-label={`Start from ${place.label}`} onClick={() => handleStartLocationChange(place.address)} className="h-7 px-2 text-xs bg-white/70">
+                      {placeIcon(place.label)} {place.label}
+                    </Button>)}
+                </div>}
             </div>
             <div className="space-y-2">
               <Label htmlFor="end">🎯 Destination</Label>
               <PlacesAutocompleteInput defaultValue={formData.endLocation} onSelect={address => handleEndLocationChange(address)} placeholder="Enter destination" />
+              {places?.length > 0 && <div className="flex flex-wrap gap-1">
+                  {places.map(place => <Button key={place.id} type="button" variant="outline" size="sm" title={place.address} aria-label={`Go to ${place.label}`} onClick={() => handleEndLocationChange(place.address)} className="h-7 px-2 text-xs bg-white/70">
+                      {placeIcon(place.label)} {place.label}
+                    </Button>)}
+                </div>}
             </div>
           </div>
 
           {/* Travel Mode */}
           <div className="space-y-2 bg-sky-200">
-            <Label>Travel Mode</Label>
+            <Label htmlFor="travel-mode">Travel Mode</Label>
             <Select value={formData.travelMode} onValueChange={(value: 'driving' | 'walking' | 'biking') => setFormData(prev => ({
             ...prev,
             travelMode: value
           }))}>
-              <SelectTrigger className="bg-white border border-gray-300 text-gray-800 shadow-sm rounded-md">
+              <SelectTrigger id="travel-mode" className="bg-white border border-gray-300 text-gray-800 shadow-sm rounded-md">
                 <SelectValue placeholder="Select how you'll travel" />
               </SelectTrigger>
               <SelectContent>
@@ -124,12 +188,56 @@ const RouteSearchForm: React.FC<Props> = ({
             </Select>
           </div>
 
+          {/* Departure Time */}
+          <div className="space-y-2">
+            <Label htmlFor="departure">🕒 Departure Time</Label>
+            <div className="flex gap-2">
+              <Input id="departure" type="datetime-local" value={departureInput} onChange={e => setDepartureInput(e.target.value)} className="bg-white border border-gray-300 text-gray-800 shadow-sm rounded-md" />
+              {departureInput && <Button type="button" variant="outline" onClick={() => setDepartureInput('')}>
+                  Leave now
+                </Button>}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {departureInput ? 'Each stretch of the route is checked against the forecast for when you reach it.' : 'Leaving now. Pick a time to check conditions for a later trip.'}
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <Switch id="best-departure" checked={findBestDeparture} onCheckedChange={setFindBestDeparture} />
+              <Label htmlFor="best-departure">When should I leave?</Label>
+              {findBestDeparture && <Select value={departureWindowHours} onValueChange={setDepartureWindowHours}>
+                  <SelectTrigger aria-label="Departure window" className="w-[180px] bg-white border border-gray-300 text-gray-800 shadow-sm rounded-md">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="6">Next 6 hours</SelectItem>
+                    <SelectItem value="12">Next 12 hours</SelectItem>
+                    <SelectItem value="24">Next 24 hours</SelectItem>
+                  </SelectContent>
+                </Select>}
+            </div>
+          </div>
+
           {/* Vehicle Info (only for driving) */}
           {isDriving && <Card className="p-4 border-accent/50 rounded-xl bg-sky-100">
               <h3 className="font-semibold mb-3 text-foreground">Vehicle Information</h3>
+              {vehicles?.length > 0 && <div className="space-y-2 mb-4">
+                  <Label htmlFor="saved-vehicle">Saved Vehicle</Label>
+                  <Select value={savedVehicleId} onValueChange={id => setFormData(prev => ({
+                ...prev,
+                vehicleInfo: toVehicleInfo(vehicles.find(vehicle => vehicle.id === id)!)
+              }))}>
+                    <SelectTrigger id="saved-vehicle">
+                      <SelectValue placeholder="Choose from your garage" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {vehicles.map(vehicle => <SelectItem key={vehicle.id} value={vehicle.id}>
+                          {vehicle.name}{vehicle.isDefault ? ' (default)' : ''}
+                        </SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>}
               <div className="grid md:grid-cols-3 gap-4">
                 <div className="space-y-2">
-                  <Label>Vehicle Type</Label>
+                  <Label htmlFor="vehicle-type">Vehicle Type</Label>
                   <Select value={formData.vehicleInfo?.type || ''} onValueChange={(value: 'sedan' | 'suv' | 'truck') => setFormData(prev => ({
                 ...prev,
                 vehicleInfo: {
@@ -137,7 +245,7 @@ const RouteSearchForm: React.FC<Props> = ({
                   type: value
                 }
               }))}>
-                    <SelectTrigger>
+                    <SelectTrigger id="vehicle-type">
                       <SelectValue placeholder="Select vehicle" />
                     </SelectTrigger>
                     <SelectContent>
@@ -149,7 +257,7 @@ const RouteSearchForm: React.FC<Props> = ({
                 </div>
 
                 <div className="space-y-2">
-                  <Label>Tire Type</Label>
+                  <Label htmlFor="tire-type">Tire Type</Label>
                   <Select value={formData.vehicleInfo?.tires || ''} onValueChange={(value: 'regular' | 'snow') => setFormData(prev => ({
                 ...prev,
                 vehicleInfo: {
@@ -157,7 +265,7 @@ const RouteSearchForm: React.FC<Props> = ({
                   tires: value
                 }
               }))}>
-                    <SelectTrigger>
+                    <SelectTrigger id="tire-type">
                       <SelectValue placeholder="Select tires" />
                     </SelectTrigger>
                     <SelectContent>
@@ -168,7 +276,7 @@ const RouteSearchForm: React.FC<Props> = ({
                 </div>
 
                 <div className="space-y-2">
-                  <Label>Drive System</Label>
+                  <Label htmlFor="drive-system">Drive System</Label>
                   <Select value={formData.vehicleInfo?.drive || ''} onValueChange={(value: 'fwd' | 'awd' | '4wd') => setFormData(prev => ({
                 ...prev,
                 vehicleInfo: {
@@ -176,7 +284,7 @@ const RouteSearchForm: React.FC<Props> = ({
                   drive: value
                 }
               }))}>
-                    <SelectTrigger>
+                    <SelectTrigger id="drive-system">
                       <SelectValue placeholder="Select drive" />
                     </SelectTrigger>
                     <SelectContent>
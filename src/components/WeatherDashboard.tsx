@@ -2,14 +2,24 @@ import React, { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Snowflake, Thermometer, Wind } from 'lucide-react';
-import { WeatherService } from '@/services/weatherService';
+import { WeatherData, WeatherService } from '@/services/weatherService';
+import { demoWeather } from '@/services/demoData';
+import DataSourceBanner from './DataSourceBanner';
 interface WeatherDashboardProps {
   city?: string;
 }
+const SNOW_DEPTH_SOURCE_LABELS: Record<string, string> = {
+  'open-meteo-gridded': 'Gridded model depth',
+  'snowfall-history-estimate': 'Estimated from recent snowfall',
+  'current-conditions-estimate': 'Estimated from current snowfall',
+  demo: 'Demo value',
+  none: 'No snow data'
+};
+const formatAge = (minutes: number) => minutes < 60 ? `${minutes} min old` : `${Math.round(minutes / 60)} h old`;
 const WeatherDashboard: React.FC<WeatherDashboardProps> = ({
   city = 'Madison'
 }) => {
-  const [weatherData, setWeatherData] = useState<any>(null);
+  const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
   const [loading, setLoading] = useState(false);
   useEffect(() => {
     const fetchWeather = async () => {
@@ -20,21 +30,10 @@ const WeatherDashboard: React.FC<WeatherDashboardProps> = ({
         setWeatherData(data);
       } catch (error) {
         console.error('Error fetching weather:', error);
-        // Set fallback data instead of failing
+        // Show demo data instead of failing
         setWeatherData({
-          name: city,
-          main: {
-            temp: 28,
-            pressure: 1013
-          },
-          weather: [{
-            main: "Snow",
-            description: "light snow"
-          }],
-          wind: {
-            speed: 5
-          },
-          snow_depth: 3.5
+          ...demoWeather(city),
+          dataSource: 'demo'
         });
       } finally {
         setLoading(false);
@@ -66,6 +65,8 @@ const WeatherDashboard: React.FC<WeatherDashboardProps> = ({
   };
   return <Card className="bg-gradient-ice shadow-snow border-accent/30 rounded-xl">
       <div className="p-4 space-y-4 bg-sky-200 rounded-xl">
+        <DataSourceBanner dataSource={weatherData.dataSource} cachedAt={weatherData.cachedAt} compact />
+
         <div className="flex items-center justify-between">
           <h3 className="font-semibold text-lg">🦡 {weatherData.name} Weather</h3>
           <Badge variant="outline" className="text-xs">
@@ -93,7 +94,9 @@ const WeatherDashboard: React.FC<WeatherDashboardProps> = ({
             <p className={`text-2xl font-bold ${getSnowDepthColor(weatherData.snow_depth)}`}>
               {weatherData.snow_depth.toFixed(1)}"
             </p>
-            <p className="text-xs text-muted-foreground">Average area depth</p>
+            <p className="text-xs text-muted-foreground">
+              {weatherData.snow_depth_source ? `${SNOW_DEPTH_SOURCE_LABELS[weatherData.snow_depth_source] || weatherData.snow_depth_source}${weatherData.snow_depth_age_minutes != null ? ` · ${formatAge(weatherData.snow_depth_age_minutes)}` : ''}` : 'Average area depth'}
+            </p>
           </div>
         </div>
 
@@ -0,0 +1,23 @@
+import * as React from "react"
+import { Account, AccountService } from "@/services/accountService"
+
+// The signed-in driver's account (null when signed out), reloaded when they sign in or out.
+// Call refresh after changing their vehicles or places.
+export function useAccount() {
+  const [account, setAccount] = React.useState<Account | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  const refresh = React.useCallback(async () => {
+    setAccount(await AccountService.getInstance().loadAccount())
+    setLoading(false)
+  }, [])
+
+  React.useEffect(() => {
+    refresh()
+    return AccountService.getInstance().onAuthChange(() => {
+      refresh()
+    })
+  }, [refresh])
+
+  return { account, loading, refresh }
+}
@@ -0,0 +1,13 @@
+import * as React from "react"
+import { HazardChange, HazardService } from "@/services/hazardService"
+
+// Live hazard report changes for as long as the component is mounted. The latest onChange is
+// called, so it can read current state without resubscribing.
+export function useHazardChanges(onChange: (change: HazardChange) => void) {
+  const onChangeRef = React.useRef(onChange)
+  onChangeRef.current = onChange
+
+  React.useEffect(() => {
+    return HazardService.getInstance().subscribeToHazardChanges(change => onChangeRef.current(change))
+  }, [])
+}
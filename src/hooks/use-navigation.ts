@@ -0,0 +1,168 @@
+import * as React from "react"
+import { LatLngPoint } from "@/lib/geo"
+import {
+  calloutText,
+  currentStepIndex,
+  dueCallouts,
+  locateOnRoute,
+  NavigableRoute,
+  NavigationFix,
+  routeCallouts,
+  stepStartMiles,
+} from "@/lib/navigation"
+
+// Fixes in a row off the route before the driver is told, so one stray GPS reading is ignored
+const OFF_ROUTE_FIXES = 3
+const METERS_PER_MILE = 1609.34
+
+export interface NavigationState {
+  active: boolean
+  start: () => void
+  stop: () => void
+  position: LatLngPoint | null
+  stepIndex: number
+  distanceToNextStepMiles: number | null
+  offRoute: boolean
+  error: string | null
+  muted: boolean
+  setMuted: (muted: boolean) => void
+  nextCallout: string | null // "Black ice in 0.4 miles"
+}
+
+// Spoken through the Web Speech API, where the browser has it
+function speak(text: string) {
+  if (!("speechSynthesis" in window) || typeof SpeechSynthesisUtterance === "undefined") return
+  window.speechSynthesis.speak(new SpeechSynthesisUtterance(text))
+}
+
+function stopSpeaking() {
+  if ("speechSynthesis" in window) window.speechSynthesis.cancel()
+}
+
+const newProgress = () => ({ stepIndex: 0, offRouteFixes: 0, alongMiles: null as number | null, announced: new Set<string>() })
+
+// Follows the driver along `route` while active: snaps them to it, advances through its steps,
+// and speaks each step, hazards and dangerous stretches coming up, and leaving the route.
+// A new route (a re-route or another option) starts over from its first step.
+export function useNavigation(route: NavigableRoute | null): NavigationState {
+  const [active, setActive] = React.useState(false)
+  const [fix, setFix] = React.useState<NavigationFix | null>(null)
+  const [stepIndex, setStepIndex] = React.useState(0)
+  const [offRoute, setOffRoute] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [muted, setMutedState] = React.useState(false)
+
+  const path = route?.routePath
+  const steps = route?.steps
+  const stepStarts = React.useMemo(() => stepStartMiles(steps || [], path || []), [steps, path])
+  const callouts = React.useMemo(() => routeCallouts(route || {}), [route])
+
+  // The position callback outlives renders, so it reads the route through here
+  const latest = React.useRef({ path, steps, stepStarts, callouts, muted })
+  latest.current = { path, steps, stepStarts, callouts, muted }
+  const progress = React.useRef(newProgress())
+
+  const say = React.useCallback((text: string) => {
+    if (!latest.current.muted) speak(text)
+  }, [])
+
+  const handlePosition = React.useCallback((position: GeolocationPosition) => {
+    const { path, steps, stepStarts, callouts } = latest.current
+    if (!path?.length) return
+
+    const here = { lat: position.coords.latitude, lng: position.coords.longitude }
+    const state = progress.current
+    const located = locateOnRoute(here, path, (position.coords.accuracy || 0) / METERS_PER_MILE, state.alongMiles)
+
+    state.offRouteFixes = located.offRoute ? state.offRouteFixes + 1 : 0
+    if (state.offRouteFixes === OFF_ROUTE_FIXES) say("You're off the route")
+
+    if (!located.offRoute) {
+      state.alongMiles = located.alongMiles
+      const index = Math.max(state.stepIndex, currentStepIndex(stepStarts, located.alongMiles))
+      if (index !== state.stepIndex && steps?.[index]) {
+        state.stepIndex = index
+        say(steps[index].instruction)
+      }
+      for (const callout of dueCallouts(callouts, located.alongMiles, state.announced)) {
+        state.announced.add(callout.id)
+        say(calloutText(callout, located.alongMiles))
+      }
+    }
+
+    setFix({ position: located.position, alongMiles: located.alongMiles, offRouteMiles: located.offRouteMiles })
+    setStepIndex(state.stepIndex)
+    setOffRoute(state.offRouteFixes >= OFF_ROUTE_FIXES)
+  }, [say])
+
+  // Starting, or a new route while navigating, begins again from the first step
+  React.useEffect(() => {
+    progress.current = newProgress()
+    setStepIndex(0)
+    setOffRoute(false)
+    if (!active) return
+    if (!path?.length) {
+      setActive(false)
+      return
+    }
+    const first = latest.current.steps?.[0]
+    if (first) say(first.instruction)
+  }, [active, path, say])
+
+  React.useEffect(() => {
+    if (!active) return
+    const watchId = navigator.geolocation.watchPosition(
+      handlePosition,
+      positionError => {
+        if (positionError.code === positionError.PERMISSION_DENIED) {
+          setError("Allow location access to navigate")
+          setActive(false)
+        } else {
+          console.warn("Could not get a position fix:", positionError.message)
+        }
+      },
+      { enableHighAccuracy: true, maximumAge: 1000, timeout: 10000 }
+    )
+    return () => {
+      navigator.geolocation.clearWatch(watchId)
+      stopSpeaking()
+    }
+  }, [active, handlePosition])
+
+  const start = React.useCallback(() => {
+    if (!("geolocation" in navigator)) {
+      setError("This browser can't share your location")
+      return
+    }
+    setError(null)
+    setFix(null)
+    setActive(true)
+  }, [])
+
+  const stop = React.useCallback(() => {
+    setActive(false)
+    setFix(null)
+  }, [])
+
+  const setMuted = React.useCallback((value: boolean) => {
+    setMutedState(value)
+    if (value) stopSpeaking()
+  }, [])
+
+  const nextStart = stepStarts[stepIndex + 1]
+  const upcoming = fix && !offRoute ? callouts.find(callout => callout.atMiles >= fix.alongMiles) : undefined
+
+  return {
+    active,
+    start,
+    stop,
+    position: fix?.position ?? null,
+    stepIndex,
+    distanceToNextStepMiles: fix && nextStart != null ? Math.max(0, nextStart - fix.alongMiles) : null,
+    offRoute,
+    error,
+    muted,
+    setMuted,
+    nextCallout: upcoming && fix ? calloutText(upcoming, fix.alongMiles) : null,
+  }
+}
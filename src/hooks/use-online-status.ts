@@ -0,0 +1,18 @@
+import * as React from "react"
+
+// Whether the browser thinks it is online, updated as the connection comes and goes
+export function useOnlineStatus() {
+  const [online, setOnline] = React.useState(() => navigator.onLine)
+
+  React.useEffect(() => {
+    const onChange = () => setOnline(navigator.onLine)
+    window.addEventListener("online", onChange)
+    window.addEventListener("offline", onChange)
+    return () => {
+      window.removeEventListener("online", onChange)
+      window.removeEventListener("offline", onChange)
+    }
+  }, [])
+
+  return online
+}
@@ -14,48 +14,468 @@ export type Database = {
   }
   public: {
     Tables: {
+      commute_checks: {
+        Row: {
+          avg_snow_depth: number | null
+          checked_at: string
+          commute_id: string
+          departure_at: string
+          duration_seconds: number | null
+          error: string | null
+          hazard_count: number | null
+          id: string
+          overall_safety: string | null
+          recommendation: string | null
+          route_summary: string | null
+          usual_safety: string
+          worsened: boolean
+        }
+        Insert: {
+          avg_snow_depth?: number | null
+          checked_at?: string
+          commute_id: string
+          departure_at: string
+          duration_seconds?: number | null
+          error?: string | null
+          hazard_count?: number | null
+          id?: string
+          overall_safety?: string | null
+          recommendation?: string | null
+          route_summary?: string | null
+          usual_safety: string
+          worsened?: boolean
+        }
+        Update: {
+          avg_snow_depth?: number | null
+          checked_at?: string
+          commute_id?: string
+          departure_at?: string
+          duration_seconds?: number | null
+          error?: string | null
+          hazard_count?: number | null
+          id?: string
+          overall_safety?: string | null
+          recommendation?: string | null
+          route_summary?: string | null
+          usual_safety?: string
+          worsened?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commute_checks_commute_id_fkey"
+            columns: ["commute_id"]
+            isOneToOne: false
+            referencedRelation: "commutes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commutes: {
+        Row: {
+          created_at: string
+          days_of_week: number[]
+          departure_time: string
+          drive: string | null
+          enabled: boolean
+          end_location: string
+          id: string
+          name: string
+          notify: boolean
+          route_line: unknown | null
+          route_polyline: string | null
+          start_location: string
+          time_zone: string
+          tires: string | null
+          travel_mode: string
+          user_id: string
+          vehicle_type: string | null
+        }
+        Insert: {
+          created_at?: string
+          days_of_week?: number[]
+          departure_time: string
+          drive?: string | null
+          enabled?: boolean
+          end_location: string
+          id?: string
+          name: string
+          notify?: boolean
+          route_line?: unknown | null
+          route_polyline?: string | null
+          start_location: string
+          time_zone?: string
+          tires?: string | null
+          travel_mode?: string
+          user_id: string
+          vehicle_type?: string | null
+        }
+        Update: {
+          created_at?: string
+          days_of_week?: number[]
+          departure_time?: string
+          drive?: string | null
+          enabled?: boolean
+          end_location?: string
+          id?: string
+          name?: string
+          notify?: boolean
+          route_line?: unknown | null
+          route_polyline?: string | null
+          start_location?: string
+          time_zone?: string
+          tires?: string | null
+          travel_mode?: string
+          user_id?: string
+          vehicle_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commutes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hazard_report_media: {
+        Row: {
+          content_type: string
+          created_at: string
+          hazard_id: string
+          height: number
+          id: string
+          sighting_id: string | null
+          storage_path: string
+          thumbnail_path: string
+          width: number
+        }
+        Insert: {
+          content_type?: string
+          created_at?: string
+          hazard_id: string
+          height: number
+          id?: string
+          sighting_id?: string | null
+          storage_path: string
+          thumbnail_path: string
+          width: number
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          hazard_id?: string
+          height?: number
+          id?: string
+          sighting_id?: string | null
+          storage_path?: string
+          thumbnail_path?: string
+          width?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hazard_report_media_hazard_id_fkey"
+            columns: ["hazard_id"]
+            isOneToOne: false
+            referencedRelation: "hazard_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hazard_report_media_sighting_id_fkey"
+            columns: ["sighting_id"]
+            isOneToOne: false
+            referencedRelation: "hazard_sightings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hazard_reporters: {
+        Row: {
+          created_at: string
+          hazard_id: string
+          reporter_key: string
+          sighting_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          hazard_id: string
+          reporter_key: string
+          sighting_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          hazard_id?: string
+          reporter_key?: string
+          sighting_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hazard_reporters_hazard_id_fkey"
+            columns: ["hazard_id"]
+            isOneToOne: false
+            referencedRelation: "hazard_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hazard_reporters_sighting_id_fkey"
+            columns: ["sighting_id"]
+            isOneToOne: false
+            referencedRelation: "hazard_sightings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       hazard_reports: {
         Row: {
+          ai_reasoning: string | null
+          confidence: number
           created_at: string
           description: string
+          expires_at: string
+          gone_count: number
           hazard_type: string
           id: string
+          last_seen_at: string
+          location: unknown | null
           location_address: string | null
           location_confidence: string | null
           location_lat: number | null
           location_lng: number | null
+          location_source: string | null
+          report_count: number
+          resolved_at: string | null
           severity: string
+          status: string
+          still_there_count: number
+          title: string | null
           updated_at: string
           user_id: string | null
         }
         Insert: {
+          ai_reasoning?: string | null
+          confidence?: number
           created_at?: string
           description: string
+          expires_at?: string
+          gone_count?: number
           hazard_type: string
           id?: string
+          last_seen_at?: string
+          location?: unknown | null
           location_address?: string | null
           location_confidence?: string | null
           location_lat?: number | null
           location_lng?: number | null
+          location_source?: string | null
+          report_count?: number
+          resolved_at?: string | null
           severity: string
+          status?: string
+          still_there_count?: number
+          title?: string | null
           updated_at?: string
           user_id?: string | null
         }
         Update: {
+          ai_reasoning?: string | null
+          confidence?: number
           created_at?: string
           description?: string
+          expires_at?: string
+          gone_count?: number
           hazard_type?: string
           id?: string
+          last_seen_at?: string
+          location?: unknown | null
           location_address?: string | null
           location_confidence?: string | null
           location_lat?: number | null
           location_lng?: number | null
+          location_source?: string | null
+          report_count?: number
+          resolved_at?: string | null
           severity?: string
+          status?: string
+          still_there_count?: number
+          title?: string | null
           updated_at?: string
           user_id?: string | null
         }
         Relationships: []
       }
+      hazard_sightings: {
+        Row: {
+          created_at: string
+          description: string
+          distance_miles: number | null
+          hazard_id: string
+          hazard_type: string
+          id: string
+          location_address: string | null
+          location_lat: number | null
+          location_lng: number | null
+          severity: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          distance_miles?: number | null
+          hazard_id: string
+          hazard_type: string
+          id?: string
+          location_address?: string | null
+          location_lat?: number | null
+          location_lng?: number | null
+          severity: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          distance_miles?: number | null
+          hazard_id?: string
+          hazard_type?: string
+          id?: string
+          location_address?: string | null
+          location_lat?: number | null
+          location_lng?: number | null
+          severity?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hazard_sightings_hazard_id_fkey"
+            columns: ["hazard_id"]
+            isOneToOne: false
+            referencedRelation: "hazard_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hazard_type_ttls: {
+        Row: {
+          hazard_type: string
+          ttl_hours: number
+        }
+        Insert: {
+          hazard_type: string
+          ttl_hours: number
+        }
+        Update: {
+          hazard_type?: string
+          ttl_hours?: number
+        }
+        Relationships: []
+      }
+      hazard_votes: {
+        Row: {
+          created_at: string
+          hazard_id: string
+          id: string
+          vote: string
+          voter_key: string
+        }
+        Insert: {
+          created_at?: string
+          hazard_id: string
+          id?: string
+          vote: string
+          voter_key: string
+        }
+        Update: {
+          created_at?: string
+          hazard_id?: string
+          id?: string
+          vote?: string
+          voter_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hazard_votes_hazard_id_fkey"
+            columns: ["hazard_id"]
+            isOneToOne: false
+            referencedRelation: "hazard_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string
+          commute_id: string | null
+          created_at: string
+          dedupe_key: string
+          dropped_reason: string | null
+          hazard_id: string | null
+          hold_until: string | null
+          id: string
+          kind: string
+          not_after: string
+          sent_at: string | null
+          title: string
+          urgent: boolean
+          url: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          commute_id?: string | null
+          created_at?: string
+          dedupe_key: string
+          dropped_reason?: string | null
+          hazard_id?: string | null
+          hold_until?: string | null
+          id?: string
+          kind: string
+          not_after: string
+          sent_at?: string | null
+          title: string
+          urgent?: boolean
+          url?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          commute_id?: string | null
+          created_at?: string
+          dedupe_key?: string
+          dropped_reason?: string | null
+          hazard_id?: string | null
+          hold_until?: string | null
+          id?: string
+          kind?: string
+          not_after?: string
+          sent_at?: string | null
+          title?: string
+          urgent?: boolean
+          url?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_commute_id_fkey"
+            columns: ["commute_id"]
+            isOneToOne: false
+            referencedRelation: "commutes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_hazard_id_fkey"
+            columns: ["hazard_id"]
+            isOneToOne: false
+            referencedRelation: "hazard_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       places_search_logs: {
         Row: {
           confidence_level: string
@@ -113,12 +533,202 @@ export type Database = {
         }
         Relationships: []
       }
+      profiles: {
+        Row: {
+          created_at: string
+          default_vehicle_id: string | null
+          display_name: string | null
+          id: string
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          time_zone: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          default_vehicle_id?: string | null
+          display_name?: string | null
+          id: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          time_zone?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          default_vehicle_id?: string | null
+          display_name?: string | null
+          id?: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          time_zone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_default_vehicle_id_fkey"
+            columns: ["default_vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_sent_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_sent_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_sent_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_places: {
+        Row: {
+          address: string
+          created_at: string
+          id: string
+          label: string
+          user_id: string
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          id?: string
+          label: string
+          user_id: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          id?: string
+          label?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_places_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vehicles: {
+        Row: {
+          created_at: string
+          drive: string
+          id: string
+          name: string
+          tires: string
+          user_id: string
+          vehicle_type: string
+        }
+        Insert: {
+          created_at?: string
+          drive: string
+          id?: string
+          name: string
+          tires: string
+          user_id: string
+          vehicle_type: string
+        }
+        Update: {
+          created_at?: string
+          drive?: string
+          id?: string
+          name?: string
+          tires?: string
+          user_id?: string
+          vehicle_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      weather_cache: {
+        Row: {
+          expires_at: string
+          fetched_at: string
+          grid_cell: string
+          is_forecast: boolean
+          payload: Json
+          time_bucket: string
+        }
+        Insert: {
+          expires_at: string
+          fetched_at?: string
+          grid_cell: string
+          is_forecast?: boolean
+          payload: Json
+          time_bucket: string
+        }
+        Update: {
+          expires_at?: string
+          fetched_at?: string
+          grid_cell?: string
+          is_forecast?: boolean
+          payload?: Json
+          time_bucket?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      hazard_ttl: {
+        Args: { p_hazard_type: string }
+        Returns: unknown
+      }
+      hazards_along_route: {
+        Args: { buffer_m: number; polyline: string }
+        Returns: Database["public"]["Tables"]["hazard_reports"]["Row"][]
+      }
+      hazards_near: {
+        Args: { lat: number; lng: number; radius_m: number }
+        Returns: Database["public"]["Tables"]["hazard_reports"]["Row"][]
+      }
     }
     Enums: {
       [_ in never]: never
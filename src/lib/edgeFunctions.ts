@@ -0,0 +1,62 @@
+// Calls Supabase edge functions with request/response types from the shared contracts and turns
+// their error envelope into a typed error
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js';
+import type { ErrorCode, FunctionName, FunctionRequest, FunctionResponse } from '@contracts';
+import { supabase } from '@/integrations/supabase/client';
+
+// Codes sent by the functions, plus client-side failures
+export type EdgeFunctionErrorCode = ErrorCode | 'network_error' | 'unknown_error';
+
+export class EdgeFunctionError extends Error {
+  constructor(
+    readonly functionName: string,
+    readonly code: EdgeFunctionErrorCode,
+    message: string,
+    readonly status?: number,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'EdgeFunctionError';
+  }
+}
+
+async function toEdgeFunctionError(functionName: string, error: unknown): Promise<EdgeFunctionError> {
+  if (error instanceof FunctionsHttpError) {
+    const response = error.context as Response;
+    try {
+      const body = await response.json();
+      if (body?.error?.code) {
+        return new EdgeFunctionError(functionName, body.error.code, body.error.message, response.status, body.error.details);
+      }
+    } catch {
+      // Not an envelope; fall through
+    }
+    return new EdgeFunctionError(functionName, 'unknown_error', error.message, response.status);
+  }
+
+  if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError) {
+    return new EdgeFunctionError(functionName, 'network_error', error.message);
+  }
+
+  return new EdgeFunctionError(functionName, 'unknown_error', error instanceof Error ? error.message : String(error));
+}
+
+// Same shape as supabase.functions.invoke, with the body and result typed by the function's
+// contract and the error decoded. The app compiles without strictNullChecks, where zod infers
+// every property as optional, so results may need narrowing before use as stricter app types.
+export async function invokeEdgeFunction<N extends FunctionName>(
+  functionName: N,
+  options: { body?: FunctionRequest<N> } = {}
+): Promise<{ data: FunctionResponse<N> | null; error: EdgeFunctionError | null }> {
+  const { data, error } = await supabase.functions.invoke<FunctionResponse<N>>(functionName, {
+    body: options.body as Record<string, unknown>
+  });
+
+  if (error) {
+    const edgeError = await toEdgeFunctionError(functionName, error);
+    console.warn(`Edge function ${functionName} failed [${edgeError.code}]:`, edgeError.message, edgeError.details ?? '');
+    return { data: null, error: edgeError };
+  }
+
+  return { data, error: null };
+}
@@ -0,0 +1,86 @@
+// Reading the position a camera recorded in a JPEG's EXIF (GPS IFD), for photos attached to hazard reports
+
+import type { LatLngPoint } from '@/lib/geo';
+
+const SOI = 0xffd8;
+const APP1 = 0xffe1;
+const SOS = 0xffda;
+
+const GPS_IFD_POINTER = 0x8825;
+const GPS_LATITUDE_REF = 0x0001;
+const GPS_LATITUDE = 0x0002;
+const GPS_LONGITUDE_REF = 0x0003;
+const GPS_LONGITUDE = 0x0004;
+
+interface IfdEntry {
+  tag: number;
+  count: number;
+  valueOffset: number; // Offset of the entry's value field from the TIFF header
+}
+
+// The photo's GPS position, or null when it has none (or isn't a JPEG with EXIF)
+export function readExifGps(buffer: ArrayBuffer): LatLngPoint | null {
+  const view = new DataView(buffer);
+  try {
+    if (view.getUint16(0) !== SOI) return null;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === SOS) return null;
+
+      // APP1 starting "Exif\0\0", followed by a TIFF header
+      if (marker === APP1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+        return readGps(view, offset + 10);
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+  } catch (error) {
+    // Truncated or malformed EXIF reads past the end of the buffer
+    if (error instanceof RangeError) return null;
+    throw error;
+  }
+}
+
+function readGps(view: DataView, tiffStart: number): LatLngPoint | null {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949; // "II"
+  const uint16 = (offset: number) => view.getUint16(tiffStart + offset, littleEndian);
+  const uint32 = (offset: number) => view.getUint32(tiffStart + offset, littleEndian);
+
+  const readIfd = (ifdOffset: number): IfdEntry[] =>
+    Array.from({ length: uint16(ifdOffset) }, (_, index) => {
+      const entry = ifdOffset + 2 + index * 12;
+      return { tag: uint16(entry), count: uint32(entry + 4), valueOffset: entry + 8 };
+    });
+
+  const gpsPointer = readIfd(uint32(4)).find(entry => entry.tag === GPS_IFD_POINTER);
+  if (!gpsPointer) return null;
+  const gps = readIfd(uint32(gpsPointer.valueOffset));
+
+  // "N"/"S" or "E"/"W", short enough to sit in the value field itself
+  const ref = (tag: number) => {
+    const entry = gps.find(candidate => candidate.tag === tag);
+    return entry ? String.fromCharCode(view.getUint8(tiffStart + entry.valueOffset)) : null;
+  };
+  // Degrees, minutes and seconds as three unsigned rationals stored elsewhere
+  const degrees = (tag: number) => {
+    const entry = gps.find(candidate => candidate.tag === tag);
+    if (!entry || entry.count !== 3) return null;
+    const at = uint32(entry.valueOffset);
+    const [d, m, s] = [0, 1, 2].map(index => uint32(at + index * 8) / uint32(at + index * 8 + 4));
+    return d + m / 60 + s / 3600;
+  };
+
+  const lat = degrees(GPS_LATITUDE);
+  const lng = degrees(GPS_LONGITUDE);
+  // Some cameras write zeros (or 0/0) when they had no fix
+  if (lat == null || lng == null || !Number.isFinite(lat) || !Number.isFinite(lng) || (lat === 0 && lng === 0)) {
+    return null;
+  }
+
+  return {
+    lat: ref(GPS_LATITUDE_REF) === 'S' ? -lat : lat,
+    lng: ref(GPS_LONGITUDE_REF) === 'W' ? -lng : lng
+  };
+}
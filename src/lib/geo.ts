@@ -0,0 +1,2 @@
+// Shared with the edge functions so the app and the server measure routes the same way
+export * from '../../supabase/functions/_shared/geo';
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calloutText,
+  currentStepIndex,
+  dueCallouts,
+  formatDistanceAhead,
+  locateOnRoute,
+  parseStepMiles,
+  routeCallouts,
+  stepStartMiles
+} from './navigation';
+
+// About 5 miles due east along Mineral Point Rd
+const PATH = [
+  { lat: 43.0560, lng: -89.5000 },
+  { lat: 43.0560, lng: -89.4000 }
+];
+const step = (instruction: string, distance: string, startLocation?: { lat: number; lng: number }) =>
+  ({ instruction, distance, duration: '1 min', maneuver: '', startLocation });
+
+describe('navigation', () => {
+  it('reads step distances as Google writes them', () => {
+    expect(parseStepMiles('0.8 mi')).toBe(0.8);
+    expect(parseStepMiles('1,320 ft')).toBeCloseTo(0.25);
+    expect(parseStepMiles('2 km')).toBeCloseTo(1.24, 2);
+    expect(parseStepMiles('')).toBe(0);
+  });
+
+  it('places steps along the route by where they start, or by the distances before them', () => {
+    const located = stepStartMiles([
+      step('Head east', '1.0 mi', PATH[0]),
+      step('Continue', '2.0 mi', { lat: 43.0560, lng: -89.4500 })
+    ], PATH);
+    expect(located[0]).toBe(0);
+    expect(located[1]).toBeCloseTo(2.53, 1);
+
+    expect(stepStartMiles([step('Head east', '0.5 mi'), step('Continue', '1,320 ft'), step('Arrive', '0 ft')], PATH))
+      .toEqual([0, 0.5, 0.75]);
+  });
+
+  it('moves to the next step just before reaching it', () => {
+    const starts = [0, 1, 2.5];
+
+    expect(currentStepIndex(starts, 0.5)).toBe(0);
+    expect(currentStepIndex(starts, 0.99)).toBe(1);
+    expect(currentStepIndex(starts, 3)).toBe(2);
+  });
+
+  it('snaps a nearby position to the route and tells when it is off it', () => {
+    const nearby = locateOnRoute({ lat: 43.0563, lng: -89.4500 }, PATH);
+    expect(nearby.offRoute).toBe(false);
+    expect(nearby.position.lat).toBeCloseTo(43.0560, 4);
+    expect(nearby.alongMiles).toBeCloseTo(2.53, 1);
+
+    const away = { lat: 43.0600, lng: -89.4500 }; // About 0.3 mi north
+    expect(locateOnRoute(away, PATH).offRoute).toBe(true);
+    expect(locateOnRoute(away, PATH).position).toEqual(away);
+    // Unless the GPS is that unsure of where it is
+    expect(locateOnRoute(away, PATH, 0.5).offRoute).toBe(false);
+  });
+
+  it('keeps the driver on their own leg where the route passes close to itself', () => {
+    // Out a mile and back on the other side of a divided road, about 70 ft apart
+    const outAndBack = [
+      { lat: 43.0560, lng: -89.5000 },
+      { lat: 43.0560, lng: -89.4800 },
+      { lat: 43.0562, lng: -89.4800 },
+      { lat: 43.0562, lng: -89.5000 }
+    ];
+    const nearlyBack = { lat: 43.05609, lng: -89.4980 }; // A little closer to the way out
+
+    expect(locateOnRoute(nearlyBack, outAndBack).alongMiles).toBeLessThan(0.2);
+    const onReturn = locateOnRoute(nearlyBack, outAndBack, 0, 1.85);
+    expect(onReturn.offRoute).toBe(false);
+    expect(onReturn.alongMiles).toBeCloseTo(1.93, 1);
+
+    // Nowhere near the last fix, say after a gap in the GPS: the whole route is searched
+    const turnaround = locateOnRoute({ lat: 43.0561, lng: -89.4800 }, outAndBack, 0, 0.1);
+    expect(turnaround.offRoute).toBe(false);
+    expect(turnaround.alongMiles).toBeCloseTo(1.01, 1);
+  });
+
+  it('calls out hazards and the start of each dangerous stretch, once each', () => {
+    const segment = (index: number, distanceMiles: number, safetyScore: 'safe' | 'danger') =>
+      ({ index, distanceMiles, safetyScore, snowDepth: 0, conditions: '', temperature: 20, ...PATH[0] });
+    const callouts = routeCallouts({
+      routeHazards: [{ id: 'h1', title: 'Icy bridge', distanceFromStartMiles: 1.2 }],
+      segments: [segment(0, 0, 'safe'), segment(1, 2, 'danger'), segment(2, 3, 'danger'), segment(3, 4, 'safe')]
+    });
+
+    expect(callouts.map(callout => callout.id)).toEqual(['hazard-h1', 'danger-1']);
+    expect(dueCallouts(callouts, 0.5, new Set())).toEqual([]);
+    expect(dueCallouts(callouts, 0.8, new Set()).map(callout => callout.id)).toEqual(['hazard-h1']);
+    expect(dueCallouts(callouts, 0.8, new Set(['hazard-h1']))).toEqual([]);
+    expect(calloutText(callouts[0], 0.7)).toBe('Icy bridge in 0.5 miles');
+  });
+
+  it('says distances the way a driver would', () => {
+    expect(formatDistanceAhead(0.03)).toBe('150 feet');
+    expect(formatDistanceAhead(0.01)).toBe('50 feet');
+    expect(formatDistanceAhead(0.98)).toBe('1 mile');
+    expect(formatDistanceAhead(0.46)).toBe('0.5 miles');
+  });
+});
@@ -0,0 +1,156 @@
+// Following a planned route as the driver moves: where they are on it, which step they are on and
+// which hazards and dangerous stretches are coming up (distances in miles)
+import type { RouteSegment, RouteStep } from '@contracts';
+import { haversineMiles, LatLngPoint, projectOntoRoute, RouteProjection } from '@/lib/geo';
+
+// What navigation needs of a planned route
+export interface NavigableRoute {
+  routePath?: LatLngPoint[];
+  steps?: RouteStep[];
+  routeHazards?: { id: string; title: string; distanceFromStartMiles: number }[];
+  segments?: RouteSegment[];
+}
+
+// Something worth saying before the driver reaches it: "Black ice on US-151 in 0.5 miles"
+export interface Callout {
+  id: string;
+  atMiles: number; // Along the route
+  message: string;
+}
+
+export interface NavigationFix {
+  position: LatLngPoint; // On the route, unless off it
+  alongMiles: number;
+  offRouteMiles: number;
+}
+
+// Further than this from the route, beyond what the GPS accuracy explains, is off the route (~80 m)
+export const OFF_ROUTE_MILES = 0.05;
+// Callouts are made this far ahead
+export const CALLOUT_AHEAD_MILES = 0.5;
+// A step becomes current this far before its start (~30 m), as the turn comes up
+const STEP_LEAD_MILES = 0.02;
+// The next fix is looked for this far behind and ahead of the last one, so a route that passes
+// close to itself (a ramp, a cloverleaf, an out-and-back leg) keeps the driver on their own leg
+const NEARBY_BEHIND_MILES = 0.1;
+const NEARBY_AHEAD_MILES = 0.5;
+const FEET_PER_MILE = 5280;
+
+// "0.8 mi" or "500 ft", as Google gives step distances
+export function parseStepMiles(distance: string): number {
+  const match = distance.match(/([\d.,]+)\s*(mi|ft|km|m)\b/);
+  if (!match) return 0;
+  const value = Number(match[1].replace(/,/g, ''));
+  switch (match[2]) {
+    case 'ft': return value / FEET_PER_MILE;
+    case 'km': return value * 0.621371;
+    case 'm': return value / 1609.34;
+    default: return value;
+  }
+}
+
+// Where each step starts along the path: its start location projected onto the path, or the
+// distances of the steps before it for routes saved without start locations
+export function stepStartMiles(steps: RouteStep[], path: LatLngPoint[]): number[] {
+  const starts: number[] = [];
+  let travelled = 0;
+  for (const step of steps) {
+    const start = step.startLocation && path.length > 0
+      ? projectOntoRoute(step.startLocation as LatLngPoint, path).distanceAlongRouteMiles
+      : travelled;
+    starts.push(Math.max(start, starts[starts.length - 1] ?? 0));
+    travelled = starts[starts.length - 1] + parseStepMiles(step.distance);
+  }
+  return starts;
+}
+
+// The last step the driver has reached
+export function currentStepIndex(startMiles: number[], alongMiles: number): number {
+  let index = 0;
+  startMiles.forEach((start, i) => {
+    if (start <= alongMiles + STEP_LEAD_MILES) index = i;
+  });
+  return index;
+}
+
+// Where the driver is on the route; accuracyMiles is how far off the GPS itself may be. Given
+// where the last fix was, the stretch around it is searched first and the whole route only when
+// the driver isn't on that stretch.
+export function locateOnRoute(
+  position: LatLngPoint,
+  path: LatLngPoint[],
+  accuracyMiles = 0,
+  lastAlongMiles: number | null = null
+): NavigationFix & { offRoute: boolean } {
+  const isOff = (candidate: RouteProjection) => candidate.distanceFromRouteMiles - accuracyMiles > OFF_ROUTE_MILES;
+  const nearby = lastAlongMiles != null ? projectOntoStretch(position, path, lastAlongMiles) : null;
+  const projection = nearby && !isOff(nearby) ? nearby : projectOntoRoute(position, path);
+  const offRoute = isOff(projection);
+  return {
+    position: offRoute ? position : projection.point,
+    alongMiles: projection.distanceAlongRouteMiles,
+    offRouteMiles: projection.distanceFromRouteMiles,
+    offRoute
+  };
+}
+
+// projectOntoRoute over just the part of the path around `aroundMiles`, measured from the start
+function projectOntoStretch(position: LatLngPoint, path: LatLngPoint[], aroundMiles: number): RouteProjection {
+  let first = 0;
+  let last = 0;
+  let firstMiles = 0;
+  let travelled = 0;
+  for (let i = 0; i < path.length; i++) {
+    if (i > 0) travelled += haversineMiles(path[i - 1], path[i]);
+    if (travelled <= aroundMiles - NEARBY_BEHIND_MILES) {
+      first = i;
+      firstMiles = travelled;
+    }
+    last = i;
+    if (travelled >= aroundMiles + NEARBY_AHEAD_MILES) break;
+  }
+
+  const projection = projectOntoRoute(position, path.slice(first, last + 1));
+  return { ...projection, distanceAlongRouteMiles: firstMiles + projection.distanceAlongRouteMiles, segment: first + projection.segment };
+}
+
+// Reported hazards, and the start of each stretch rated dangerous, in driving order
+export function routeCallouts(route: NavigableRoute): Callout[] {
+  const hazards = (route.routeHazards || []).map(hazard => ({
+    id: `hazard-${hazard.id}`,
+    atMiles: hazard.distanceFromStartMiles,
+    message: hazard.title
+  }));
+
+  const segments = route.segments || [];
+  const dangerousStretches = segments
+    .filter((segment, i) => segment.safetyScore === 'danger' && segment.distanceMiles != null && segments[i - 1]?.safetyScore !== 'danger')
+    .map(segment => ({
+      id: `danger-${segment.index}`,
+      atMiles: segment.distanceMiles,
+      message: 'Dangerous road conditions'
+    }));
+
+  return [...hazards, ...dangerousStretches].sort((a, b) => a.atMiles - b.atMiles);
+}
+
+// Callouts within `aheadMiles` that haven't been made yet
+export function dueCallouts(callouts: Callout[], alongMiles: number, announced: Set<string>, aheadMiles = CALLOUT_AHEAD_MILES): Callout[] {
+  return callouts.filter(callout => {
+    const ahead = callout.atMiles - alongMiles;
+    return ahead >= 0 && ahead <= aheadMiles && !announced.has(callout.id);
+  });
+}
+
+// "500 feet", "0.5 miles", "1 mile", as spoken
+export function formatDistanceAhead(miles: number): string {
+  if (miles < 0.1) {
+    return `${Math.max(50, Math.round(miles * FEET_PER_MILE / 50) * 50)} feet`;
+  }
+  const rounded = Number(miles.toFixed(1));
+  return rounded === 1 ? '1 mile' : `${rounded} miles`;
+}
+
+export function calloutText(callout: Callout, alongMiles: number): string {
+  return `${callout.message} in ${formatDistanceAhead(callout.atMiles - alongMiles)}`;
+}
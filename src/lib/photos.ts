@@ -0,0 +1,70 @@
+// Preparing hazard photos in the browser. Each is redrawn on a canvas and re-encoded as a JPEG,
+// which leaves its EXIF (and the reporter's GPS position) behind; the position is read first so
+// the reporter can use it as the hazard's location.
+
+import type { HazardPhotoUpload } from '@contracts';
+import { readExifGps } from '@/lib/exif';
+import type { LatLngPoint } from '@/lib/geo';
+
+// submit-hazard's limit
+export const MAX_PHOTOS_PER_REPORT = 4;
+const MAX_PHOTO_DIMENSION = 1600;
+const THUMBNAIL_DIMENSION = 240;
+const JPEG_QUALITY = 0.85;
+
+export interface PreparedPhoto extends HazardPhotoUpload {
+  previewUrl: string; // The thumbnail as a data URL
+  gps: LatLngPoint | null; // Where the camera says it was taken
+}
+
+export async function preparePhoto(file: File): Promise<PreparedPhoto> {
+  const [buffer, bitmap] = await Promise.all([
+    file.arrayBuffer(),
+    createImageBitmap(file, { imageOrientation: 'from-image' })
+  ]);
+
+  try {
+    const full = fitWithin(bitmap, MAX_PHOTO_DIMENSION);
+    const thumb = fitWithin(bitmap, THUMBNAIL_DIMENSION);
+    const [image, thumbnail] = await Promise.all([
+      encodeJpeg(bitmap, full.width, full.height),
+      encodeJpeg(bitmap, thumb.width, thumb.height)
+    ]);
+
+    return {
+      image,
+      thumbnail,
+      width: full.width,
+      height: full.height,
+      previewUrl: `data:image/jpeg;base64,${thumbnail}`,
+      gps: readExifGps(buffer)
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Scaled down so the longer side is at most maxDimension, never up
+function fitWithin(bitmap: ImageBitmap, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  return { width: Math.round(bitmap.width * scale), height: Math.round(bitmap.height * scale) };
+}
+
+// Base64 JPEG of the bitmap at the given size
+async function encodeJpeg(bitmap: ImageBitmap, width: number, height: number): Promise<string> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d').drawImage(bitmap, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) throw new Error('Could not encode the photo');
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // In chunks; spreading a whole photo into fromCharCode overflows the stack
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
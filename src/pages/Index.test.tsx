@@ -0,0 +1,250 @@
+import { act, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, expect, it } from 'vitest';
+import Index from './Index';
+import { Toaster } from '@/components/ui/toaster';
+import { demoRoute } from '@/services/demoData';
+import { mockOnline, mockPositionWatch, mockSpeech } from '@/test/browser';
+import { getRouteResponse, hazardReport, routeOption, routeSafety, weatherResponse } from '@/test/fixtures';
+import { END_PLACE, fillRouteForm, START_PLACE, submitButton } from '@/test/routeForm';
+import {
+  emitRealtimeChange,
+  functionCalls,
+  mockFunction,
+  resetSupabaseMock,
+  seedTable,
+  signInAs,
+  supabaseMock
+} from '@/test/supabaseMock';
+
+const renderIndex = () => render(<MemoryRouter><Index /><Toaster /></MemoryRouter>);
+
+// The summary card at the top of the route results
+const routeSummary = async () => (await screen.findByRole('heading', { name: 'Route Analysis' })).closest('.p-6') as HTMLElement;
+
+describe('Index', () => {
+  it('plans a route and shows the ranked alternatives', async () => {
+    const user = userEvent.setup();
+    mockFunction('get-weather', () => weatherResponse());
+    mockFunction('get-route', () => getRouteResponse([
+      routeOption(),
+      routeOption({
+        index: 1,
+        summary: 'Sun Prairie Rd',
+        distance: '12.8 mi',
+        rank: 2,
+        recommended: false,
+        safety: routeSafety({ overallSafety: 'danger', avgSnowDepth: 4.6 })
+      })
+    ]));
+    // On the recommended route, halfway to Sun Prairie
+    seedTable('hazard_reports', [{
+      id: 'hazard-1',
+      hazard_type: 'ice',
+      title: 'Black ice on US-151',
+      description: 'Black ice on the ramp',
+      severity: 'high',
+      location_lat: 43.1250,
+      location_lng: -89.3065,
+      created_at: new Date().toISOString()
+    }]);
+    renderIndex();
+
+    await fillRouteForm(user, { travelMode: /driving/i, vehicle: { type: /suv/i, tires: /snow tires/i, drive: /awd/i } });
+    await user.click(submitButton());
+
+    const summary = await routeSummary();
+    expect(functionCalls('get-route')[0]).toMatchObject({
+      startLocation: START_PLACE,
+      endLocation: END_PLACE,
+      travelMode: 'driving',
+      vehicleInfo: { type: 'suv', tires: 'snow', drive: 'awd' },
+      alternatives: true
+    });
+    expect(within(summary).getByText(/CAUTION/)).toBeInTheDocument();
+    expect(within(summary).getByText('12.4 mi')).toBeInTheDocument();
+    expect(screen.getByText('US-151 N')).toBeInTheDocument();
+    expect(screen.getByText('Sun Prairie Rd')).toBeInTheDocument();
+    expect(screen.getByText(/1 hazard on your route/)).toBeInTheDocument();
+    // Route hazards come from the spatial query, one per route option
+    expect(supabaseMock.rpc).toHaveBeenCalledWith('hazards_along_route', { polyline: expect.any(String), buffer_m: expect.any(Number) });
+    expect(screen.getByText('Merge onto US-151 N')).toBeInTheDocument();
+    expect(screen.queryByText(/demo data|offline/i)).not.toBeInTheDocument();
+  });
+
+  it('adds new hazards on the route as they are reported and announces high-severity ones', async () => {
+    const user = userEvent.setup();
+    mockFunction('get-weather', () => weatherResponse());
+    mockFunction('get-route', () => getRouteResponse());
+    renderIndex();
+
+    await fillRouteForm(user, { travelMode: /driving/i, vehicle: { type: /sedan/i, tires: /snow tires/i, drive: /fwd/i } });
+    await user.click(submitButton());
+    await routeSummary();
+    expect(screen.queryByText(/\d+ hazards? on your route/)).not.toBeInTheDocument();
+
+    // Just past the midpoint of US-151 N
+    act(() => emitRealtimeChange('hazard_reports', 'INSERT', hazardReport({
+      id: 'hazard-live',
+      title: 'Jackknifed semi',
+      hazard_type: 'accident',
+      location_lat: 43.1252,
+      location_lng: -89.3062
+    })));
+
+    expect(await screen.findByText('🔴 New hazard on your route')).toBeInTheDocument();
+    expect(screen.getByText(/Jackknifed semi · 6\.\d mi from the start/)).toBeInTheDocument();
+    expect(screen.getByText(/1 hazard on your route/)).toBeInTheDocument();
+
+    // Cleared by other drivers
+    act(() => emitRealtimeChange('hazard_reports', 'UPDATE', hazardReport({
+      id: 'hazard-live',
+      status: 'resolved',
+      location_lat: 43.1252,
+      location_lng: -89.3062
+    })));
+    expect(screen.queryByText(/\d+ hazards? on your route/)).not.toBeInTheDocument();
+  });
+
+  it('fills in the route form from a signed-in driver\'s account', async () => {
+    const user = userEvent.setup();
+    mockFunction('get-weather', () => weatherResponse());
+    mockFunction('get-route', () => getRouteResponse());
+    signInAs({ id: 'user-1', email: 'driver@example.com' });
+    seedTable('profiles', [{ id: 'user-1', display_name: null, default_vehicle_id: 'vehicle-2' }]);
+    seedTable('vehicles', [
+      { id: 'vehicle-1', user_id: 'user-1', name: 'Old Civic', vehicle_type: 'sedan', tires: 'regular', drive: 'fwd' },
+      { id: 'vehicle-2', user_id: 'user-1', name: 'Blue Outback', vehicle_type: 'suv', tires: 'snow', drive: 'awd' }
+    ]);
+    seedTable('saved_places', [
+      { id: 'place-1', user_id: 'user-1', label: 'Home', address: START_PLACE },
+      { id: 'place-2', user_id: 'user-1', label: 'Work', address: END_PLACE }
+    ]);
+    renderIndex();
+
+    expect(await screen.findByRole('button', { name: 'driver@example.com' })).toBeInTheDocument();
+    await user.click(await screen.findByRole('button', { name: /go to work/i }));
+    await user.click(submitButton());
+
+    await routeSummary();
+    expect(functionCalls('get-route')[0]).toMatchObject({
+      startLocation: START_PLACE,
+      endLocation: END_PLACE,
+      travelMode: 'driving',
+      vehicleInfo: { type: 'suv', tires: 'snow', drive: 'awd' }
+    });
+  });
+
+  it('labels the demo analysis shown when the edge functions are unreachable', async () => {
+    const user = userEvent.setup();
+    renderIndex();
+
+    expect(await screen.findByText(/Madison Weather/)).toBeInTheDocument();
+    expect(screen.getByText('🧪 Demo data, not real conditions')).toBeInTheDocument();
+
+    await fillRouteForm(user, { travelMode: /walking/i });
+    await user.click(submitButton());
+
+    const summary = await routeSummary();
+    expect(screen.getByText(/Demo data: MadSnowi can't reach its weather and routing services/)).toBeInTheDocument();
+    // The same demo route every time for the same places
+    expect(within(summary).getByText(demoRoute(START_PLACE, END_PLACE, 'walking').distance)).toBeInTheDocument();
+    expect(within(summary).getByText(/SAFE|CAUTION|DANGER/)).toBeInTheDocument();
+    expect(screen.getByText('No directions available')).toBeInTheDocument();
+    expect(functionCalls('get-route')).toHaveLength(1);
+    expect(functionCalls('analyze-route-safety')).toHaveLength(1);
+  });
+
+  it('falls back to the last live result for the same search', async () => {
+    const user = userEvent.setup();
+    mockFunction('get-weather', () => weatherResponse());
+    mockFunction('get-route', () => getRouteResponse());
+    renderIndex();
+
+    await fillRouteForm(user, { travelMode: /walking/i });
+    await user.click(submitButton());
+    await routeSummary();
+
+    // Go offline and search again
+    resetSupabaseMock();
+    await user.click(submitButton());
+
+    expect(await screen.findByText(/Offline: showing results last updated/)).toBeInTheDocument();
+    expect(within(await routeSummary()).getByText('12.4 mi')).toBeInTheDocument();
+    expect(screen.getByText('Merge onto US-151 N')).toBeInTheDocument();
+  });
+
+  it('shows the last planned trip when opened without a connection', async () => {
+    const user = userEvent.setup();
+    mockFunction('get-weather', () => weatherResponse());
+    mockFunction('get-route', () => getRouteResponse());
+    const { unmount } = renderIndex();
+
+    await fillRouteForm(user, { travelMode: /driving/i, vehicle: { type: /sedan/i, tires: /snow tires/i, drive: /fwd/i } });
+    await user.click(submitButton());
+    await routeSummary();
+    unmount();
+
+    // Open the app again in a dead zone
+    resetSupabaseMock();
+    mockOnline(false);
+    renderIndex();
+
+    expect(await screen.findByText(/Offline: showing results last updated/)).toBeInTheDocument();
+    expect(within(await routeSummary()).getByText('12.4 mi')).toBeInTheDocument();
+    expect(screen.getByText('Merge onto US-151 N')).toBeInTheDocument();
+    const directions = screen.getByText('Directions').closest('.shadow-snow') as HTMLElement;
+    expect(within(directions).getByText(/Offline · last updated/)).toBeInTheDocument();
+    expect(functionCalls('get-route')).toHaveLength(0);
+  });
+
+  it('follows the driver along the route, calls out hazards ahead and re-routes when they leave it', async () => {
+    const user = userEvent.setup();
+    const move = mockPositionWatch();
+    const spoken = mockSpeech();
+    mockFunction('get-weather', () => weatherResponse());
+    mockFunction('get-route', () => getRouteResponse());
+    // Where University Ave meets US-151, about 6.3 mi in
+    seedTable('hazard_reports', [{
+      id: 'hazard-1',
+      hazard_type: 'ice',
+      title: 'Black ice on US-151',
+      description: 'Black ice on the ramp',
+      severity: 'high',
+      location_lat: 43.1250,
+      location_lng: -89.3065,
+      created_at: new Date().toISOString()
+    }]);
+    renderIndex();
+
+    await fillRouteForm(user, { travelMode: /driving/i, vehicle: { type: /sedan/i, tires: /snow tires/i, drive: /fwd/i } });
+    await user.click(submitButton());
+    await routeSummary();
+    await user.click(screen.getByRole('button', { name: 'Start navigation' }));
+    const currentStep = () => screen.getByText('Head east on University Ave').closest('.shadow-snow')!.querySelector('[aria-current="step"]');
+
+    act(() => move({ lat: 43.0766, lng: -89.4125 }));
+    expect(currentStep()).toHaveTextContent('Head east on University Ave');
+    expect(spoken).toEqual(['Head east on University Ave']);
+    expect(screen.getByTitle('You are here')).toBeInTheDocument();
+
+    act(() => move({ lat: 43.0863, lng: -89.3913 }));
+    expect(currentStep()).toHaveTextContent('Merge onto US-151 N');
+    expect(spoken).toContain('Merge onto US-151 N');
+
+    act(() => move({ lat: 43.1226, lng: -89.3118 }));
+    expect(spoken).toContain('Black ice on US-151 in 0.3 miles');
+
+    // A wrong turn, confirmed by a few fixes
+    for (let i = 0; i < 3; i++) {
+      act(() => move({ lat: 43.1000, lng: -89.2700 }));
+    }
+    expect(spoken).toContain('You\'re off the route');
+    await user.click(screen.getByRole('button', { name: 'Re-route from here' }));
+
+    await waitFor(() => expect(functionCalls('get-route')).toHaveLength(2));
+    expect(functionCalls('get-route')[1]).toMatchObject({ startLocation: '43.100000,-89.270000', endLocation: END_PLACE });
+    expect(await screen.findByRole('button', { name: 'End navigation' })).toBeInTheDocument();
+  });
+});
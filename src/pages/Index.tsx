@@ -1,15 +1,36 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { Bug } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import RouteSearchForm from '@/components/RouteSearchForm';
 import RouteMap from '@/components/RouteMap';
-import RouteResults from '@/components/RouteResults';
+import RouteResults, { RouteAnalysisResult } from '@/components/RouteResults';
 import WeatherDashboard from '@/components/WeatherDashboard';
 import HazardReporterCard from '@/components/HazardReporterCard';
 import DirectionsBox from '@/components/DirectionsBox';
-import { WeatherService } from '@/services/weatherService';
+import AccountPanel from '@/components/AccountPanel';
+import CommutesCard from '@/components/CommutesCard';
+import { combineDataSources, RouteAnalysis, WeatherService } from '@/services/weatherService';
 import { LocationService } from '@/services/locationService';
+import { OfflineService } from '@/services/offlineService';
+import {
+  applyHazardChange,
+  HazardChange,
+  HazardReport,
+  HazardService,
+  isLiveHazard,
+  ROUTE_HAZARD_CORRIDOR_MILES,
+  toRouteHazard
+} from '@/services/hazardService';
+import { useAccount } from '@/hooks/use-account';
+import { useHazardChanges } from '@/hooks/use-hazard-changes';
+import { useNavigation } from '@/hooks/use-navigation';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { toast } from '@/hooks/use-toast';
+import { decodePolyline, haversineMiles, LatLngPoint } from '@/lib/geo';
+
+// New high-severity hazards this close to the user are announced even off the route
+const HAZARD_ALERT_RADIUS_MILES = 5;
 interface RouteSearchData {
   startLocation: string;
   endLocation: string;
@@ -19,19 +40,97 @@ interface RouteSearchData {
     tires: 'regular' | 'snow' | '';
     drive: 'fwd' | 'awd' | '4wd' | '';
   };
+  departureTime?: string;
+  departureWindowHours?: number;
+}
+
+// The last trip planned with live results: routes with their directions, analysis and hazards
+interface SavedTrip {
+  search: RouteSearchData;
+  routeOptions: RouteAnalysisResult[];
+  selectedRouteIndex: number;
 }
 const Index = () => {
-  const [routeData, setRouteData] = useState<any>(null);
+  const [routeData, setRouteData] = useState<RouteAnalysisResult | null>(null);
+  const [routeOptions, setRouteOptions] = useState<RouteAnalysisResult[]>([]);
+  const [selectedRouteIndex, setSelectedRouteIndex] = useState(0);
   const [loading, setLoading] = useState(false);
   const [searchData, setSearchData] = useState<RouteSearchData | null>(null);
+  const { account, refresh: refreshAccount } = useAccount();
+  const online = useOnlineStatus();
+  const navigation = useNavigation(routeData);
+
+  // Without a connection and nothing planned yet, show the last trip planned here, stamped with
+  // when it was last updated
+  useEffect(() => {
+    if (online || routeData || loading) return;
+    const saved = OfflineService.getInstance().loadSnapshot<SavedTrip>('trip');
+    if (!saved) return;
+
+    const options = saved.value.routeOptions.map(option => ({ ...option, dataSource: 'cached' as const, cachedAt: saved.savedAt }));
+    setSearchData(saved.value.search);
+    setRouteOptions(options);
+    setSelectedRouteIndex(saved.value.selectedRouteIndex);
+    setRouteData(options[saved.value.selectedRouteIndex] ?? options[0]);
+  }, [online, routeData, loading]);
+  const handleSelectRoute = (index: number) => {
+    setSelectedRouteIndex(index);
+    setRouteData(routeOptions[index]);
+  };
+
+  // Keep every route option's hazards current; the map and results show the selected one's
+  useHazardChanges((change: HazardChange) => {
+    const updateRoute = (route: RouteAnalysisResult): RouteAnalysisResult => {
+      if (!route.routeHazards || !route.routePath) return route;
+      const routeHazards = applyHazardChange(route.routeHazards, change, route.routePath);
+      if (routeHazards === route.routeHazards) return route;
+      return {
+        ...route,
+        routeHazards,
+        hazardCount: route.hazardCount == null ? route.hazardCount : routeHazards.length
+      };
+    };
+    setRouteOptions(prev => prev.map(updateRoute));
+    setRouteData(prev => prev && updateRoute(prev));
+
+    if (change.event === 'INSERT') announceHazard(change.hazard);
+  });
+
+  // A subtle heads-up for someone else's new high-severity hazard on the active route or nearby
+  const announceHazard = (hazard: HazardReport) => {
+    if (hazard.severity !== 'high' || !isLiveHazard(hazard) || hazard.location_lat == null || hazard.location_lng == null) return;
+    if (HazardService.getInstance().isOwnReport(hazard)) return;
+    const title = hazard.title || hazard.hazard_type;
+
+    if (routeData?.routePath?.length) {
+      const onRoute = toRouteHazard(hazard, routeData.routePath);
+      if (onRoute.distanceFromRouteMiles <= ROUTE_HAZARD_CORRIDOR_MILES) {
+        toast({
+          title: '🔴 New hazard on your route',
+          description: `${title} · ${onRoute.distanceFromStartMiles.toFixed(1)} mi from the start`
+        });
+        return;
+      }
+    }
+
+    const location = LocationService.getLastKnownLocation();
+    const distance = location && haversineMiles(location, { lat: hazard.location_lat, lng: hazard.location_lng });
+    if (distance != null && distance <= HAZARD_ALERT_RADIUS_MILES) {
+      toast({
+        title: '🔴 New hazard near you',
+        description: `${title} · ${distance.toFixed(1)} mi away`
+      });
+    }
+  };
   const handleRouteSearch = async (data: RouteSearchData) => {
     setLoading(true);
     setSearchData(data);
     try {
       const weatherService = WeatherService.getInstance();
 
-      // Get real route data from Google Maps
-      const routeData = await weatherService.getRouteData(data.startLocation, data.endLocation, data.travelMode);
+      // Get real route data (with alternatives, ranked safest first) from Google Maps
+      const options = await weatherService.getRouteOptions(data.startLocation, data.endLocation, data.travelMode, data.vehicleInfo, data.departureTime, data.departureWindowHours);
+      const routeData = options.find(option => option.recommended) || options[0];
 
       // 🎯 STORE ROUTE LOCATIONS FOR AI USE
       // We'll geocode the start and end locations to get coordinates
@@ -61,29 +160,60 @@ const Index = () => {
         console.log('Could not store route locations:', error);
       }
 
-      // Analyze route safety with real weather data
-      const safetyAnalysis = await weatherService.analyzeRouteWeather(routeData.coordinates, data.vehicleInfo, data.travelMode);
-
       // Get weather for the general area
       const weatherData = await weatherService.getWeatherForCity('Madison');
-      const routeResults = {
-        distance: routeData.distance,
-        duration: routeData.duration,
-        snowDepth: safetyAnalysis.avgSnowDepth,
-        safetyScore: safetyAnalysis.overallSafety,
-        vehicleSafety: safetyAnalysis.vehicleSafetyMessage,
-        recommendation: safetyAnalysis.recommendation,
-        steps: routeData.steps, // Include the steps for turn-by-turn directions
-        weatherConditions: {
-          temperature: Math.round(weatherData.main.temp),
-          windChill: weatherData.main.feels_like ? Math.round(weatherData.main.feels_like) : undefined,
-          conditions: weatherData.weather[0].description
-        }
+      const weatherConditions = {
+        temperature: Math.round(weatherData.main.temp),
+        windChill: weatherData.main.feels_like ? Math.round(weatherData.main.feels_like) : undefined,
+        conditions: weatherData.weather[0].description
       };
-      setRouteData(routeResults);
+
+      const results = await Promise.all(options.map(async (option): Promise<RouteAnalysisResult> => {
+        // Routes come back already analyzed; analyze here only if that failed on the server
+        const safetyAnalysis: RouteAnalysis = option.safety
+          ? { ...option.safety, dataSource: option.dataSource, cachedAt: option.cachedAt }
+          : await weatherService.analyzeRouteWeather(option.coordinates, data.vehicleInfo, data.travelMode, data.departureTime, option.polyline);
+
+        // Find reported hazards along the route polyline
+        const routePath = option.polyline ? decodePolyline(option.polyline) : option.coordinates as LatLngPoint[];
+        const routeHazards = await HazardService.getInstance().getHazardsAlongRoute(routePath);
+
+        return {
+          distance: option.distance,
+          duration: option.duration,
+          snowDepth: safetyAnalysis.avgSnowDepth,
+          safetyScore: safetyAnalysis.overallSafety,
+          vehicleSafety: safetyAnalysis.vehicleSafetyMessage,
+          recommendation: safetyAnalysis.recommendation,
+          contributingHazards: safetyAnalysis.contributingHazards,
+          departureTime: safetyAnalysis.departureTime || data.departureTime,
+          segments: safetyAnalysis.routeSegments,
+          failedSegments: safetyAnalysis.failedSegments,
+          departureTimeline: option.departureTimeline,
+          steps: option.steps, // Include the steps for turn-by-turn directions
+          polyline: option.polyline,
+          routePath,
+          summary: option.summary,
+          snowExposureMiles: option.snowExposureMiles,
+          hazardCount: option.hazardCount,
+          recommended: option.recommended,
+          routeHazards,
+          weatherConditions,
+          ...combineDataSources([option, safetyAnalysis, weatherData])
+        };
+      }));
+      const recommendedIndex = Math.max(results.findIndex(result => result.recommended), 0);
+      if (results.every(result => result.dataSource === 'live')) {
+        OfflineService.getInstance().saveSnapshot<SavedTrip>('trip', { search: data, routeOptions: results, selectedRouteIndex: recommendedIndex });
+      }
+      setRouteOptions(results);
+      setSelectedRouteIndex(recommendedIndex);
+      setRouteData(results[recommendedIndex]);
     } catch (error) {
       console.error('Error analyzing route:', error);
       // Set error state or show user-friendly message
+      setRouteOptions([]);
+      setSelectedRouteIndex(0);
       setRouteData({
         distance: 'Unable to calculate',
         duration: 'Unable to calculate',
@@ -94,16 +224,30 @@ const Index = () => {
         weatherConditions: {
           temperature: 32,
           conditions: 'Unknown'
-        }
+        },
+        dataSource: 'demo'
       });
     } finally {
       setLoading(false);
     }
   };
+
+  // Plan again from where the driver left the route, leaving now; navigation carries on along
+  // the new route
+  const handleReroute = (from: LatLngPoint) => {
+    if (!searchData) return;
+    handleRouteSearch({
+      ...searchData,
+      startLocation: `${from.lat.toFixed(6)},${from.lng.toFixed(6)}`,
+      departureTime: undefined,
+      departureWindowHours: undefined
+    });
+  };
   return <div className="min-h-screen bg-sky-100">
       <div className="container mx-auto px-4 py-8 bg-sky-100">
-        {/* Debug Button */}
-        <div className="mb-4 flex justify-end">
+        {/* Account and Debug Buttons */}
+        <div className="mb-4 flex justify-end gap-2">
+          <AccountPanel account={account} onChange={refreshAccount} />
           <Link to="/debug">
             <Button variant="outline" size="sm" className="flex items-center gap-2">
               <Bug className="w-4 h-4" />
@@ -120,12 +264,12 @@ const Index = () => {
           <div className="flex flex-col space-y-6 h-full bg-sky-100 p-4 rounded-xl">
             {/* MadSnowi Header + Route Input Form */}
             <div className="rounded-xl">
-              <RouteSearchForm onSearch={handleRouteSearch} loading={loading} />
+              <RouteSearchForm onSearch={handleRouteSearch} loading={loading} vehicles={account?.vehicles} places={account?.places} />
             </div>
             
             {/* Google Map Display */}
             <div className="rounded-xl overflow-hidden flex-1">
-              <RouteMap startLocation={searchData?.startLocation} endLocation={searchData?.endLocation} travelMode={searchData?.travelMode} routeData={routeData} />
+              <RouteMap startLocation={searchData?.startLocation} endLocation={searchData?.endLocation} travelMode={searchData?.travelMode} routeData={routeData} hazards={routeData?.routeHazards} routeOptions={routeOptions} selectedRouteIndex={selectedRouteIndex} onSelectRoute={handleSelectRoute} navigationPosition={navigation.position} />
             </div>
           </div>
 
@@ -138,20 +282,27 @@ const Index = () => {
             
             {/* Turn-by-Turn Directions Card */}
             <div className="rounded-xl">
-              <DirectionsBox routeData={routeData} startLocation={searchData?.startLocation} endLocation={searchData?.endLocation} loading={loading} />
+              <DirectionsBox routeData={routeData} startLocation={searchData?.startLocation} endLocation={searchData?.endLocation} loading={loading} navigation={navigation} onReroute={handleReroute} />
             </div>
             
             {/* Live Hazard Reports */}
             <div className="rounded-xl">
               <HazardReporterCard />
             </div>
+
+            {/* Saved commutes, for signed-in drivers */}
+            {account && (
+              <div className="rounded-xl">
+                <CommutesCard account={account} route={searchData} />
+              </div>
+            )}
           </div>
         </div>
 
         {/* Bottom Full-Width Horizontal Section */}
         {routeData && (
           <div className="rounded-xl">
-            <RouteResults routeData={routeData} loading={loading} travelMode={searchData?.travelMode} />
+            <RouteResults routeData={routeData} routeOptions={routeOptions} selectedRouteIndex={selectedRouteIndex} onSelectRoute={handleSelectRoute} loading={loading} travelMode={searchData?.travelMode} />
           </div>
         )}
 
@@ -0,0 +1,202 @@
+// Account service: optional sign-in (Supabase Auth email links) and the signed-in driver's saved
+// vehicles and places. Everything else in the app works the same without an account.
+import type { AuthChangeEvent } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface SavedVehicle {
+  id: string;
+  name: string;
+  type: 'sedan' | 'suv' | 'truck';
+  tires: 'regular' | 'snow';
+  drive: 'fwd' | 'awd' | '4wd';
+  isDefault: boolean;
+}
+
+export interface SavedPlace {
+  id: string;
+  label: string; // "Home", "Work", "Daycare", ...
+  address: string;
+}
+
+export interface Account {
+  userId: string;
+  email: string | null;
+  displayName: string | null;
+  vehicles: SavedVehicle[]; // The default first
+  places: SavedPlace[];
+  quietHours: QuietHours | null; // When notifications wait, in timeZone
+  timeZone: string;
+}
+
+export interface QuietHours {
+  start: string; // "22:00"
+  end: string; // "06:30", the next morning when before start
+}
+
+export type NewVehicle = Omit<SavedVehicle, 'id' | 'isDefault'>;
+
+// Labels offered when saving a place; any other name works too
+export const SUGGESTED_PLACE_LABELS = ['Home', 'Work', 'Daycare'];
+
+export class AccountService {
+  private static instance: AccountService;
+
+  static getInstance(): AccountService {
+    if (!AccountService.instance) {
+      AccountService.instance = new AccountService();
+    }
+    return AccountService.instance;
+  }
+
+  // Sends a sign-in link; following it signs the driver in (creating the account the first time)
+  async sendSignInLink(email: string): Promise<{ error: string | null }> {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin }
+    });
+    if (error) {
+      console.error('Could not send sign-in link:', error);
+      return { error: error.message };
+    }
+    console.log(`✉️ Sign-in link sent to ${email}`);
+    return { error: null };
+  }
+
+  async signOut(): Promise<void> {
+    await supabase.auth.signOut();
+  }
+
+  // Calls onChange when the driver signs in or out; returns a function that stops listening
+  onAuthChange(onChange: (event: AuthChangeEvent) => void): () => void {
+    const { data } = supabase.auth.onAuthStateChange(event => {
+      // The session a page starts with is read by loadAccount
+      if (event !== 'INITIAL_SESSION') onChange(event);
+    });
+    return () => data.subscription.unsubscribe();
+  }
+
+  // The signed-in driver's profile, garage and places, or null when signed out
+  async loadAccount(): Promise<Account | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const user = session?.user;
+    if (!user) return null;
+
+    const [profile, vehicles, places] = await Promise.all([
+      supabase.from('profiles').select('*').eq('id', user.id).maybeSingle(),
+      supabase.from('vehicles').select('*').eq('user_id', user.id).order('created_at', { ascending: true }),
+      supabase.from('saved_places').select('*').eq('user_id', user.id).order('created_at', { ascending: true })
+    ]);
+
+    for (const { error } of [profile, vehicles, places]) {
+      if (error) console.error('Error loading account:', error);
+    }
+
+    const defaultVehicleId = profile.data?.default_vehicle_id ?? null;
+    const garage = (vehicles.data || []).map((vehicle): SavedVehicle => ({
+      id: vehicle.id,
+      name: vehicle.name,
+      type: vehicle.vehicle_type as SavedVehicle['type'],
+      tires: vehicle.tires as SavedVehicle['tires'],
+      drive: vehicle.drive as SavedVehicle['drive'],
+      isDefault: vehicle.id === defaultVehicleId
+    }));
+
+    return {
+      userId: user.id,
+      email: user.email ?? null,
+      displayName: profile.data?.display_name ?? null,
+      vehicles: [...garage.filter(vehicle => vehicle.isDefault), ...garage.filter(vehicle => !vehicle.isDefault)],
+      places: (places.data || []).map(place => ({ id: place.id, label: place.label, address: place.address })),
+      quietHours: profile.data?.quiet_hours_start && profile.data?.quiet_hours_end
+        ? { start: profile.data.quiet_hours_start.slice(0, 5), end: profile.data.quiet_hours_end.slice(0, 5) }
+        : null,
+      timeZone: profile.data?.time_zone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+    };
+  }
+
+  // The first vehicle in a garage becomes its default
+  async addVehicle(account: Account, vehicle: NewVehicle): Promise<{ error: string | null }> {
+    const { data, error } = await supabase
+      .from('vehicles')
+      .insert({
+        user_id: account.userId,
+        name: vehicle.name,
+        vehicle_type: vehicle.type,
+        tires: vehicle.tires,
+        drive: vehicle.drive
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Could not save vehicle:', error);
+      return { error: error.message };
+    }
+    if (account.vehicles.length === 0) {
+      return this.setDefaultVehicle(account, data.id);
+    }
+    return { error: null };
+  }
+
+  async setDefaultVehicle(account: Account, vehicleId: string): Promise<{ error: string | null }> {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ default_vehicle_id: vehicleId })
+      .eq('id', account.userId);
+
+    if (error) {
+      console.error('Could not set default vehicle:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  // null turns quiet hours off. They follow the browser's time zone, like commutes.
+  async setQuietHours(account: Account, quietHours: QuietHours | null): Promise<{ error: string | null }> {
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        quiet_hours_start: quietHours?.start ?? null,
+        quiet_hours_end: quietHours?.end ?? null,
+        time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      })
+      .eq('id', account.userId);
+
+    if (error) {
+      console.error('Could not save quiet hours:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  async removeVehicle(vehicleId: string): Promise<{ error: string | null }> {
+    const { error } = await supabase.from('vehicles').delete().eq('id', vehicleId);
+    if (error) {
+      console.error('Could not remove vehicle:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  // Saving a label that exists ("Home" after moving) replaces its address
+  async savePlace(account: Account, label: string, address: string): Promise<{ error: string | null }> {
+    const { error } = await supabase
+      .from('saved_places')
+      .upsert({ user_id: account.userId, label: label.trim(), address }, { onConflict: 'user_id,label' });
+
+    if (error) {
+      console.error('Could not save place:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  async removePlace(placeId: string): Promise<{ error: string | null }> {
+    const { error } = await supabase.from('saved_places').delete().eq('id', placeId);
+    if (error) {
+      console.error('Could not remove place:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+}
@@ -1,23 +1,33 @@
 
-import { supabase } from '@/integrations/supabase/client';
+import type { HazardCandidate } from '@contracts';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
 import { LocationContext } from './locationService';
 
-interface HazardLocation {
+export type { HazardCandidate };
+
+export interface HazardLocation {
   address?: string;
   coordinates?: {
     lat: number;
     lng: number;
   };
   confidence: 'high' | 'medium' | 'low';
+  source?: string;
+  reasoning?: string;
 }
 
-interface HazardAnalysis {
+// What analyze-hazard returns, widened for the analysis built locally when the function is unreachable
+export interface HazardAnalysis {
   title: string;
   hazardType: string;
   description: string;
   location: HazardLocation | null;
   severity: 'low' | 'medium' | 'high';
   needsLocationConfirmation: boolean;
+  aiReasoning?: string;
+  // Ranked alternatives from the hazard classifier so the reporter can pick a different type
+  candidates?: HazardCandidate[];
+  taxonomyVersion?: string;
 }
 
 export class AIService {
@@ -36,7 +46,7 @@ export class AIService {
       console.log('Sending hazard input to AI:', userInput);
       console.log('Location context:', locationContext);
       
-      const { data, error } = await supabase.functions.invoke('analyze-hazard', {
+      const { data, error } = await invokeEdgeFunction('analyze-hazard', {
         body: { 
           userInput,
           locationContext 
@@ -47,6 +57,9 @@ export class AIService {
         console.error('Error calling analyze-hazard function:', error);
         throw error;
       }
+      if (!data || !('hazardType' in data)) {
+        throw new Error('analyze-hazard did not return a hazard analysis');
+      }
 
       console.log('AI analysis result:', data);
       return data as HazardAnalysis;
@@ -238,7 +251,8 @@ export class AIService {
         description: processedText.description,
         location: fallbackLocation,
         severity: 'medium',
-        needsLocationConfirmation: needsConfirmation
+        needsLocationConfirmation: needsConfirmation,
+        aiReasoning: 'AI analysis unavailable. Classified and located with local fallback rules.'
       };
     }
   }
@@ -298,7 +312,7 @@ export class AIService {
     
     return {
       title,
-      hazardType: 'Road hazard',
+      hazardType: 'unknown',
       description: cleanedText
     };
   }
@@ -316,20 +330,19 @@ export class AIService {
       }
       
       // Use the edge function to geocode with Google Maps API
-      const { data, error } = await supabase.functions.invoke('analyze-hazard', {
+      const { data, error } = await invokeEdgeFunction('analyze-hazard', {
         body: { 
           userInput: `Find location: ${location}${searchArea}`,
-          locationContext,
-          geocodeOnly: true
+          locationContext
         }
       });
 
-      if (error || !data?.location?.coordinates) {
+      if (error || !data || !('location' in data)) {
         console.log('Edge function geocoding failed, trying direct approach');
         return await this.directGeocode(location, locationContext);
       }
 
-      return data.location.coordinates;
+      return data.location.coordinates as {lat: number, lng: number};
     } catch (error) {
       console.error('Geocoding error:', error);
       return await this.directGeocode(location, locationContext);
@@ -478,28 +491,37 @@ export class AIService {
 
   }
 
-  async searchPlaceWithGooglePlaces(query: string, userLocation: {lat: number, lng: number}): Promise<any | null> {
+  async searchPlaceWithGooglePlaces(
+    query: string,
+    userLocation: {lat: number, lng: number}
+  ): Promise<{ name: string; formatted_address: string; coordinates: {lat: number, lng: number} } | null> {
     try {
       console.log('🔍 GOOGLE PLACES TEXT SEARCH:');
       console.log('  - Query:', query);
       console.log('  - User Location:', userLocation);
       
       // Call our edge function to do the Google Places search
-      const { data, error } = await supabase.functions.invoke('analyze-hazard', {
+      const { data, error } = await invokeEdgeFunction('analyze-hazard', {
         body: { 
           userInput: `Search place: ${query}`,
-          locationContext: { lastKnownLocation: userLocation },
-          placesSearchOnly: true
+          locationContext: { lastKnownLocation: userLocation }
         }
       });
 
-      if (error || !data?.place) {
+      // Only a Places match counts; otherwise the function fell back to the user's own location
+      if (error || !data || !('location' in data) || data.location.source !== 'places_api') {
         console.log('Edge function Places search failed');
         return null;
       }
 
-      console.log('✅ GOOGLE PLACES RESULT:', data.place);
-      return data.place;
+      const address = data.location.address.replace(/^📍\s*/u, '');
+      const place = {
+        name: address.split(',')[0],
+        formatted_address: address,
+        coordinates: data.location.coordinates as {lat: number, lng: number}
+      };
+      console.log('✅ GOOGLE PLACES RESULT:', place);
+      return place;
       
     } catch (error) {
       console.error('Google Places search error:', error);
@@ -510,15 +532,15 @@ export class AIService {
   async geocodeLocation(address: string): Promise<{lat: number, lng: number} | null> {
     // This is now handled by the edge function, but keeping for compatibility
     try {
-      const { data, error } = await supabase.functions.invoke('analyze-hazard', {
+      const { data, error } = await invokeEdgeFunction('analyze-hazard', {
         body: { userInput: `Location: ${address}` }
       });
 
-      if (error || !data?.location?.coordinates) {
+      if (error || !data || !('location' in data)) {
         return null;
       }
 
-      return data.location.coordinates;
+      return data.location.coordinates as {lat: number, lng: number};
     } catch (error) {
       console.error('Geocoding error:', error);
       return null;
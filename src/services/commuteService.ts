@@ -0,0 +1,135 @@
+// Commute service: a signed-in driver's saved commutes and the verdicts the scheduled
+// check-commutes function records ahead of each departure.
+import type { SafetyScore } from '@contracts';
+import { supabase } from '@/integrations/supabase/client';
+import type { Account } from '@/services/accountService';
+
+export interface CommuteCheck {
+  departureAt: string;
+  overallSafety: SafetyScore | null; // null when the check failed
+  usualSafety: SafetyScore;
+  worsened: boolean; // Caution or danger, and worse than usual
+  routeSummary: string | null;
+  recommendation: string | null;
+}
+
+export interface Commute {
+  id: string;
+  name: string;
+  startLocation: string;
+  endLocation: string;
+  travelMode: 'driving' | 'walking' | 'biking';
+  vehicleInfo: { type: 'sedan' | 'suv' | 'truck'; tires: 'regular' | 'snow'; drive: 'fwd' | 'awd' | '4wd' } | null;
+  departureTime: string; // "07:30", local to timeZone
+  daysOfWeek: number[]; // 0 = Sunday
+  timeZone: string;
+  notify: boolean; // Push a notification when a check comes out worse or a hazard is reported on the route
+  checks: CommuteCheck[]; // Latest first
+}
+
+export type NewCommute = Omit<Commute, 'id' | 'timeZone' | 'notify' | 'checks'>;
+
+// How many past checks each commute shows
+export const COMMUTE_HISTORY_LENGTH = 10;
+
+export class CommuteService {
+  private static instance: CommuteService;
+
+  static getInstance(): CommuteService {
+    if (!CommuteService.instance) {
+      CommuteService.instance = new CommuteService();
+    }
+    return CommuteService.instance;
+  }
+
+  async loadCommutes(account: Account): Promise<Commute[]> {
+    const { data: commutes, error } = await supabase
+      .from('commutes')
+      .select('*')
+      .eq('user_id', account.userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading commutes:', error);
+      return [];
+    }
+    if (!commutes || commutes.length === 0) return [];
+
+    const { data: checks, error: checksError } = await supabase
+      .from('commute_checks')
+      .select('*')
+      .in('commute_id', commutes.map(commute => commute.id))
+      .order('departure_at', { ascending: false })
+      .limit(COMMUTE_HISTORY_LENGTH * commutes.length);
+
+    if (checksError) console.error('Error loading commute checks:', checksError);
+
+    return commutes.map(commute => ({
+      id: commute.id,
+      name: commute.name,
+      startLocation: commute.start_location,
+      endLocation: commute.end_location,
+      travelMode: commute.travel_mode as Commute['travelMode'],
+      vehicleInfo: commute.vehicle_type && commute.tires && commute.drive
+        ? { type: commute.vehicle_type, tires: commute.tires, drive: commute.drive } as Commute['vehicleInfo']
+        : null,
+      departureTime: commute.departure_time.slice(0, 5),
+      daysOfWeek: commute.days_of_week,
+      timeZone: commute.time_zone,
+      notify: commute.notify,
+      checks: (checks || [])
+        .filter(check => check.commute_id === commute.id)
+        .slice(0, COMMUTE_HISTORY_LENGTH)
+        .map(check => ({
+          departureAt: check.departure_at,
+          overallSafety: check.overall_safety as SafetyScore | null,
+          usualSafety: check.usual_safety as SafetyScore,
+          worsened: check.worsened,
+          routeSummary: check.route_summary,
+          recommendation: check.recommendation
+        }))
+    }));
+  }
+
+  // Departure times are kept in the browser's time zone, so 7:30 stays 7:30 all year
+  async saveCommute(account: Account, commute: NewCommute): Promise<{ error: string | null }> {
+    const { error } = await supabase.from('commutes').insert({
+      user_id: account.userId,
+      name: commute.name.trim(),
+      start_location: commute.startLocation,
+      end_location: commute.endLocation,
+      travel_mode: commute.travelMode,
+      vehicle_type: commute.vehicleInfo?.type ?? null,
+      tires: commute.vehicleInfo?.tires ?? null,
+      drive: commute.vehicleInfo?.drive ?? null,
+      departure_time: commute.departureTime,
+      days_of_week: [...commute.daysOfWeek].sort((a, b) => a - b),
+      time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    });
+
+    if (error) {
+      console.error('Could not save commute:', error);
+      return { error: error.message };
+    }
+    console.log(`🚗 Saved commute ${commute.name}`);
+    return { error: null };
+  }
+
+  async setNotify(commuteId: string, notify: boolean): Promise<{ error: string | null }> {
+    const { error } = await supabase.from('commutes').update({ notify }).eq('id', commuteId);
+    if (error) {
+      console.error('Could not change commute notifications:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+
+  async removeCommute(commuteId: string): Promise<{ error: string | null }> {
+    const { error } = await supabase.from('commutes').delete().eq('id', commuteId);
+    if (error) {
+      console.error('Could not remove commute:', error);
+      return { error: error.message };
+    }
+    return { error: null };
+  }
+}
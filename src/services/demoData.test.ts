@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { demoRoute, demoWeather, seededRandom } from './demoData';
+
+describe('demoData', () => {
+  it('derives the same values from the same key', () => {
+    const first = seededRandom('route:a|b');
+    const second = seededRandom('route:a|b');
+    const other = seededRandom('route:a|c');
+
+    const values = [first(), first(), first()];
+    expect([second(), second(), second()]).toEqual(values);
+    expect(other()).not.toBe(values[0]);
+    values.forEach(value => expect(value).toBeGreaterThanOrEqual(0));
+    values.forEach(value => expect(value).toBeLessThan(1));
+  });
+
+  it('returns one demo route per pair of places', () => {
+    const route = demoRoute('Capitol Square', 'Sun Prairie', 'driving');
+
+    expect(demoRoute('capitol square', 'sun prairie', 'driving').coordinates).toEqual(route.coordinates);
+    expect(demoRoute('Capitol Square', 'Verona', 'driving').distance).not.toBe(route.distance);
+    expect(route.coordinates[0].distanceMiles).toBe(0);
+    expect(route.coordinates.at(-1).distanceMiles).toBeCloseTo(parseFloat(route.distance), 1);
+    expect(route.steps).toEqual([]);
+  });
+
+  it('takes longer on foot than by car', () => {
+    const driving = demoRoute('Capitol Square', 'Sun Prairie', 'driving');
+    const walking = demoRoute('Capitol Square', 'Sun Prairie', 'walking');
+
+    expect(walking.distance).toBe(driving.distance);
+    expect(walking.durationSeconds).toBeGreaterThan(driving.durationSeconds);
+  });
+
+  it('keeps demo weather stable for a city', () => {
+    const weather = demoWeather('Madison');
+    const again = demoWeather('Madison');
+
+    expect(again.main).toEqual(weather.main);
+    expect(again.weather).toEqual(weather.weather);
+    expect(again.snow_depth).toBe(weather.snow_depth);
+    expect(weather.snow_depth_source).toBe('demo');
+  });
+});
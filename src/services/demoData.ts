@@ -0,0 +1,94 @@
+// Demo fixtures shown when the edge functions are unreachable and nothing is saved from an
+// earlier live result. Every value is derived from the request, so the same search always shows
+// the same demo result; results built from these are labelled dataSource: 'demo'.
+import type { RouteOption, WeatherResponse } from '@contracts';
+import { encodePolyline, haversineMiles, LatLngPoint } from '@/lib/geo';
+
+const MADISON: LatLngPoint = { lat: 43.0731, lng: -89.4012 };
+const ROAD_DISTANCE_FACTOR = 1.3; // Roads are longer than the straight line between their ends
+const DEMO_SPEED_MPH: Record<string, number> = { driving: 30, biking: 10, walking: 3 };
+
+// Small PRNG (mulberry32) seeded with an FNV-1a hash of `key`
+export function seededRandom(key: string): () => number {
+  let seed = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    seed = Math.imul(seed ^ key.charCodeAt(i), 0x01000193);
+  }
+
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+export function demoWeather(city = 'Madison'): WeatherResponse {
+  const random = seededRandom(`weather:${city.toLowerCase()}`);
+  const temp = round(10 + random() * 20, 1); // 10-30°F
+  const snowing = random() > 0.5;
+  const now = new Date().toISOString();
+
+  return {
+    name: city,
+    is_forecast: false,
+    valid_at: now,
+    main: { temp, pressure: 1013, feels_like: round(temp - 5 - random() * 10, 1) },
+    weather: [snowing ? { main: 'Snow', description: 'light snow' } : { main: 'Clouds', description: 'scattered clouds' }],
+    wind: { speed: round(5 + random() * 15, 1) },
+    snow_depth: round(snowing ? 1 + random() * 6 : random() * 2, 1),
+    snow_depth_source: 'demo',
+    snow_depth_observed_at: now,
+    snow_depth_age_minutes: 0
+  };
+}
+
+// A gently curving line between two made-up Madison-area points
+export function demoRoute(startLocation: string, endLocation: string, travelMode: string): RouteOption {
+  const random = seededRandom(`route:${startLocation.toLowerCase()}|${endLocation.toLowerCase()}`);
+  const start = { lat: MADISON.lat + (random() - 0.5) * 0.1, lng: MADISON.lng + (random() - 0.5) * 0.1 };
+  const end = { lat: start.lat + (random() - 0.5) * 0.3, lng: start.lng + (random() - 0.5) * 0.4 };
+  const bend = (random() - 0.5) * 0.02;
+
+  const pointCount = 5;
+  const path = Array.from({ length: pointCount }, (_, i) => {
+    const t = i / (pointCount - 1);
+    const offset = Math.sin(t * Math.PI) * bend;
+    return {
+      lat: round(start.lat + (end.lat - start.lat) * t + offset, 5),
+      lng: round(start.lng + (end.lng - start.lng) * t - offset, 5)
+    };
+  });
+
+  const speedMph = DEMO_SPEED_MPH[travelMode] ?? DEMO_SPEED_MPH.driving;
+  let distanceMiles = 0;
+  const coordinates = path.map((point, i) => {
+    if (i > 0) distanceMiles += haversineMiles(path[i - 1], point) * ROAD_DISTANCE_FACTOR;
+    return {
+      ...point,
+      distanceMiles: round(distanceMiles, 2),
+      etaSeconds: Math.round(distanceMiles / speedMph * 3600)
+    };
+  });
+  const durationMinutes = Math.max(1, Math.round(distanceMiles / speedMph * 60));
+
+  return {
+    index: 0,
+    summary: `${startLocation} to ${endLocation}`,
+    distance: `${round(distanceMiles, 1)} mi`,
+    duration: `${durationMinutes} min`,
+    distanceMeters: Math.round(distanceMiles * 1609.34),
+    durationSeconds: durationMinutes * 60,
+    coordinates,
+    polyline: encodePolyline(coordinates),
+    steps: [], // No made-up directions
+    safety: null,
+    snowExposureMiles: null,
+    hazardCount: null,
+    hazardImpact: null,
+    rank: 1,
+    recommended: true
+  };
+}
@@ -0,0 +1,366 @@
+// Hazard service: submits hazard reports with their photos (queueing them while offline), loads
+// those relevant to a planned route, records votes on them and streams changes to them live
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type {
+  FunctionRequest,
+  HazardMedia,
+  HazardPhotoUpload,
+  HazardReport,
+  HazardStatus,
+  HazardVote,
+  SubmitHazardResponse,
+  VoteHazardResponse
+} from '@contracts';
+import { supabase } from '@/integrations/supabase/client';
+import { EdgeFunctionError, invokeEdgeFunction } from '@/lib/edgeFunctions';
+import { encodePolyline, LatLngPoint, projectOntoRoute } from '@/lib/geo';
+import type { HazardAnalysis } from '@/services/aiService';
+
+export type { HazardReport, HazardStatus, HazardVote };
+
+export interface RouteHazard {
+  id: string;
+  hazardType: string;
+  title: string;
+  description: string;
+  severity: 'low' | 'medium' | 'high';
+  status: HazardStatus;
+  reportCount: number; // Drivers who reported it, including merged duplicates
+  lat: number;
+  lng: number;
+  address?: string;
+  createdAt: string;
+  distanceFromStartMiles: number;
+  distanceFromRouteMiles: number;
+}
+
+// A photo attached to a hazard, as public Storage URLs
+export interface HazardPhoto {
+  id: string;
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
+
+type SubmitHazardRequest = FunctionRequest<'submit-hazard'>;
+
+// A report made without a connection, sent by sendQueuedReports once there is one
+export interface QueuedReport {
+  id: string;
+  queuedAt: string;
+  request: SubmitHazardRequest;
+}
+
+// A hazard report inserted, updated (votes, merged reports, expiry) or deleted
+export interface HazardChange {
+  event: 'INSERT' | 'UPDATE' | 'DELETE';
+  hazard: HazardReport; // Only the id is set for DELETE
+}
+
+// Hazards further than this from the route polyline are not considered "on the route"
+export const ROUTE_HAZARD_CORRIDOR_MILES = 0.25;
+// "Nearby" for the live hazard list
+export const NEARBY_HAZARD_RADIUS_MILES = 15;
+const METERS_PER_MILE = 1609.34;
+// Reports that are still shown; resolved and expired ones are kept only as history
+export const LIVE_HAZARD_STATUSES: HazardStatus[] = ['active', 'confirmed', 'disputed'];
+const HAZARD_PHOTO_BUCKET = 'hazard-photos';
+const QUEUED_REPORTS_STORAGE_KEY = 'madsnowi_queued_reports';
+
+// Whether a report should still be shown; changes arriving live may be resolved or expired ones
+export function isLiveHazard(hazard: Partial<Pick<HazardReport, 'status' | 'expires_at'>>, now = new Date()): boolean {
+  return LIVE_HAZARD_STATUSES.includes(hazard.status) && (!hazard.expires_at || new Date(hazard.expires_at) > now);
+}
+
+// Where a report lies relative to a route path
+export function toRouteHazard(report: HazardReport, path: LatLngPoint[]): RouteHazard {
+  const projection = projectOntoRoute({ lat: report.location_lat, lng: report.location_lng }, path);
+
+  return {
+    id: report.id,
+    hazardType: report.hazard_type,
+    title: report.title || report.hazard_type,
+    description: report.description,
+    severity: report.severity as RouteHazard['severity'],
+    status: report.status as HazardStatus,
+    reportCount: report.report_count ?? 1,
+    lat: report.location_lat,
+    lng: report.location_lng,
+    address: report.location_address || undefined,
+    createdAt: report.created_at,
+    distanceFromStartMiles: projection.distanceAlongRouteMiles,
+    distanceFromRouteMiles: projection.distanceFromRouteMiles
+  };
+}
+
+// A route's hazards with a live change applied: added or updated when the hazard is live and
+// within the corridor, dropped otherwise. The same array comes back when the change doesn't touch it.
+export function applyHazardChange(
+  hazards: RouteHazard[],
+  { hazard }: HazardChange,
+  path: LatLngPoint[],
+  corridorMiles: number = ROUTE_HAZARD_CORRIDOR_MILES
+): RouteHazard[] {
+  const known = hazards.some(item => item.id === hazard.id);
+  const onRoute = isLiveHazard(hazard) && hazard.location_lat != null && hazard.location_lng != null && path.length > 0
+    ? toRouteHazard(hazard, path)
+    : null;
+  const inCorridor = onRoute && onRoute.distanceFromRouteMiles <= corridorMiles;
+  if (!known && !inCorridor) return hazards;
+
+  const others = hazards.filter(item => item.id !== hazard.id);
+  return inCorridor
+    ? [...others, onRoute].sort((a, b) => a.distanceFromStartMiles - b.distanceFromStartMiles)
+    : others;
+}
+
+// "Reported by 3 drivers" for merged hazards; null for a single report
+export function reportedByLabel(reportCount?: number): string | null {
+  return reportCount > 1 ? `Reported by ${reportCount} drivers` : null;
+}
+
+export class HazardService {
+  private static instance: HazardService;
+  private channelCount = 0;
+  // Reports from this browser, so live updates don't announce them back to their reporter
+  private ownHazardIds = new Set<string>();
+  private pendingReportLocations = new Set<string>();
+  private sendingQueue: Promise<SubmitHazardResponse[]> | null = null;
+
+  static getInstance(): HazardService {
+    if (!HazardService.instance) {
+      HazardService.instance = new HazardService();
+    }
+    return HazardService.instance;
+  }
+
+  // Saves the analyzed report and its photos. A report matching a live hazard nearby is merged into
+  // it as a sighting, so the result may be an existing hazard with a higher report count. Without a
+  // connection the report is queued instead (queued: true) and sent by sendQueuedReports.
+  async reportHazard(
+    analysis: HazardAnalysis,
+    photos: HazardPhotoUpload[] = []
+  ): Promise<{ data: SubmitHazardResponse | null; error: EdgeFunctionError | null; queued?: boolean }> {
+    // Clean up the location address by removing duplicate pin emojis
+    const cleanAddress = analysis.location?.address?.replace(/📍\s*📍/g, '📍')?.replace(/^📍\s*/, '');
+    const coordinates = analysis.location?.coordinates;
+    const request: SubmitHazardRequest = {
+      hazardType: analysis.hazardType,
+      title: analysis.title,
+      description: analysis.description,
+      severity: analysis.severity,
+      location: coordinates ? {
+        lat: coordinates.lat,
+        lng: coordinates.lng,
+        address: cleanAddress,
+        confidence: analysis.location.confidence,
+        source: analysis.location.source
+      } : undefined,
+      aiReasoning: analysis.aiReasoning,
+      photos: photos.length > 0
+        ? photos.map(({ image, thumbnail, width, height }) => ({ image, thumbnail, width, height }))
+        : undefined
+    };
+
+    const { data, error } = await this.submitReport(request);
+    if (error?.code === 'network_error') {
+      this.queueReport(request);
+      return { data: null, error: null, queued: true };
+    }
+    if (error) return { data: null, error };
+    return { data, error: null };
+  }
+
+  // Reports waiting for a connection, oldest first
+  getQueuedReports(): QueuedReport[] {
+    try {
+      const stored = localStorage.getItem(QUEUED_REPORTS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) as QueuedReport[] : [];
+    } catch (error) {
+      console.log('Could not read queued hazard reports:', error);
+      return [];
+    }
+  }
+
+  // Sends queued reports in the order they were made, stopping at the first that still can't get
+  // through. One the server rejects is dropped, as sending it again would not help.
+  // Returns what was saved, as reportHazard would have.
+  sendQueuedReports(): Promise<SubmitHazardResponse[]> {
+    // Coming back online and a page load can both ask at once; send each report once
+    this.sendingQueue ??= this.sendQueue().finally(() => {
+      this.sendingQueue = null;
+    });
+    return this.sendingQueue;
+  }
+
+  private async sendQueue(): Promise<SubmitHazardResponse[]> {
+    const sent: SubmitHazardResponse[] = [];
+    for (const report of this.getQueuedReports()) {
+      const { data, error } = await this.submitReport(report.request);
+      if (error?.code === 'network_error') break;
+
+      if (error) {
+        console.error(`Dropping queued hazard report from ${report.queuedAt}:`, error);
+      } else {
+        sent.push(data);
+      }
+      this.storeQueuedReports(this.getQueuedReports().filter(queued => queued.id !== report.id));
+    }
+
+    if (sent.length > 0) console.log(`📤 Sent ${sent.length} hazard reports made offline`);
+    return sent;
+  }
+
+  private async submitReport(request: SubmitHazardRequest): Promise<{ data: SubmitHazardResponse | null; error: EdgeFunctionError | null }> {
+    // The new row can arrive live before submit-hazard answers
+    const locationKey = request.location ? reportLocationKey(request.location.lat, request.location.lng) : null;
+    if (locationKey) this.pendingReportLocations.add(locationKey);
+
+    const { data, error } = await invokeEdgeFunction('submit-hazard', { body: request }).finally(() => {
+      if (locationKey) this.pendingReportLocations.delete(locationKey);
+    });
+
+    if (error) return { data: null, error };
+    this.ownHazardIds.add(data.hazard.id);
+    console.log(data.merged
+      ? `🔁 Report merged into hazard ${data.hazard.id} (${data.hazard.report_count} reports)`
+      : `🚧 New hazard ${data.hazard.id}`);
+    return { data: data as SubmitHazardResponse, error: null };
+  }
+
+  // Photos can outgrow what localStorage holds; the report itself matters more
+  private queueReport(request: SubmitHazardRequest): void {
+    const report: QueuedReport = { id: crypto.randomUUID(), queuedAt: new Date().toISOString(), request };
+    const queue = this.getQueuedReports();
+    if (!this.storeQueuedReports([...queue, report]) && request.photos) {
+      console.warn('Queueing the hazard report without its photos: not enough room to keep them offline');
+      this.storeQueuedReports([...queue, { ...report, request: { ...request, photos: undefined } }]);
+    }
+    console.log('📥 Queued hazard report until back online');
+  }
+
+  private storeQueuedReports(queue: QueuedReport[]): boolean {
+    try {
+      localStorage.setItem(QUEUED_REPORTS_STORAGE_KEY, JSON.stringify(queue));
+      return true;
+    } catch (error) {
+      console.log('Could not store queued hazard reports:', error);
+      return false;
+    }
+  }
+
+  // Photos of a hazard, oldest first, including those sent with reports merged into it
+  async getHazardPhotos(hazardId: string): Promise<HazardPhoto[]> {
+    const { data, error } = await supabase
+      .from('hazard_report_media')
+      .select('*')
+      .eq('hazard_id', hazardId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading hazard photos:', error);
+      return [];
+    }
+
+    const bucket = supabase.storage.from(HAZARD_PHOTO_BUCKET);
+    return ((data || []) as HazardMedia[]).map(media => ({
+      id: media.id,
+      url: bucket.getPublicUrl(media.storage_path).data.publicUrl,
+      thumbnailUrl: bucket.getPublicUrl(media.thumbnail_path).data.publicUrl,
+      width: media.width,
+      height: media.height
+    }));
+  }
+
+  // Newest live hazards, within `radiusMiles` of `near` when a location is known; null when they
+  // could not be loaded
+  async getRecentHazards(near: LatLngPoint | null, limit = 5, radiusMiles = NEARBY_HAZARD_RADIUS_MILES): Promise<HazardReport[] | null> {
+    const query = near
+      ? supabase.rpc('hazards_near', { lat: near.lat, lng: near.lng, radius_m: radiusMiles * METERS_PER_MILE })
+      : supabase
+        .from('hazard_reports')
+        .select('*')
+        .in('status', LIVE_HAZARD_STATUSES)
+        .gt('expires_at', new Date().toISOString());
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error loading hazards:', error);
+      return null;
+    }
+    return (data || []) as HazardReport[];
+  }
+
+  async getHazardsAlongRoute(path: LatLngPoint[], corridorMiles: number = ROUTE_HAZARD_CORRIDOR_MILES): Promise<RouteHazard[]> {
+    if (path.length === 0) return [];
+
+    try {
+      // PostGIS buffers the route (hazards_along_route); distances along it are measured here
+      const bufferMeters = corridorMiles * METERS_PER_MILE;
+      const { data, error } = path.length > 1
+        ? await supabase.rpc('hazards_along_route', { polyline: encodePolyline(path), buffer_m: bufferMeters })
+        : await supabase.rpc('hazards_near', { lat: path[0].lat, lng: path[0].lng, radius_m: bufferMeters });
+
+      if (error) {
+        console.error('Error loading route hazards:', error);
+        return [];
+      }
+
+      const hazards = (data || []).map(report => toRouteHazard(report as HazardReport, path));
+
+      console.log(`⚠️ Found ${hazards.length} hazards within ${corridorMiles} mi of the route`);
+      return hazards.sort((a, b) => a.distanceFromStartMiles - b.distanceFromStartMiles);
+    } catch (error) {
+      console.warn('Could not load route hazards:', error);
+      return [];
+    }
+  }
+
+  // Calls onChange for every hazard report inserted, updated or deleted until the returned
+  // function unsubscribes. Resolved and expired reports arrive too; check isLiveHazard.
+  subscribeToHazardChanges(onChange: (change: HazardChange) => void): () => void {
+    const channel = supabase
+      .channel(`hazard-reports-${++this.channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'hazard_reports' },
+        (payload: RealtimePostgresChangesPayload<HazardReport>) => {
+          const hazard = (payload.eventType === 'DELETE' ? payload.old : payload.new) as HazardReport;
+          console.log(`📡 Hazard ${payload.eventType}: ${hazard.id}`);
+          onChange({ event: payload.eventType, hazard });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  // Whether a live change is a report submitted from this browser
+  isOwnReport(hazard: HazardReport): boolean {
+    return this.ownHazardIds.has(hazard.id) ||
+      (hazard.location_lat != null && this.pendingReportLocations.has(reportLocationKey(hazard.location_lat, hazard.location_lng)));
+  }
+
+  // "Still there" keeps a hazard up for another lifetime of its type; enough "gone" votes resolve it.
+  // vote-hazard keeps one vote per signed-in user, or per connection for anonymous voters.
+  async voteOnHazard(hazardId: string, vote: HazardVote): Promise<{ data: VoteHazardResponse | null; error: EdgeFunctionError | null }> {
+    const { data, error } = await invokeEdgeFunction('vote-hazard', {
+      body: { hazardId, vote }
+    });
+
+    if (error) return { data: null, error };
+    console.log(`🗳️ Voted ${vote} on hazard ${hazardId}: now ${data.status}`);
+    return { data: data as VoteHazardResponse, error: null };
+  }
+}
+
+// Rounded so the stored DECIMAL and the submitted number compare equal
+function reportLocationKey(lat: number, lng: number): string {
+  return `${Number(lat).toFixed(5)},${Number(lng).toFixed(5)}`;
+}
@@ -149,8 +149,8 @@ export class LocationService {
       console.log('🔍 REVERSE GEOCODING USER LOCATION...');
       
       // Call the edge function directly for reverse geocoding
-      const supabase = (await import('../integrations/supabase/client')).supabase;
-      const { data, error } = await supabase.functions.invoke('analyze-hazard', {
+      const { invokeEdgeFunction } = await import('../lib/edgeFunctions');
+      const { data, error } = await invokeEdgeFunction('analyze-hazard', {
         body: {
           userInput: 'reverse-geocode-only',
           locationContext: {
@@ -169,7 +169,7 @@ export class LocationService {
         return `Location: ${lat.toFixed(4)}, ${lng.toFixed(4)}`;
       }
 
-      if (data && data.reverseGeocodeResult && !data.reverseGeocodeResult.includes('Location:')) {
+      if (data && 'reverseGeocodeResult' in data && data.reverseGeocodeResult && !data.reverseGeocodeResult.includes('Location:')) {
         console.log('✅ Got reverse geocoded address:', data.reverseGeocodeResult);
         return data.reverseGeocodeResult;
       }
@@ -0,0 +1,47 @@
+// Offline service: the last planned trip and the nearby hazard list, kept in this browser so they
+// can still be shown, stamped with when they were last updated, where there is no signal.
+// Service worker caching of the app itself is in public/sw.js.
+
+export interface Snapshot<T> {
+  savedAt: string;
+  value: T;
+}
+
+export type SnapshotKind = 'trip' | 'hazards';
+
+const SNAPSHOT_KEY_PREFIX = 'madsnowi_offline_';
+
+export class OfflineService {
+  private static instance: OfflineService;
+
+  static getInstance(): OfflineService {
+    if (!OfflineService.instance) {
+      OfflineService.instance = new OfflineService();
+    }
+    return OfflineService.instance;
+  }
+
+  // Replaces the previous snapshot of the kind
+  saveSnapshot<T>(kind: SnapshotKind, value: T): void {
+    const snapshot: Snapshot<T> = { savedAt: new Date().toISOString(), value };
+    try {
+      localStorage.setItem(SNAPSHOT_KEY_PREFIX + kind, JSON.stringify(snapshot));
+    } catch (error) {
+      console.log(`Could not save the ${kind} for offline use:`, error);
+    }
+  }
+
+  loadSnapshot<T>(kind: SnapshotKind): Snapshot<T> | null {
+    try {
+      const stored = localStorage.getItem(SNAPSHOT_KEY_PREFIX + kind);
+      if (!stored) return null;
+
+      const snapshot = JSON.parse(stored) as Snapshot<T>;
+      console.log(`📦 Using the ${kind} saved ${snapshot.savedAt}`);
+      return snapshot;
+    } catch (error) {
+      console.log(`Could not read the saved ${kind}:`, error);
+      return null;
+    }
+  }
+}
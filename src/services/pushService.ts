@@ -0,0 +1,104 @@
+// Push service: this browser's Web Push subscription, kept in push_subscriptions so the scheduled
+// dispatch-notifications function can reach a signed-in driver with the tab closed.
+import { supabase } from '@/integrations/supabase/client';
+import type { Account } from '@/services/accountService';
+
+// 'denied' means the driver blocked notifications in the browser; only they can undo it
+export type PushStatus = 'unsupported' | 'denied' | 'off' | 'on';
+
+// The public half of the VAPID key pair the dispatcher signs with
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+const base64UrlToBytes = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+export class PushService {
+  private static instance: PushService;
+
+  static getInstance(): PushService {
+    if (!PushService.instance) {
+      PushService.instance = new PushService();
+    }
+    return PushService.instance;
+  }
+
+  isSupported(): boolean {
+    return Boolean(VAPID_PUBLIC_KEY) &&
+      'serviceWorker' in navigator &&
+      'PushManager' in window &&
+      'Notification' in window;
+  }
+
+  async getStatus(): Promise<PushStatus> {
+    if (!this.isSupported()) return 'unsupported';
+    if (Notification.permission === 'denied') return 'denied';
+    return (await this.getSubscription()) ? 'on' : 'off';
+  }
+
+  // Asks for permission, subscribes this browser and stores the subscription for the driver.
+  // Subscribing again (after the browser rotated its keys) replaces the stored one.
+  async enable(account: Account): Promise<{ error: string | null }> {
+    if (!this.isSupported()) return { error: 'This browser cannot show notifications' };
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      return { error: 'Notifications are blocked for this site. Allow them in your browser settings.' };
+    }
+
+    let subscription: PushSubscription;
+    try {
+      await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      const registration = await navigator.serviceWorker.ready;
+      subscription = await registration.pushManager.getSubscription() ?? await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: base64UrlToBytes(VAPID_PUBLIC_KEY!)
+      });
+    } catch (error) {
+      console.error('Could not subscribe to push notifications:', error);
+      return { error: 'Could not turn on notifications in this browser' };
+    }
+
+    const { endpoint, keys } = subscription.toJSON();
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .upsert({
+        user_id: account.userId,
+        endpoint: endpoint!,
+        p256dh: keys!.p256dh,
+        auth: keys!.auth,
+        user_agent: navigator.userAgent
+      }, { onConflict: 'endpoint' });
+
+    if (error) {
+      console.error('Could not save push subscription:', error);
+      return { error: error.message };
+    }
+    console.log('🔔 Notifications on for this browser');
+    return { error: null };
+  }
+
+  // Unsubscribes this browser; the driver's other devices keep their notifications
+  async disable(): Promise<{ error: string | null }> {
+    const subscription = await this.getSubscription();
+    if (!subscription) return { error: null };
+
+    const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+    if (error) {
+      console.error('Could not remove push subscription:', error);
+      return { error: error.message };
+    }
+    await subscription.unsubscribe();
+    console.log('🔕 Notifications off for this browser');
+    return { error: null };
+  }
+
+  private async getSubscription(): Promise<PushSubscription | null> {
+    if (!this.isSupported()) return null;
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    return (await registration?.pushManager.getSubscription()) ?? null;
+  }
+}
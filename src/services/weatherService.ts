@@ -1,44 +1,72 @@
 // Weather service for MadSnowi winter route planning
-import { supabase } from '@/integrations/supabase/client';
+import { invokeEdgeFunction } from '@/lib/edgeFunctions';
 import { LocationService } from './locationService';
+import { demoRoute, demoWeather, seededRandom } from './demoData';
+
+import type {
+  ContributingHazard,
+  DepartureSlot,
+  DepartureTimeline,
+  FailedRouteSegment,
+  RouteOption as ContractRouteOption,
+  RoutePoint,
+  RouteSafetyAnalysis,
+  RouteSegment,
+  RouteStep,
+  VehicleInfo,
+  WeatherResponse
+} from '@contracts';
+
+export type {
+  ContributingHazard,
+  DepartureSlot,
+  DepartureTimeline,
+  FailedRouteSegment,
+  RoutePoint,
+  RouteSafetyAnalysis,
+  RouteSegment,
+  RouteStep,
+  VehicleInfo
+};
+
+// Where a result came from: the edge functions, the last live result for the same request saved
+// in this browser, or the demo fixtures in demoData.ts
+export type DataSource = 'live' | 'cached' | 'demo';
+
+export interface Sourced {
+  dataSource: DataSource;
+  cachedAt?: string; // When a cached result was fetched
+}
+
+export type WeatherData = WeatherResponse & Sourced;
+
+export type RouteAnalysis = RouteSafetyAnalysis & Sourced;
 
-interface WeatherData {
-  name: string;
-  main: {
-    temp: number;
-    pressure: number;
-    feels_like?: number;
-  };
-  weather: Array<{
-    main: string;
-    description: string;
-  }>;
-  wind?: {
-    speed: number;
-  };
-  snow_depth: number; // Custom field for snow analysis
+// One of the alternative routes returned by get-route, ranked safest first
+export interface RouteOption extends ContractRouteOption, Sourced {
+  departureTimeline?: DepartureTimeline | null; // Only on the recommended route, when a window was requested
 }
 
-interface RouteSegment {
-  lat: number;
-  lng: number;
-  snowDepth: number;
-  safetyScore: 'safe' | 'caution' | 'danger';
+// The least live of several results, e.g. a live route analyzed against cached weather is cached
+export function combineDataSources(results: Sourced[]): Sourced {
+  if (results.some(result => result.dataSource === 'demo')) return { dataSource: 'demo' };
+
+  const cachedAt = results
+    .filter(result => result.dataSource === 'cached')
+    .map(result => result.cachedAt)
+    .sort()[0];
+  return results.some(result => result.dataSource === 'cached') ? { dataSource: 'cached', cachedAt } : { dataSource: 'live' };
 }
 
-interface RouteData {
-  distance: string;
-  duration: string;
-  coordinates: Array<{lat: number, lng: number}>;
-  polyline: string;
-  steps?: Array<{
-    instruction: string;
-    distance: string;
-    duration: string;
-    maneuver: string;
-  }>;
+interface SavedResult<T> {
+  request: string;
+  savedAt: string;
+  value: T;
 }
 
+const SAVED_RESULT_KEY_PREFIX = 'madsnowi_last_';
+const SAVED_RESULT_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
 export class WeatherService {
   private static instance: WeatherService;
 
@@ -54,169 +82,161 @@ export class WeatherService {
       // First try to get user's current location
       const location = await this.getCurrentLocation();
       
-      let weatherData;
       if (location) {
         console.log('Using geolocation for weather:', location);
         // Use coordinates if location is available
-        const { data, error } = await supabase.functions.invoke('get-weather', {
+        const request = `${location.lat.toFixed(2)},${location.lng.toFixed(2)}`;
+        const { data, error } = await invokeEdgeFunction('get-weather', {
           body: { lat: location.lat, lng: location.lng }
         });
 
         if (error) {
           console.warn('Supabase weather function failed with coordinates, using fallback:', error);
-          weatherData = this.getFallbackWeatherData('Madison');
-        } else {
-          weatherData = data;
+          return this.getSavedOrDemoWeather(request, 'Madison');
         }
-      } else {
-        // Fall back to Madison if location access denied or failed
-        console.log('User denied location access. Using Madison as fallback.');
-        weatherData = await this.getWeatherForCityFallback('Madison');
+        this.saveResult('weather', request, data);
+        return { ...data, dataSource: 'live' };
       }
 
-      return weatherData;
+      // Fall back to Madison if location access denied or failed
+      console.log('User denied location access. Using Madison as fallback.');
+      return await this.getWeatherForCityFallback('Madison');
     } catch (error) {
       console.warn('Weather service error, using Madison fallback:', error);
-      return this.getFallbackWeatherData('Madison');
+      return this.getSavedOrDemoWeather('Madison', 'Madison');
     }
   }
 
   private async getWeatherForCityFallback(city: string): Promise<WeatherData> {
     try {
-      const { data, error } = await supabase.functions.invoke('get-weather', {
+      const { data, error } = await invokeEdgeFunction('get-weather', {
         body: { city }
       });
 
       if (error) {
         console.warn('Supabase weather function failed with city, using fallback:', error);
-        return this.getFallbackWeatherData(city);
-      } else {
-        return data;
+        return this.getSavedOrDemoWeather(city, city);
       }
+      this.saveResult('weather', city, data);
+      return { ...data, dataSource: 'live' };
     } catch (error) {
-      console.warn('City weather fallback failed, using mock data:', error);
-      return this.getFallbackWeatherData(city);
+      console.warn('City weather fallback failed, using demo data:', error);
+      return this.getSavedOrDemoWeather(city, city);
     }
   }
 
-  private getFallbackWeatherData(city: string): WeatherData {
-    // Generate realistic fallback weather data for Madison, WI
-    const baseTemp = Math.random() * 20 + 10; // 10-30°F typical winter range
-    const hasSnow = Math.random() > 0.6; // 40% chance of snow
-    const snowDepth = hasSnow ? Math.random() * 6 + 1 : Math.random() * 2; // 1-7" if snowing, 0-2" otherwise
-    
-    return {
-      name: city || 'Madison',
-      main: {
-        temp: baseTemp,
-        pressure: 1013,
-        feels_like: baseTemp - (Math.random() * 10 + 5)
-      },
-      weather: [{
-        main: hasSnow ? 'Snow' : 'Clouds',
-        description: hasSnow ? 'light snow' : 'scattered clouds'
-      }],
-      wind: {
-        speed: Math.random() * 15 + 5
-      },
-      snow_depth: snowDepth
-    };
+  private getSavedOrDemoWeather(request: string, city: string): WeatherData {
+    const saved = this.loadResult<WeatherResponse>('weather', request);
+    return saved
+      ? { ...saved.value, dataSource: 'cached', cachedAt: saved.savedAt }
+      : { ...demoWeather(city), dataSource: 'demo' };
   }
 
-  async getRouteData(startLocation: string, endLocation: string, travelMode: string): Promise<RouteData> {
+  async getRouteOptions(
+    startLocation: string,
+    endLocation: string,
+    travelMode: string,
+    vehicleInfo?: VehicleInfo,
+    departureTime?: string,
+    departureWindowHours?: number
+  ): Promise<RouteOption[]> {
+    const departureWindow = departureWindowHours ? { hours: departureWindowHours } : undefined;
+    const body = { startLocation, endLocation, travelMode, vehicleInfo, alternatives: true, departureTime, departureWindow };
+    const request = JSON.stringify(body);
+
     try {
-      const { data, error } = await supabase.functions.invoke('get-route', {
-        body: { startLocation, endLocation, travelMode }
-      });
+      const { data, error } = await invokeEdgeFunction('get-route', { body });
 
-      if (error) {
+      if (error || !data?.routes?.length) {
         console.warn('Supabase route function failed, using fallback:', error);
-        return this.getFallbackRouteData(startLocation, endLocation, travelMode);
+        return this.getSavedOrDemoRoutes(request, startLocation, endLocation, travelMode);
       }
 
-      return data.route;
+      // The departure timeline was evaluated for the recommended route only
+      const routes = data.routes.map((route): Omit<RouteOption, keyof Sourced> => route.index === data.recommendedIndex
+        ? { ...route, departureTimeline: data.departureTimeline }
+        : route);
+      this.saveResult('routes', request, routes);
+      return routes.map(route => ({ ...route, dataSource: 'live' }));
     } catch (error) {
       console.warn('Route service error, using fallback:', error);
-      return this.getFallbackRouteData(startLocation, endLocation, travelMode);
+      return this.getSavedOrDemoRoutes(request, startLocation, endLocation, travelMode);
     }
   }
 
-  private getFallbackRouteData(startLocation: string, endLocation: string, travelMode: string): RouteData {
-    // Generate mock route data
-    const distance = `${Math.floor(Math.random() * 20 + 5)} mi`;
-    const duration = `${Math.floor(Math.random() * 30 + 15)} min`;
-    
-    // Generate coordinates between Madison area points
-    const coordinates = [
-      { lat: 43.0731, lng: -89.4012 }, // Madison
-      { lat: 43.0731 + (Math.random() - 0.5) * 0.1, lng: -89.4012 + (Math.random() - 0.5) * 0.1 },
-      { lat: 43.0731 + (Math.random() - 0.5) * 0.1, lng: -89.4012 + (Math.random() - 0.5) * 0.1 }
-    ];
-
-    return {
-      distance,
-      duration,
-      coordinates,
-      polyline: 'mock_polyline_data'
-    };
+  private getSavedOrDemoRoutes(request: string, startLocation: string, endLocation: string, travelMode: string): RouteOption[] {
+    const saved = this.loadResult<Omit<RouteOption, keyof Sourced>[]>('routes', request);
+    return saved
+      ? saved.value.map(route => ({ ...route, dataSource: 'cached', cachedAt: saved.savedAt }))
+      : [{ ...demoRoute(startLocation, endLocation, travelMode), dataSource: 'demo' }];
   }
 
   async analyzeRouteWeather(
-    coordinates: Array<{lat: number, lng: number}>, 
-    vehicleInfo?: { type: string; tires: string; drive: string },
-    travelMode: string = 'driving'
-  ): Promise<{
-    routeSegments: RouteSegment[];
-    avgSnowDepth: number;
-    overallSafety: 'safe' | 'caution' | 'danger';
-    vehicleSafetyMessage: string;
-    recommendation: string;
-  }> {
+    coordinates: RoutePoint[], 
+    vehicleInfo?: VehicleInfo,
+    travelMode: string = 'driving',
+    departureTime?: string,
+    polyline?: string
+  ): Promise<RouteAnalysis> {
+    const body = { coordinates, polyline, vehicleInfo, travelMode, departureTime };
+    const request = JSON.stringify(body);
+
     try {
-      const { data, error } = await supabase.functions.invoke('analyze-route-safety', {
-        body: { coordinates, vehicleInfo, travelMode }
-      });
+      const { data, error } = await invokeEdgeFunction('analyze-route-safety', { body });
 
       if (error) {
         console.warn('Supabase route analysis failed, using fallback:', error);
-        return this.getFallbackRouteAnalysis(coordinates, vehicleInfo, travelMode);
+        return this.getSavedOrDemoRouteAnalysis(request, coordinates, vehicleInfo, departureTime);
       }
 
-      return {
-        routeSegments: data.routeSegments,
-        avgSnowDepth: data.avgSnowDepth,
-        overallSafety: data.overallSafety,
-        vehicleSafetyMessage: data.vehicleSafetyMessage,
-        recommendation: data.recommendation
-      };
+      this.saveResult('analysis', request, data);
+      return { ...data, dataSource: 'live' };
     } catch (error) {
       console.warn('Route analysis error, using fallback:', error);
-      return this.getFallbackRouteAnalysis(coordinates, vehicleInfo, travelMode);
+      return this.getSavedOrDemoRouteAnalysis(request, coordinates, vehicleInfo, departureTime);
     }
   }
 
-  private getFallbackRouteAnalysis(
-    coordinates: Array<{lat: number, lng: number}>, 
-    vehicleInfo?: { type: string; tires: string; drive: string },
-    travelMode: string = 'driving'
-  ): {
-    routeSegments: RouteSegment[];
-    avgSnowDepth: number;
-    overallSafety: 'safe' | 'caution' | 'danger';
-    vehicleSafetyMessage: string;
-    recommendation: string;
-  } {
-    const avgSnowDepth = Math.random() * 4 + 1; // 1-5 inches
+  private getSavedOrDemoRouteAnalysis(
+    request: string,
+    coordinates: RoutePoint[],
+    vehicleInfo?: VehicleInfo,
+    departureTime?: string
+  ): RouteAnalysis {
+    const saved = this.loadResult<RouteSafetyAnalysis>('analysis', request);
+    return saved
+      ? { ...saved.value, dataSource: 'cached', cachedAt: saved.savedAt }
+      : { ...this.getDemoRouteAnalysis(coordinates, vehicleInfo, departureTime), dataSource: 'demo' };
+  }
+
+  // Snow depths derived from the route's ends, so re-analyzing the same demo route gives the same answer
+  private getDemoRouteAnalysis(
+    coordinates: RoutePoint[], 
+    vehicleInfo?: VehicleInfo,
+    departureTime?: string
+  ): RouteSafetyAnalysis {
+    const first = coordinates[0];
+    const last = coordinates[coordinates.length - 1];
+    const random = seededRandom(`analysis:${first?.lat},${first?.lng}|${last?.lat},${last?.lng}`);
+    const avgSnowDepth = Number((1 + random() * 4).toFixed(1)); // 1-5 inches
     const overallSafety = avgSnowDepth > 4 ? 'danger' : avgSnowDepth > 2 ? 'caution' : 'safe';
+    const departure = departureTime ? new Date(departureTime) : new Date();
     
-    const routeSegments = coordinates.map(coord => ({
-      lat: coord.lat,
-      lng: coord.lng,
-      snowDepth: avgSnowDepth + (Math.random() - 0.5) * 2,
-      safetyScore: overallSafety as 'safe' | 'caution' | 'danger'
+    const routeSegments = coordinates.map((coord, index): RouteSegment => ({
+      ...coord,
+      index,
+      arrivalTime: new Date(departure.getTime() + (coord.etaSeconds ?? 0) * 1000).toISOString(),
+      isForecast: false,
+      weatherCached: false,
+      snowDepth: Number(Math.max(0, avgSnowDepth + (random() - 0.5) * 2).toFixed(1)),
+      safetyScore: overallSafety,
+      temperature: 25,
+      conditions: 'demo',
+      hazardImpact: 0,
+      hazardIds: []
     }));
 
-    const vehicleSafety = vehicleInfo ? 
+    const vehicleSafety = vehicleInfo?.type ? 
       this.calculateVehicleSafety(avgSnowDepth, vehicleInfo.type as 'sedan' | 'suv' | 'truck', vehicleInfo.tires as 'regular' | 'snow', vehicleInfo.drive as 'fwd' | 'awd' | '4wd') :
       { score: overallSafety, message: 'Vehicle information not provided' };
 
@@ -225,7 +245,10 @@ export class WeatherService {
       avgSnowDepth,
       overallSafety,
       vehicleSafetyMessage: vehicleSafety.message,
-      recommendation: this.generateRecommendation(overallSafety, avgSnowDepth, 25)
+      recommendation: this.generateRecommendation(overallSafety, avgSnowDepth, 25),
+      contributingHazards: [],
+      failedSegments: [],
+      departureTime: departure.toISOString()
     };
   }
 
@@ -292,6 +315,34 @@ export class WeatherService {
     }
   }
 
+  // Save a live result so the same request can be answered from it while offline
+  private saveResult<T>(kind: string, request: string, value: T): void {
+    const saved: SavedResult<T> = { request, savedAt: new Date().toISOString(), value };
+    try {
+      localStorage.setItem(SAVED_RESULT_KEY_PREFIX + kind, JSON.stringify(saved));
+    } catch (error) {
+      console.log('Could not save result for offline use:', error);
+    }
+  }
+
+  // Only the latest result of each kind is kept, and only used for the request it answered
+  private loadResult<T>(kind: string, request: string): SavedResult<T> | null {
+    try {
+      const stored = localStorage.getItem(SAVED_RESULT_KEY_PREFIX + kind);
+      if (!stored) return null;
+
+      const saved = JSON.parse(stored) as SavedResult<T>;
+      const age = Date.now() - new Date(saved.savedAt).getTime();
+      if (saved.request !== request || age > SAVED_RESULT_MAX_AGE_MS) return null;
+
+      console.log(`📦 Using saved ${kind} from ${saved.savedAt}`);
+      return saved;
+    } catch (error) {
+      console.log('Could not read saved result:', error);
+      return null;
+    }
+  }
+
   private getCurrentLocation(): Promise<{ lat: number; lng: number } | null> {
     return new Promise((resolve) => {
       if (!navigator.geolocation) {
@@ -310,7 +361,7 @@ export class WeatherService {
           // Try to reverse geocode to get actual address
           try {
             console.log('🔍 REVERSE GEOCODING USER LOCATION...');
-            const { data, error } = await supabase.functions.invoke('analyze-hazard', {
+            const { data, error } = await invokeEdgeFunction('analyze-hazard', {
               body: {
                 userInput: 'reverse-geocode-only',
                 locationContext: {
@@ -324,7 +375,7 @@ export class WeatherService {
               }
             });
             
-            if (data && data.reverseGeocodeResult) {
+            if (data && 'reverseGeocodeResult' in data && data.reverseGeocodeResult) {
               userAddress = data.reverseGeocodeResult;
               console.log('✅ Got reverse geocoded address:', userAddress);
             }
@@ -0,0 +1,84 @@
+// Browser APIs that jsdom lacks or that the app reaches the network through
+import { vi } from 'vitest';
+
+// Answer getCurrentPosition with `position`, or deny access when it is null
+export function mockGeolocation(position: { lat: number; lng: number } | null): void {
+  const geolocation = {
+    getCurrentPosition: vi.fn((success: PositionCallback, failure?: PositionErrorCallback) => {
+      if (position) {
+        success({ coords: { latitude: position.lat, longitude: position.lng, accuracy: 10 }, timestamp: Date.now() } as GeolocationPosition);
+      } else {
+        failure?.({ code: 1, message: 'User denied Geolocation', PERMISSION_DENIED: 1, POSITION_UNAVAILABLE: 2, TIMEOUT: 3 } as GeolocationPositionError);
+      }
+    }),
+    watchPosition: vi.fn(() => 0),
+    clearWatch: vi.fn()
+  };
+  Object.defineProperty(navigator, 'geolocation', { value: geolocation, configurable: true });
+}
+
+// Keep watchPosition's callbacks (after mockGeolocation) and return a function that moves the
+// device to `position`; wrap it in act() once something is rendered
+export function mockPositionWatch(): (position: { lat: number; lng: number }) => void {
+  const watchers = new Map<number, PositionCallback>();
+  let nextId = 1;
+  Object.assign(navigator.geolocation, {
+    watchPosition: vi.fn((success: PositionCallback) => {
+      watchers.set(nextId, success);
+      return nextId++;
+    }),
+    clearWatch: vi.fn((id: number) => watchers.delete(id))
+  });
+  return position => watchers.forEach(watcher => watcher({
+    coords: { latitude: position.lat, longitude: position.lng, accuracy: 10 },
+    timestamp: Date.now()
+  } as GeolocationPosition));
+}
+
+// Record what the Web Speech API is asked to say, in order
+export function mockSpeech(): string[] {
+  const spoken: string[] = [];
+  vi.stubGlobal('SpeechSynthesisUtterance', class {
+    constructor(readonly text: string) {}
+  });
+  vi.stubGlobal('speechSynthesis', {
+    speak: vi.fn((utterance: { text: string }) => spoken.push(utterance.text)),
+    cancel: vi.fn()
+  });
+  return spoken;
+}
+
+// Set navigator.onLine and tell the page, as the browser does when the connection comes or goes;
+// wrap in act() once something is rendered
+export function mockOnline(online: boolean): void {
+  Object.defineProperty(navigator, 'onLine', { value: online, configurable: true });
+  window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+}
+
+// Serve Places Autocomplete suggestions for whatever is typed
+export function mockPlacesAutocomplete(places: string[]): void {
+  vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL) => {
+    if (!String(input).startsWith('https://places.googleapis.com/')) {
+      throw new Error(`Unexpected request in test: ${String(input)}`);
+    }
+    return new Response(JSON.stringify({
+      suggestions: places.map((place, index) => ({
+        placePrediction: { place: `places/${index}`, placeId: `place-${index}`, text: { text: place } }
+      }))
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  }));
+}
+
+// Radix primitives (Select, Switch) use these; jsdom does not implement them
+export function installDomPolyfills(): void {
+  if (!window.ResizeObserver) {
+    window.ResizeObserver = class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    };
+  }
+  Element.prototype.scrollIntoView ??= () => {};
+  Element.prototype.hasPointerCapture ??= () => false;
+  Element.prototype.releasePointerCapture ??= () => {};
+}
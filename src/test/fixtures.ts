@@ -0,0 +1,118 @@
+// Edge function responses for component tests, typed by the shared contracts
+import type { FunctionResponse, HazardAnalysis, HazardReport, RouteOption, RouteSafetyAnalysis, WeatherResponse } from '@contracts';
+
+export const DEPARTURE_TIME = '2025-01-14T13:00:00.000Z';
+
+export function weatherResponse(overrides: Partial<WeatherResponse> = {}): WeatherResponse {
+  return {
+    name: 'Madison',
+    is_forecast: false,
+    valid_at: DEPARTURE_TIME,
+    main: { temp: 24.3, pressure: 1016, feels_like: 14.1 },
+    weather: [{ main: 'Snow', description: 'light snow' }],
+    wind: { speed: 9.2 },
+    snow_depth: 2.1,
+    snow_depth_source: 'open-meteo-gridded',
+    snow_depth_observed_at: DEPARTURE_TIME,
+    snow_depth_age_minutes: 20,
+    ...overrides
+  };
+}
+
+export function hazardAnalysis(overrides: Partial<HazardAnalysis> = {}): HazardAnalysis {
+  return {
+    title: 'Ice patch',
+    hazardType: 'ice',
+    description: 'Ice patch on East Washington Ave',
+    location: {
+      address: 'E Washington Ave & N 1st St, Madison, WI',
+      coordinates: { lat: 43.0921, lng: -89.3605 },
+      confidence: 'high',
+      source: 'places_api'
+    },
+    severity: 'high',
+    needsLocationConfirmation: false,
+    candidates: [],
+    taxonomyVersion: 'test',
+    ...overrides
+  };
+}
+
+// A hazard_reports row as submit-hazard returns it
+export function hazardReport(overrides: Partial<HazardReport> = {}): HazardReport {
+  const now = new Date();
+  return {
+    id: 'hazard-new',
+    hazard_type: 'ice',
+    title: 'Ice patch',
+    description: 'Ice patch on East Washington Ave',
+    severity: 'high',
+    status: 'active',
+    location_address: 'E Washington Ave & N 1st St, Madison, WI',
+    location_lat: 43.0921,
+    location_lng: -89.3605,
+    report_count: 1,
+    confidence: 0.5,
+    still_there_count: 0,
+    gone_count: 0,
+    created_at: now.toISOString(),
+    last_seen_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + 12 * 60 * 60 * 1000).toISOString(),
+    ...overrides
+  };
+}
+
+export function routeSafety(overrides: Partial<RouteSafetyAnalysis> = {}): RouteSafetyAnalysis {
+  return {
+    routeSegments: [],
+    failedSegments: [],
+    avgSnowDepth: 2.1,
+    overallSafety: 'caution',
+    vehicleSafetyMessage: '⚠️ Use caution with your suv. Consider snow tires or alternate route.',
+    recommendation: 'Use caution with 2.1" of snow. Allow extra time, drive slowly, and consider an alternate route.',
+    contributingHazards: [],
+    departureTime: DEPARTURE_TIME,
+    ...overrides
+  };
+}
+
+export function routeOption(overrides: Partial<RouteOption> = {}): RouteOption {
+  const coordinates = [
+    { lat: 43.0766, lng: -89.4125, distanceMiles: 0, etaSeconds: 0 },
+    { lat: 43.1250, lng: -89.3065, distanceMiles: 6.2, etaSeconds: 660 },
+    { lat: 43.1836, lng: -89.2137, distanceMiles: 12.4, etaSeconds: 1320 }
+  ];
+  return {
+    index: 0,
+    summary: 'US-151 N',
+    distance: '12.4 mi',
+    duration: '22 mins',
+    distanceMeters: 19965,
+    durationSeconds: 1320,
+    coordinates,
+    polyline: '',
+    steps: [
+      { instruction: 'Head east on University Ave', distance: '0.8 mi', duration: '3 mins', maneuver: '', startLocation: { lat: 43.0766, lng: -89.4125 } },
+      { instruction: 'Merge onto US-151 N', distance: '10.9 mi', duration: '16 mins', maneuver: 'merge', startLocation: { lat: 43.0850, lng: -89.3950 } },
+      { instruction: 'Turn right onto W Main St', distance: '0.7 mi', duration: '3 mins', maneuver: 'turn-right', startLocation: { lat: 43.1790, lng: -89.2210 } }
+    ],
+    safety: routeSafety(),
+    snowExposureMiles: 3.1,
+    hazardCount: 0,
+    hazardImpact: 0,
+    rank: 1,
+    recommended: true,
+    ...overrides
+  };
+}
+
+export function getRouteResponse(routes: RouteOption[] = [routeOption()]): FunctionResponse<'get-route'> {
+  const recommended = routes.find(route => route.recommended) || routes[0];
+  return {
+    route: recommended,
+    routes,
+    recommendedIndex: recommended.index,
+    departureTime: DEPARTURE_TIME,
+    departureTimeline: null
+  };
+}
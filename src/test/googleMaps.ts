@@ -0,0 +1,68 @@
+// Stand-in for the google.maps namespace the Maps script would define, following the shapes in
+// src/types/google-maps.d.ts. Nothing is drawn; tests can inspect the instances instead.
+import { vi } from 'vitest';
+
+const toLatLng = (point: google.maps.LatLng | google.maps.LatLngLiteral): google.maps.LatLng => {
+  if (typeof point.lat === 'function') return point as google.maps.LatLng;
+  const { lat, lng } = point as google.maps.LatLngLiteral;
+  return { lat: () => lat, lng: () => lng } as google.maps.LatLng;
+};
+
+class MockMap {
+  private center: google.maps.LatLng;
+  private zoom: number;
+
+  constructor(readonly mapDiv: HTMLElement, readonly opts: google.maps.MapOptions = {}) {
+    this.center = toLatLng(opts.center ?? { lat: 0, lng: 0 });
+    this.zoom = opts.zoom ?? 0;
+  }
+
+  setCenter(latlng: google.maps.LatLng | google.maps.LatLngLiteral) { this.center = toLatLng(latlng); }
+  getCenter() { return this.center; }
+  setZoom(zoom: number) { this.zoom = zoom; }
+  getZoom() { return this.zoom; }
+}
+
+class MockDirectionsService {
+  // No route unless a test replaces the implementation
+  route = vi.fn((request: google.maps.DirectionsRequest, callback: (result: google.maps.DirectionsResult | null, status: string) => void) => {
+    callback(null, 'ZERO_RESULTS');
+  });
+}
+
+class MockDirectionsRenderer {
+  map: MockMap | null = null;
+  directions: google.maps.DirectionsResult | null = null;
+
+  constructor(readonly opts: google.maps.DirectionsRendererOptions = {}) {}
+
+  setMap(map: MockMap) { this.map = map; }
+  setDirections(directions: google.maps.DirectionsResult) { this.directions = directions; }
+}
+
+class MockMarker {
+  constructor(readonly opts: google.maps.MarkerOptions = {}) {}
+}
+
+class MockSize {
+  constructor(readonly width: number, readonly height: number) {}
+}
+
+export function createGoogleMapsMock(): typeof google {
+  return {
+    maps: {
+      Map: MockMap,
+      DirectionsService: MockDirectionsService,
+      DirectionsRenderer: MockDirectionsRenderer,
+      Marker: MockMarker,
+      Size: MockSize,
+      TravelMode: {
+        DRIVING: 'DRIVING',
+        WALKING: 'WALKING',
+        BICYCLING: 'BICYCLING',
+        TRANSIT: 'TRANSIT'
+      },
+      SymbolPath: { CIRCLE: 0 }
+    }
+  } as unknown as typeof google;
+}
@@ -0,0 +1,19 @@
+// Map components for the mocked @react-google-maps/api (see setup.ts). They render their
+// children, or nothing, without a real map behind them.
+import React from 'react';
+
+const Empty = () => null;
+const Children = ({ children }: { children?: React.ReactNode }) => <>{children}</>;
+
+export const LoadScript = Children;
+
+export const GoogleMap = ({ children }: { children?: React.ReactNode }) => <div data-testid="google-map">{children}</div>;
+
+export const Marker = ({ title }: { title?: string }) => <div data-testid="map-marker" title={title} />;
+
+export const MarkerClusterer = ({ children }: { children: (clusterer: null) => React.ReactNode }) => <>{children(null)}</>;
+
+export const InfoWindow = Children;
+export const DirectionsService = Empty;
+export const DirectionsRenderer = Empty;
+export const Polyline = Empty;
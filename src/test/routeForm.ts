@@ -0,0 +1,38 @@
+// Drives RouteSearchForm the way a user would
+import { screen } from '@testing-library/react';
+import type { UserEvent } from '@testing-library/user-event';
+import { mockPlacesAutocomplete } from './browser';
+
+export const START_PLACE = 'University of Wisconsin-Madison, Madison, WI, USA';
+export const END_PLACE = 'Sun Prairie, WI, USA';
+
+// Open a Radix select by its label and pick an option
+export async function chooseOption(user: UserEvent, trigger: RegExp, option: RegExp): Promise<void> {
+  await user.click(screen.getByRole('combobox', { name: trigger }));
+  await user.click(await screen.findByRole('option', { name: option }));
+}
+
+async function choosePlace(user: UserEvent, placeholder: RegExp, place: string): Promise<void> {
+  mockPlacesAutocomplete([place]);
+  await user.type(screen.getByPlaceholderText(placeholder), place.slice(0, 6));
+  await user.click(await screen.findByRole('option', { name: place }));
+}
+
+interface RouteFormInput {
+  travelMode: RegExp; // Option label, e.g. /driving/i
+  vehicle?: { type: RegExp; tires: RegExp; drive: RegExp };
+}
+
+export async function fillRouteForm(user: UserEvent, { travelMode, vehicle }: RouteFormInput): Promise<void> {
+  await choosePlace(user, /starting point/i, START_PLACE);
+  await choosePlace(user, /destination/i, END_PLACE);
+  await chooseOption(user, /travel mode/i, travelMode);
+
+  if (vehicle) {
+    await chooseOption(user, /vehicle type/i, vehicle.type);
+    await chooseOption(user, /tire type/i, vehicle.tires);
+    await chooseOption(user, /drive system/i, vehicle.drive);
+  }
+}
+
+export const submitButton = () => screen.getByRole('button', { name: /find winter-safe route/i });
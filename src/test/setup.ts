@@ -0,0 +1,31 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { installDomPolyfills, mockGeolocation, mockOnline } from './browser';
+import { createGoogleMapsMock } from './googleMaps';
+import { resetSupabaseMock } from './supabaseMock';
+
+vi.mock('@/integrations/supabase/client', async () => ({
+  supabase: (await import('./supabaseMock')).supabaseMock
+}));
+// The Maps script counts as loaded without being fetched
+vi.mock('@react-google-maps/api', async () => ({
+  ...(await import('./reactGoogleMaps')),
+  useLoadScript: () => ({ isLoaded: true, loadError: undefined }),
+  useJsApiLoader: () => ({ isLoaded: true, loadError: undefined })
+}));
+
+installDomPolyfills();
+
+beforeEach(() => {
+  vi.stubGlobal('google', createGoogleMapsMock());
+  mockGeolocation(null);
+  mockOnline(true);
+  localStorage.clear();
+});
+
+afterEach(() => {
+  cleanup();
+  resetSupabaseMock();
+  vi.unstubAllGlobals();
+});
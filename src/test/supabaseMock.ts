@@ -0,0 +1,206 @@
+// In-memory stand-in for the Supabase client, installed for every test by setup.ts.
+// Tables are plain row arrays that any query chain resolves to, database functions (rpc) read
+// the table they query, Storage hands out storage.test URLs, realtime channels receive the changes
+// a test emits with emitRealtimeChange, and edge functions answer from handlers registered with
+// mockFunction. Nobody is signed in unless a test calls signInAs. A function without a handler fails
+// like an unreachable one, so the app's fallbacks are what a test sees unless it says otherwise.
+import { vi } from 'vitest';
+import { FunctionsFetchError } from '@supabase/supabase-js';
+import type { FunctionName, FunctionRequest, FunctionResponse } from '@contracts';
+
+type Row = Record<string, unknown>;
+type FunctionHandler = (body: unknown) => unknown;
+type RealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+type ChangeHandler = (payload: { eventType: RealtimeEvent; table: string; new: Row; old: Row }) => void;
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+// The table each database function returns rows of; their spatial filters are ignored like any other
+const RPC_TABLES: Record<string, string> = {
+  hazards_near: 'hazard_reports',
+  hazards_along_route: 'hazard_reports'
+};
+
+const tables = new Map<string, Row[]>();
+const updates = new Map<string, Row[]>();
+const functionHandlers = new Map<string, FunctionHandler>();
+const subscribedChannels = new Set<RealtimeChannelMock>();
+let signedInUser: { id: string; email: string } | null = null;
+let nextId = 1;
+
+class QueryBuilder implements PromiseLike<QueryResult> {
+  private inserted: Row[] | null = null;
+  private singleRow = false;
+
+  constructor(private readonly table: string) {}
+
+  // Filters and ordering are accepted and ignored; seed only the rows a test expects back
+  select() { return this; }
+  eq() { return this; }
+  neq() { return this; }
+  gt() { return this; }
+  gte() { return this; }
+  lt() { return this; }
+  lte() { return this; }
+  in() { return this; }
+  order() { return this; }
+  limit() { return this; }
+
+  // Updates are recorded for tableUpdates but change no rows; deletes change nothing
+  update(values: Row) {
+    updates.set(this.table, [...(updates.get(this.table) || []), values]);
+    return this;
+  }
+  delete() { return this; }
+
+  upsert(values: Row | Row[]) {
+    return this.insert(values);
+  }
+
+  insert(values: Row | Row[]) {
+    this.inserted = (Array.isArray(values) ? values : [values]).map(value => ({
+      id: `${this.table}-${nextId++}`,
+      created_at: new Date().toISOString(),
+      ...value
+    }));
+    tables.set(this.table, [...this.inserted, ...(tables.get(this.table) || [])]);
+    return this;
+  }
+
+  single() {
+    this.singleRow = true;
+    return this;
+  }
+
+  maybeSingle() {
+    return this.single();
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    const rows = this.inserted ?? tables.get(this.table) ?? [];
+    const result = { data: this.singleRow ? rows[0] ?? null : rows, error: null };
+    return Promise.resolve(result).then(onfulfilled, onrejected);
+  }
+}
+
+class RealtimeChannelMock {
+  readonly listeners: { table: string; handler: ChangeHandler }[] = [];
+
+  constructor(readonly name: string) {}
+
+  on(_type: 'postgres_changes', filter: { table: string }, handler: ChangeHandler) {
+    this.listeners.push({ table: filter.table, handler });
+    return this;
+  }
+
+  subscribe() {
+    subscribedChannels.add(this);
+    return this;
+  }
+}
+
+export const supabaseMock = {
+  from: vi.fn((table: string) => new QueryBuilder(table)),
+  rpc: vi.fn((name: string, _args?: Record<string, unknown>) => {
+    if (!RPC_TABLES[name]) throw new Error(`No table for database function ${name}`);
+    return new QueryBuilder(RPC_TABLES[name]);
+  }),
+  channel: vi.fn((name: string) => new RealtimeChannelMock(name)),
+  removeChannel: vi.fn(async (channel: RealtimeChannelMock) => {
+    subscribedChannels.delete(channel);
+    return 'ok';
+  }),
+  functions: {
+    invoke: vi.fn(async (name: string, options: { body?: unknown } = {}) => {
+      const handler = functionHandlers.get(name);
+      if (!handler) {
+        return { data: null, error: new FunctionsFetchError(`${name} is not mocked`) };
+      }
+      try {
+        return { data: await handler(options.body), error: null };
+      } catch (error) {
+        return { data: null, error: new FunctionsFetchError(error instanceof Error ? error.message : String(error)) };
+      }
+    })
+  },
+  storage: {
+    from: vi.fn((bucket: string) => ({
+      getPublicUrl: (path: string) => ({ data: { publicUrl: `https://storage.test/${bucket}/${path}` } })
+    }))
+  },
+  auth: {
+    getUser: vi.fn(async () => ({ data: { user: signedInUser }, error: null })),
+    getSession: vi.fn(async () => ({ data: { session: signedInUser && { user: signedInUser } }, error: null })),
+    onAuthStateChange: vi.fn(() => ({ data: { subscription: { unsubscribe: vi.fn() } } })),
+    signInWithOtp: vi.fn(async (_credentials: { email: string }) => ({ data: {}, error: null })),
+    signOut: vi.fn(async () => ({ error: null }))
+  }
+};
+
+// Answer calls to an edge function; throw from the handler to fail the call
+export function mockFunction<N extends FunctionName>(
+  name: N,
+  handler: (body: FunctionRequest<N>) => FunctionResponse<N> | Promise<FunctionResponse<N>>
+): void {
+  functionHandlers.set(name, handler as FunctionHandler);
+}
+
+// Start the test with this user signed in
+export function signInAs(user: { id: string; email: string }): void {
+  signedInUser = user;
+}
+
+export function seedTable(table: string, rows: Row[]): void {
+  tables.set(table, rows);
+}
+
+export function tableRows(table: string): Row[] {
+  return tables.get(table) || [];
+}
+
+// Values the app updated rows of the table with, in call order
+export function tableUpdates(table: string): Row[] {
+  return updates.get(table) || [];
+}
+
+// Deliver a row change to every subscribed channel listening to the table; wrap in act()
+export function emitRealtimeChange(table: string, eventType: RealtimeEvent, row: Row): void {
+  const payload = {
+    eventType,
+    table,
+    new: eventType === 'DELETE' ? {} : row,
+    old: eventType === 'DELETE' ? row : { id: row.id }
+  };
+  for (const channel of subscribedChannels) {
+    channel.listeners.filter(listener => listener.table === table).forEach(listener => listener.handler(payload));
+  }
+}
+
+// Bodies the app sent to an edge function, in call order
+export function functionCalls<N extends FunctionName>(name: N): FunctionRequest<N>[] {
+  return supabaseMock.functions.invoke.mock.calls
+    .filter(([calledName]) => calledName === name)
+    .map(([, options]) => options?.body as FunctionRequest<N>);
+}
+
+export function resetSupabaseMock(): void {
+  tables.clear();
+  updates.clear();
+  functionHandlers.clear();
+  subscribedChannels.clear();
+  signedInUser = null;
+  nextId = 1;
+  supabaseMock.from.mockClear();
+  supabaseMock.rpc.mockClear();
+  supabaseMock.channel.mockClear();
+  supabaseMock.removeChannel.mockClear();
+  supabaseMock.functions.invoke.mockClear();
+  supabaseMock.storage.from.mockClear();
+  Object.values(supabaseMock.auth).forEach(method => method.mockClear());
+}
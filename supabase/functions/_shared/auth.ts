@@ -0,0 +1,77 @@
+// Who is calling a function. supabase.functions.invoke sends the user's access token when they
+// are signed in and the anon key otherwise.
+import { getEnv } from './env.ts';
+import { EdgeFunctionError } from './errors.ts';
+import { createAnonClient } from './supabase.ts';
+
+const bearerToken = (req: Request) => req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+
+// Compares every byte, so the time taken says nothing about how much of the key was right
+function sameSecret(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let difference = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    difference |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return difference === 0;
+}
+
+function jwtRole(token: string): string | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.role === 'string' ? payload.role : null;
+  } catch {
+    return null;
+  }
+}
+
+// The signed-in user's id, or null for anonymous callers. Only user tokens are checked with
+// Supabase Auth, so anonymous calls cost no extra request.
+export async function getRequestUserId(req: Request): Promise<string | null> {
+  const token = bearerToken(req);
+  if (!token || jwtRole(token) !== 'authenticated') return null;
+
+  const { data, error } = await createAnonClient().auth.getUser(token);
+  if (error) {
+    console.warn('Could not verify the caller, treating them as anonymous:', error.message);
+    return null;
+  }
+  return data.user?.id ?? null;
+}
+
+// The address a request came from: Cloudflare's header, which the client cannot set, before the
+// proxies' ones
+function clientAddress(req: Request): string | null {
+  return req.headers.get('cf-connecting-ip') ??
+    req.headers.get('x-real-ip') ??
+    req.headers.get('x-forwarded-for')?.split(',')[0].trim() ??
+    null;
+}
+
+// Who to count a vote or sighting as: the signed-in user, or else the address the request came
+// from, since ids an anonymous browser sends are free to make up. Anonymous drivers behind one
+// address count once until they sign in. Addresses are keyed with a server secret so the stored
+// keys can't be turned back into them by trying every address.
+export async function getCallerKey(req: Request, userId: string | null): Promise<string> {
+  if (userId) return userId;
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getEnv('supabaseServiceRoleKey')),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(clientAddress(req) ?? 'unknown'));
+  return 'ip:' + Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// For functions only the pg_cron schedule may run: they act on every driver's data with the
+// service role, so anyone else is turned away before any work is done
+export function requireServiceRole(req: Request): void {
+  const token = bearerToken(req);
+  if (!token || !sameSecret(token, getEnv('supabaseServiceRoleKey'))) {
+    throw new EdgeFunctionError('unauthorized', 'This function only runs on its schedule');
+  }
+}
@@ -0,0 +1,456 @@
+// Request and response schemas for every edge function, shared with the web app.
+// The functions validate against these at runtime; the app imports them (via the `@contracts`
+// alias) for types only. Keep this file free of Deno- and browser-only imports.
+import { z } from 'zod';
+
+const isoTimeSchema = z.string().datetime({ offset: true });
+
+export const safetyScoreSchema = z.enum(['safe', 'caution', 'danger']);
+export const severitySchema = z.enum(['low', 'medium', 'high']);
+// Lifecycle of a hazard report; see the hazard_reports lifecycle migration
+export const hazardStatusSchema = z.enum(['active', 'confirmed', 'disputed', 'resolved', 'expired']);
+
+const latLngSchema = z.object({
+  lat: z.number(),
+  lng: z.number(),
+});
+
+// Errors
+
+export const errorCodeSchema = z.enum([
+  'invalid_json', // Body is not JSON
+  'validation_failed', // Body is JSON but does not match the request schema
+  'missing_config', // A required secret or env var is not set
+  'unauthorized', // The caller may not use this function, e.g. a scheduled one
+  'not_found', // e.g. no route between the given places
+  'conflict', // e.g. a vote on a hazard that is already resolved or expired
+  'upstream_error', // Google, OpenWeather, OpenAI or another function failed
+  'database_error',
+  'internal_error', // Includes responses that do not match their schema
+]);
+
+// Uniform error envelope returned by every edge function: { error: { code, message, details? } }
+export const errorEnvelopeSchema = z.object({
+  error: z.object({
+    code: errorCodeSchema,
+    message: z.string(),
+    details: z.unknown().optional(),
+  }),
+});
+
+// get-weather
+
+export const getWeatherRequestSchema = z.object({
+  city: z.string().min(1).optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+  time: isoTimeSchema.optional(),
+}).refine(body => body.city || (body.lat !== undefined && body.lng !== undefined), {
+  message: 'Either city name or coordinates required',
+});
+
+export const weatherResponseSchema = z.object({
+  name: z.string().optional(),
+  is_forecast: z.boolean(), // Forecast for `valid_at` rather than current conditions
+  valid_at: isoTimeSchema,
+  main: z.object({
+    temp: z.number(),
+    pressure: z.number(),
+    feels_like: z.number().optional(),
+  }),
+  weather: z.array(z.object({
+    main: z.string(),
+    description: z.string(),
+  }).passthrough()),
+  wind: z.object({ speed: z.number() }).passthrough().optional(),
+  snow_depth: z.number(),
+  snow_depth_source: z.string(), // Which provider produced snow_depth
+  snow_depth_observed_at: isoTimeSchema,
+  snow_depth_age_minutes: z.number(),
+});
+
+// analyze-route-safety
+
+// A point sampled along the route, tagged with how far along it is and when we expect to get there
+export const routePointSchema = latLngSchema.extend({
+  distanceMiles: z.number().optional(),
+  etaSeconds: z.number().optional(),
+});
+
+// The form sends empty strings for anything not picked
+export const vehicleInfoSchema = z.object({
+  type: z.enum(['sedan', 'suv', 'truck', '']).optional(),
+  tires: z.enum(['regular', 'snow', '']).optional(),
+  drive: z.enum(['fwd', 'awd', '4wd', '']).optional(),
+});
+
+export const analyzeRouteSafetyRequestSchema = z.object({
+  coordinates: z.array(routePointSchema).min(1), // Where the weather is looked up
+  // The route's Google encoded polyline, which hazards are measured against; the coordinates
+  // are used when it is missing
+  polyline: z.string().optional(),
+  vehicleInfo: vehicleInfoSchema.optional(),
+  travelMode: z.string().default('driving'),
+  departureTime: isoTimeSchema.optional(),
+});
+
+export const routeSegmentSchema = routePointSchema.extend({
+  index: z.number().int(), // Position in the analyzed coordinates
+  arrivalTime: isoTimeSchema, // When the driver is expected to reach this point
+  forecastTime: isoTimeSchema.optional(), // Time of the weather data used for it
+  isForecast: z.boolean(),
+  weatherCached: z.boolean(),
+  snowDepth: z.number(),
+  safetyScore: safetyScoreSchema,
+  temperature: z.number(),
+  conditions: z.string(),
+  hazardImpact: z.number(),
+  hazardIds: z.array(z.string()),
+});
+
+// A route point the weather lookup failed for
+export const failedRouteSegmentSchema = latLngSchema.extend({
+  index: z.number().int(),
+  distanceMiles: z.number().optional(),
+  arrivalTime: isoTimeSchema,
+  error: z.string(),
+});
+
+// A reported hazard that influenced the route's safety verdict
+export const contributingHazardSchema = latLngSchema.extend({
+  id: z.string(),
+  hazardType: z.string(),
+  title: z.string(),
+  severity: z.string(),
+  segmentIndex: z.number().int(),
+  distanceFromRouteMiles: z.number(),
+  distanceFromStartMiles: z.number(),
+  ageHours: z.number(),
+  weight: z.number(),
+});
+
+export const routeSafetyAnalysisSchema = z.object({
+  routeSegments: z.array(routeSegmentSchema),
+  failedSegments: z.array(failedRouteSegmentSchema),
+  avgSnowDepth: z.number(),
+  overallSafety: safetyScoreSchema,
+  vehicleSafetyMessage: z.string(),
+  recommendation: z.string(),
+  contributingHazards: z.array(contributingHazardSchema),
+  departureTime: isoTimeSchema,
+});
+
+// get-route
+
+export const getRouteRequestSchema = z.object({
+  startLocation: z.string().min(1),
+  endLocation: z.string().min(1),
+  travelMode: z.string().default('driving'),
+  vehicleInfo: vehicleInfoSchema.optional(),
+  alternatives: z.boolean().default(true),
+  sampleIntervalMiles: z.number().positive().optional(),
+  departureTime: isoTimeSchema.optional(),
+  // Also analyze the recommended route for a range of departure times
+  departureWindow: z.object({
+    startTime: isoTimeSchema.optional(),
+    hours: z.number().positive().optional(),
+    intervalMinutes: z.number().positive().optional(),
+  }).optional(),
+});
+
+export const routeStepSchema = z.object({
+  instruction: z.string(),
+  distance: z.string(),
+  duration: z.string(),
+  maneuver: z.string(),
+  // Where the step begins, for following it in navigation; missing from routes saved before it was sent
+  startLocation: latLngSchema.optional(),
+});
+
+export const routeSampleSchema = routePointSchema.required();
+
+// One analyzed departure time in a "when should I leave?" timeline
+export const departureSlotSchema = z.object({
+  departureTime: isoTimeSchema,
+  overallSafety: safetyScoreSchema.nullable(), // null when the analysis for this slot failed
+  avgSnowDepth: z.number().nullable(),
+  maxSnowDepth: z.number().nullable(),
+  hazardImpact: z.number().nullable(),
+});
+
+export const departureTimelineSchema = z.object({
+  slots: z.array(departureSlotSchema),
+  recommendedWindow: z.object({
+    start: isoTimeSchema,
+    end: isoTimeSchema, // Departure time of the last slot in the window
+    overallSafety: safetyScoreSchema,
+  }).nullable(),
+});
+
+// One of the alternative routes, ranked safest first
+export const routeOptionSchema = z.object({
+  index: z.number().int(),
+  summary: z.string(),
+  distance: z.string(),
+  duration: z.string(),
+  distanceMeters: z.number(),
+  durationSeconds: z.number(),
+  coordinates: z.array(routeSampleSchema),
+  polyline: z.string(),
+  steps: z.array(routeStepSchema),
+  // null when analyze-route-safety failed for this route
+  safety: routeSafetyAnalysisSchema.nullable(),
+  snowExposureMiles: z.number().nullable(),
+  hazardCount: z.number().int().nullable(),
+  hazardImpact: z.number().nullable(),
+  rank: z.number().int(),
+  recommended: z.boolean(),
+});
+
+export const getRouteResponseSchema = z.object({
+  route: routeOptionSchema, // Recommended route, for callers that only need one
+  routes: z.array(routeOptionSchema).min(1),
+  recommendedIndex: z.number().int(),
+  departureTime: isoTimeSchema,
+  departureTimeline: departureTimelineSchema.nullable(),
+});
+
+// analyze-hazard
+
+const knownLocationSchema = latLngSchema.extend({
+  address: z.string().optional(),
+  timestamp: z.number().optional(),
+});
+
+export const analyzeHazardRequestSchema = z.object({
+  // 'reverse-geocode-only' turns lastKnownLocation into an address instead of analyzing a report
+  userInput: z.string().min(1),
+  locationContext: z.object({
+    lastKnownLocation: knownLocationSchema.optional(),
+    routeStartLocation: knownLocationSchema.optional(),
+    routeDestinationLocation: knownLocationSchema.optional(),
+  }).optional(),
+});
+
+export const hazardCandidateSchema = z.object({
+  hazardType: z.string(),
+  title: z.string(),
+  severity: severitySchema,
+  confidence: z.number().min(0).max(1),
+  matchedTerms: z.array(z.string()),
+});
+
+export const hazardAnalysisSchema = z.object({
+  title: z.string(),
+  hazardType: z.string(),
+  description: z.string(),
+  location: z.object({
+    address: z.string(),
+    coordinates: latLngSchema,
+    confidence: z.enum(['high', 'medium', 'low']),
+    source: z.string().optional(),
+    reasoning: z.string().optional(),
+  }),
+  severity: severitySchema,
+  needsLocationConfirmation: z.boolean(),
+  aiReasoning: z.string().optional(),
+  // Ranked alternatives from the hazard classifier so the reporter can pick a different type
+  candidates: z.array(hazardCandidateSchema),
+  taxonomyVersion: z.string(),
+});
+
+// Strict so that a malformed analysis is not accepted as a reverse geocode result
+export const reverseGeocodeResponseSchema = z.object({
+  reverseGeocodeResult: z.string().optional(),
+}).strict();
+
+export const analyzeHazardResponseSchema = z.union([hazardAnalysisSchema, reverseGeocodeResponseSchema]);
+
+// submit-hazard
+
+export const MAX_HAZARD_PHOTOS = 4;
+
+// A photo as the app sends it: re-encoded as JPEG in the browser, which drops its EXIF
+export const hazardPhotoUploadSchema = z.object({
+  image: z.string().min(1), // Base64 JPEG, at most 1600 px on its longer side
+  thumbnail: z.string().min(1), // Base64 JPEG
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+export const submitHazardRequestSchema = z.object({
+  hazardType: z.string().min(1),
+  title: z.string().optional(),
+  description: z.string().min(1),
+  severity: severitySchema,
+  location: latLngSchema.extend({
+    address: z.string().optional(),
+    confidence: z.enum(['high', 'medium', 'low']).optional(),
+    source: z.string().optional(),
+  }).optional(), // Reports without coordinates are never merged
+  aiReasoning: z.string().optional(),
+  photos: z.array(hazardPhotoUploadSchema).max(MAX_HAZARD_PHOTOS).optional(),
+});
+
+// A hazard_reports row, as the app lists it
+export const hazardReportSchema = z.object({
+  id: z.string(),
+  hazard_type: z.string(),
+  title: z.string().nullable(),
+  description: z.string(),
+  severity: severitySchema,
+  status: hazardStatusSchema,
+  location_address: z.string().nullable(),
+  location_lat: z.number().nullable(),
+  location_lng: z.number().nullable(),
+  report_count: z.number().int(), // Drivers who reported it, including merged duplicates
+  confidence: z.number(),
+  still_there_count: z.number().int(),
+  gone_count: z.number().int(),
+  created_at: isoTimeSchema,
+  last_seen_at: isoTimeSchema,
+  expires_at: isoTimeSchema,
+}).passthrough();
+
+// A hazard_report_media row; paths are in the hazard-photos bucket
+export const hazardMediaSchema = z.object({
+  id: z.string(),
+  hazard_id: z.string(),
+  sighting_id: z.string().nullable(),
+  storage_path: z.string(),
+  thumbnail_path: z.string(),
+  content_type: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+  created_at: isoTimeSchema,
+}).passthrough();
+
+export const submitHazardResponseSchema = z.object({
+  hazard: hazardReportSchema,
+  // True when the report was attached to an existing hazard as a sighting
+  merged: z.boolean(),
+  sightingId: z.string().nullable(),
+  distanceMiles: z.number().nullable(), // From the hazard it was merged into
+  media: z.array(hazardMediaSchema), // Photos stored with this report
+});
+
+// cleanup-old-hazards
+
+// Run from a schedule, so the body is usually empty
+export const cleanupOldHazardsRequestSchema = z.object({}).optional();
+
+// Reports past their expiry are marked expired and kept, not deleted; expired cached weather is deleted
+export const cleanupOldHazardsResponseSchema = z.object({
+  success: z.literal(true),
+  expiredCount: z.number().int(),
+  expiredByType: z.record(z.number().int()),
+  prunedWeatherCount: z.number().int(),
+  cleanupTimestamp: isoTimeSchema,
+  message: z.string(),
+});
+
+// check-commutes
+
+// Run from a schedule, so the body is usually empty
+export const checkCommutesRequestSchema = z.object({
+  // Departures checked per run, soonest first; the rest wait for the next run
+  maxChecks: z.number().int().positive().optional(),
+}).optional();
+
+// One commute departure checked ahead of time
+export const commuteCheckSchema = z.object({
+  commuteId: z.string(),
+  departureAt: isoTimeSchema,
+  overallSafety: safetyScoreSchema.nullable(), // null when the route or its analysis failed
+  usualSafety: safetyScoreSchema, // What the commute's recent checks usually said
+  worsened: z.boolean(), // overallSafety is caution or danger and worse than usual
+});
+
+export const checkCommutesResponseSchema = z.object({
+  success: z.literal(true),
+  checkedCount: z.number().int(),
+  worsenedCount: z.number().int(),
+  deferredCount: z.number().int(), // Due but left for the next run
+  checks: z.array(commuteCheckSchema),
+  checkTimestamp: isoTimeSchema,
+});
+
+// dispatch-notifications
+
+// Run from a schedule, so the body is usually empty
+export const dispatchNotificationsRequestSchema = z.object({}).optional();
+
+export const dispatchNotificationsResponseSchema = z.object({
+  success: z.literal(true),
+  sentCount: z.number().int(),
+  heldCount: z.number().int(), // Waiting for the recipient's quiet hours to end
+  droppedCount: z.number().int(), // Too late to be useful, or nowhere to send them
+  failedCount: z.number().int(), // Retried on the next run
+  removedSubscriptions: z.number().int(), // Browsers the push service says are gone
+  dispatchTimestamp: isoTimeSchema,
+});
+
+// vote-hazard
+
+export const hazardVoteSchema = z.enum(['still_there', 'gone']);
+
+export const voteHazardRequestSchema = z.object({
+  hazardId: z.string().uuid(),
+  vote: hazardVoteSchema,
+});
+
+// The hazard after the vote
+export const voteHazardResponseSchema = z.object({
+  hazardId: z.string(),
+  status: hazardStatusSchema,
+  stillThereCount: z.number().int(),
+  goneCount: z.number().int(),
+  lastSeenAt: isoTimeSchema,
+  expiresAt: isoTimeSchema,
+  resolvedAt: isoTimeSchema.nullable(),
+});
+
+export const functionContracts = {
+  'get-weather': { request: getWeatherRequestSchema, response: weatherResponseSchema },
+  'analyze-route-safety': { request: analyzeRouteSafetyRequestSchema, response: routeSafetyAnalysisSchema },
+  'get-route': { request: getRouteRequestSchema, response: getRouteResponseSchema },
+  'analyze-hazard': { request: analyzeHazardRequestSchema, response: analyzeHazardResponseSchema },
+  'cleanup-old-hazards': { request: cleanupOldHazardsRequestSchema, response: cleanupOldHazardsResponseSchema },
+  'check-commutes': { request: checkCommutesRequestSchema, response: checkCommutesResponseSchema },
+  'dispatch-notifications': { request: dispatchNotificationsRequestSchema, response: dispatchNotificationsResponseSchema },
+  'vote-hazard': { request: voteHazardRequestSchema, response: voteHazardResponseSchema },
+  'submit-hazard': { request: submitHazardRequestSchema, response: submitHazardResponseSchema },
+};
+
+export type FunctionName = keyof typeof functionContracts;
+// What callers send (defaults not yet applied) and what the handler receives after validation
+export type FunctionRequest<N extends FunctionName> = z.input<(typeof functionContracts)[N]['request']>;
+export type FunctionBody<N extends FunctionName> = z.output<(typeof functionContracts)[N]['request']>;
+export type FunctionResponse<N extends FunctionName> = z.output<(typeof functionContracts)[N]['response']>;
+
+export type ErrorCode = z.infer<typeof errorCodeSchema>;
+export type ErrorEnvelope = z.infer<typeof errorEnvelopeSchema>;
+export type SafetyScore = z.infer<typeof safetyScoreSchema>;
+export type WeatherResponse = z.infer<typeof weatherResponseSchema>;
+export type RoutePoint = z.infer<typeof routePointSchema>;
+export type VehicleInfo = z.infer<typeof vehicleInfoSchema>;
+export type RouteSegment = z.infer<typeof routeSegmentSchema>;
+export type FailedRouteSegment = z.infer<typeof failedRouteSegmentSchema>;
+export type ContributingHazard = z.infer<typeof contributingHazardSchema>;
+export type RouteSafetyAnalysis = z.infer<typeof routeSafetyAnalysisSchema>;
+export type RouteStep = z.infer<typeof routeStepSchema>;
+export type RouteSample = z.infer<typeof routeSampleSchema>;
+export type DepartureSlot = z.infer<typeof departureSlotSchema>;
+export type DepartureTimeline = z.infer<typeof departureTimelineSchema>;
+export type RouteOption = z.infer<typeof routeOptionSchema>;
+export type GetRouteResponse = z.infer<typeof getRouteResponseSchema>;
+export type HazardCandidate = z.infer<typeof hazardCandidateSchema>;
+export type HazardAnalysis = z.infer<typeof hazardAnalysisSchema>;
+export type HazardStatus = z.infer<typeof hazardStatusSchema>;
+export type HazardReport = z.infer<typeof hazardReportSchema>;
+export type SubmitHazardResponse = z.infer<typeof submitHazardResponseSchema>;
+export type HazardPhotoUpload = z.infer<typeof hazardPhotoUploadSchema>;
+export type HazardMedia = z.infer<typeof hazardMediaSchema>;
+export type HazardVote = z.infer<typeof hazardVoteSchema>;
+export type VoteHazardResponse = z.infer<typeof voteHazardResponseSchema>;
+export type CommuteCheck = z.infer<typeof commuteCheckSchema>;
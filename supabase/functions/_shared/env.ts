@@ -0,0 +1,31 @@
+// Secrets and env vars used by the edge functions, in one place
+import { EdgeFunctionError } from './errors.ts';
+
+const ENV_NAMES = {
+  supabaseUrl: 'SUPABASE_URL',
+  supabaseAnonKey: 'SUPABASE_ANON_KEY',
+  supabaseServiceRoleKey: 'SUPABASE_SERVICE_ROLE_KEY',
+  googleMapsApiKey: 'GOOGLE_MAPS_API_KEY',
+  openWeatherApiKey: 'OPENWEATHER_API_KEY',
+  openAiApiKey: 'OPENAI_API_KEY',
+  hazardClassifier: 'HAZARD_CLASSIFIER',
+  hazardClassifierModel: 'HAZARD_CLASSIFIER_MODEL',
+  vapidPublicKey: 'VAPID_PUBLIC_KEY',
+  vapidPrivateKey: 'VAPID_PRIVATE_KEY',
+  vapidSubject: 'VAPID_SUBJECT',
+} as const;
+
+export type EnvName = keyof typeof ENV_NAMES;
+
+export function getOptionalEnv(name: EnvName): string | undefined {
+  return Deno.env.get(ENV_NAMES[name]) || undefined;
+}
+
+// Throws a `missing_config` error naming the variable when it is not set
+export function getEnv(name: EnvName): string {
+  const value = getOptionalEnv(name);
+  if (!value) {
+    throw new EdgeFunctionError('missing_config', `${ENV_NAMES[name]} is not configured`);
+  }
+  return value;
+}
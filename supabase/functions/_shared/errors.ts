@@ -0,0 +1,43 @@
+// Uniform error envelope returned by every edge function: { error: { code, message, details? } }
+// The codes and envelope shape are defined in contracts.ts so the app sees the same list.
+import type { ErrorCode, ErrorEnvelope } from './contracts.ts';
+
+export type { ErrorCode, ErrorEnvelope };
+
+const STATUS_BY_CODE: Record<ErrorCode, number> = {
+  invalid_json: 400,
+  validation_failed: 400,
+  missing_config: 500,
+  unauthorized: 401,
+  not_found: 404,
+  conflict: 409,
+  upstream_error: 502,
+  database_error: 500,
+  internal_error: 500,
+};
+
+export class EdgeFunctionError extends Error {
+  constructor(readonly code: ErrorCode, message: string, readonly details?: unknown) {
+    super(message);
+    this.name = 'EdgeFunctionError';
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+// Anything thrown that is not an EdgeFunctionError is reported as an internal error
+export function toErrorEnvelope(error: unknown): { status: number; body: ErrorEnvelope } {
+  if (error instanceof EdgeFunctionError) {
+    return {
+      status: error.status,
+      body: { error: { code: error.code, message: error.message, ...(error.details !== undefined && { details: error.details }) } },
+    };
+  }
+
+  return {
+    status: STATUS_BY_CODE.internal_error,
+    body: { error: { code: 'internal_error', message: error instanceof Error ? error.message : String(error) } },
+  };
+}
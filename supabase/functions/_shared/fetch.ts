@@ -0,0 +1,17 @@
+// Outbound HTTP for the edge functions. Calls to Google, OpenWeather, Open-Meteo, OpenAI, push
+// services and Supabase itself go through `httpFetch` so the test harness can answer them from fixtures.
+
+export type Fetcher = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+let activeFetcher: Fetcher = (input, init) => fetch(input, init);
+
+export const httpFetch: Fetcher = (input, init) => activeFetcher(input, init);
+
+// Route outbound requests through `fetcher`; returns a function that restores the previous one
+export function setFetcher(fetcher: Fetcher): () => void {
+  const previous = activeFetcher;
+  activeFetcher = fetcher;
+  return () => {
+    activeFetcher = previous;
+  };
+}
@@ -0,0 +1,128 @@
+// Geometry helpers for routes and hazards (distances in miles), used by the edge functions and,
+// through src/lib/geo.ts, the app
+
+export interface LatLngPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteProjection {
+  distanceFromRouteMiles: number;
+  distanceAlongRouteMiles: number;
+  point: LatLngPoint; // The closest point on the route
+  segment: number; // Index of the path segment (coordinate i to i+1) it is on
+}
+
+const EARTH_RADIUS_MILES = 3959;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+export function haversineMiles(a: LatLngPoint, b: LatLngPoint): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+// Decode a Google encoded polyline (https://developers.google.com/maps/documentation/utilities/polylinealgorithm)
+export function decodePolyline(encoded: string): LatLngPoint[] {
+  const points: LatLngPoint[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  while (index < encoded.length) {
+    for (const axis of ['lat', 'lng'] as const) {
+      let result = 0;
+      let shift = 0;
+      let byte: number;
+      do {
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20 && index < encoded.length);
+      const delta = (result & 1) ? ~(result >> 1) : (result >> 1);
+      if (axis === 'lat') lat += delta; else lng += delta;
+    }
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+
+  return points;
+}
+
+export function encodePolyline(points: LatLngPoint[]): string {
+  let previousLat = 0;
+  let previousLng = 0;
+  let encoded = '';
+
+  const encodeValue = (value: number) => {
+    let shifted = value < 0 ? ~(value << 1) : (value << 1);
+    let chunk = '';
+    while (shifted >= 0x20) {
+      chunk += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+      shifted >>= 5;
+    }
+    return chunk + String.fromCharCode(shifted + 63);
+  };
+
+  for (const point of points) {
+    const lat = Math.round(point.lat * 1e5);
+    const lng = Math.round(point.lng * 1e5);
+    encoded += encodeValue(lat - previousLat) + encodeValue(lng - previousLng);
+    previousLat = lat;
+    previousLng = lng;
+  }
+
+  return encoded;
+}
+
+// Closest point on the route to `point`: how far off the route it is and how far along the route it sits.
+// Uses a local equirectangular projection per segment, which is accurate at corridor scale.
+export function projectOntoRoute(point: LatLngPoint, path: LatLngPoint[]): RouteProjection {
+  if (path.length === 0) {
+    return { distanceFromRouteMiles: Infinity, distanceAlongRouteMiles: 0, point, segment: 0 };
+  }
+  if (path.length === 1) {
+    return { distanceFromRouteMiles: haversineMiles(point, path[0]), distanceAlongRouteMiles: 0, point: path[0], segment: 0 };
+  }
+
+  let best: RouteProjection = { distanceFromRouteMiles: Infinity, distanceAlongRouteMiles: 0, point, segment: 0 };
+  let travelled = 0;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const start = path[i];
+    const end = path[i + 1];
+    const cosLat = Math.cos(toRadians(start.lat));
+    const dx = (end.lng - start.lng) * cosLat;
+    const dy = end.lat - start.lat;
+    const px = (point.lng - start.lng) * cosLat;
+    const py = point.lat - start.lat;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.min(Math.max((px * dx + py * dy) / lengthSquared, 0), 1);
+
+    const closest = { lat: start.lat + t * (end.lat - start.lat), lng: start.lng + t * (end.lng - start.lng) };
+    const segmentLength = haversineMiles(start, end);
+    const distanceFromRouteMiles = haversineMiles(point, closest);
+
+    if (distanceFromRouteMiles < best.distanceFromRouteMiles) {
+      best = { distanceFromRouteMiles, distanceAlongRouteMiles: travelled + t * segmentLength, point: closest, segment: i };
+    }
+    travelled += segmentLength;
+  }
+
+  return best;
+}
+
+export function getBounds(path: LatLngPoint[], paddingMiles = 0): { north: number; south: number; east: number; west: number } {
+  const latPadding = paddingMiles / 69;
+  const midLat = path.reduce((sum, point) => sum + point.lat, 0) / Math.max(path.length, 1);
+  const lngPadding = paddingMiles / (69 * Math.max(Math.cos(toRadians(midLat)), 0.01));
+
+  return {
+    north: Math.max(...path.map(point => point.lat)) + latPadding,
+    south: Math.min(...path.map(point => point.lat)) - latPadding,
+    east: Math.max(...path.map(point => point.lng)) + lngPadding,
+    west: Math.min(...path.map(point => point.lng)) - lngPadding
+  };
+}
@@ -0,0 +1,29 @@
+// Which hazard reports are still shown, and how long each type stays up (hazard_type_ttls)
+import type { HazardStatus } from './contracts.ts';
+import type { SupabaseClient } from './supabase.ts';
+
+export type { HazardStatus };
+
+const DEFAULT_TTL_HOURS = 24;
+
+export const LIVE_HAZARD_STATUSES: HazardStatus[] = ['active', 'confirmed', 'disputed'];
+
+export function isLiveHazard(hazard: { status: string; expires_at: string }, now = new Date()): boolean {
+  return LIVE_HAZARD_STATUSES.includes(hazard.status as HazardStatus) && new Date(hazard.expires_at) > now;
+}
+
+// The type's lifetime, falling back to the 'unknown' row
+export async function loadTtlHours(supabase: SupabaseClient, hazardType: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('hazard_type_ttls')
+    .select('hazard_type, ttl_hours')
+    .in('hazard_type', [hazardType, 'unknown']);
+
+  if (error) {
+    console.error('Could not load hazard lifetimes:', error);
+    return DEFAULT_TTL_HOURS;
+  }
+
+  const ttl = data?.find(row => row.hazard_type === hazardType) ?? data?.find(row => row.hazard_type === 'unknown');
+  return ttl?.ttl_hours ?? DEFAULT_TTL_HOURS;
+}
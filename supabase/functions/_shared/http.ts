@@ -0,0 +1,79 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import type { ZodIssue, ZodType, ZodTypeDef } from 'zod';
+import { FunctionBody, functionContracts, FunctionName, FunctionResponse } from './contracts.ts';
+import { corsHeaders } from './cors.ts';
+import { EdgeFunctionError, toErrorEnvelope } from './errors.ts';
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const describeIssues = (issues: ZodIssue[]) =>
+  issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+
+// Parse the request body and check it against `schema`, throwing the matching error code on failure.
+// An empty body is passed to the schema as undefined.
+export async function parseJson<T>(req: Request, schema: ZodType<T, ZodTypeDef, unknown>): Promise<T> {
+  let body: unknown;
+  try {
+    const text = await req.text();
+    body = text.trim() ? JSON.parse(text) : undefined;
+  } catch {
+    throw new EdgeFunctionError('invalid_json', 'Request body must be valid JSON');
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new EdgeFunctionError(
+      'validation_failed',
+      'Request body is invalid',
+      describeIssues(result.error.issues)
+    );
+  }
+  return result.data;
+}
+
+export type RequestHandler = (req: Request) => Promise<Response>;
+
+// Build a function's request handler under its contract (see contracts.ts): answers CORS
+// preflight, validates the body before calling `handler` and its result before sending it, and
+// turns anything thrown into the error envelope. Kept apart from serving so tests can call it.
+export function createHandler<N extends FunctionName>(
+  name: N,
+  handler: (body: FunctionBody<N>, req: Request) => Promise<FunctionResponse<N>>
+): RequestHandler {
+  const contract = functionContracts[name];
+
+  return async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const body = await parseJson(req, contract.request as ZodType<FunctionBody<N>, ZodTypeDef, unknown>);
+      const result = await handler(body, req);
+
+      // Send the handler's object as is; the schema only checks it
+      const checked = contract.response.safeParse(result);
+      if (!checked.success) {
+        throw new EdgeFunctionError(
+          'internal_error',
+          `${name} produced a response that does not match its contract`,
+          describeIssues(checked.error.issues)
+        );
+      }
+      return jsonResponse(result);
+    } catch (error) {
+      console.error(`❌ Error in ${name} function:`, error);
+      const { status, body } = toErrorEnvelope(error);
+      return jsonResponse(body, status);
+    }
+  };
+}
+
+export function serveFunction(handler: RequestHandler): void {
+  serve(handler);
+}
@@ -0,0 +1,24 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.2';
+import { getEnv, getOptionalEnv } from './env.ts';
+import { httpFetch } from './fetch.ts';
+
+export type { SupabaseClient };
+
+// Database and function calls share the functions' outbound fetcher
+const clientOptions = { global: { fetch: httpFetch } };
+
+// Acts with the caller's (anonymous) privileges, e.g. to invoke other functions
+export function createAnonClient(): SupabaseClient {
+  return createClient(getEnv('supabaseUrl'), getEnv('supabaseAnonKey'), clientOptions);
+}
+
+// Bypasses RLS; for tables only the functions themselves may write
+export function createServiceClient(): SupabaseClient {
+  return createClient(getEnv('supabaseUrl'), getEnv('supabaseServiceRoleKey'), clientOptions);
+}
+
+// Service client when the key is available, otherwise null so callers can degrade gracefully
+export function createOptionalServiceClient(): SupabaseClient | null {
+  const serviceRoleKey = getOptionalEnv('supabaseServiceRoleKey');
+  return serviceRoleKey ? createClient(getEnv('supabaseUrl'), serviceRoleKey, clientOptions) : null;
+}
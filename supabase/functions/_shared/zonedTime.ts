@@ -0,0 +1,42 @@
+// Wall-clock times in IANA time zones, for schedules people set in their own local time
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// The calendar date and time an instant shows in a time zone
+export function zonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(candidate => candidate.type === type)?.value);
+
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute'), second: part('second') };
+}
+
+// How far the time zone's clocks are ahead of UTC at an instant
+function offsetMs(instant: Date, timeZone: string): number {
+  const local = zonedParts(instant, timeZone);
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return localAsUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The instant a wall-clock time happens in a time zone. The offset is looked up again at the
+// result in case a daylight saving change falls between the two.
+export function zonedTimeToUtc(date: { year: number; month: number; day: number }, hour: number, minute: number, timeZone: string): Date {
+  const asUtc = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const guess = asUtc - offsetMs(new Date(asUtc), timeZone);
+  return new Date(asUtc - offsetMs(new Date(guess), timeZone));
+}
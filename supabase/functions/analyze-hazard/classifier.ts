@@ -0,0 +1,295 @@
+import { getOptionalEnv } from '../_shared/env.ts';
+import { httpFetch } from '../_shared/fetch.ts';
+import {
+  HAZARD_TAXONOMY,
+  HAZARD_TAXONOMY_VERSION,
+  HazardSeverity,
+  HazardTypeDefinition,
+  NEGATION_TERMS,
+  SEVERITY_DEESCALATORS,
+  SEVERITY_ESCALATORS,
+  UNKNOWN_HAZARD,
+} from './taxonomy.ts';
+
+export interface HazardCandidate {
+  hazardType: string;
+  title: string;
+  severity: HazardSeverity;
+  confidence: number; // 0-1
+  matchedTerms: string[];
+}
+
+export interface HazardClassification {
+  hazardType: string;
+  title: string;
+  severity: HazardSeverity;
+  confidence: number;
+  candidates: HazardCandidate[]; // Ranked, most likely first
+  taxonomyVersion: string;
+  classifier: string;
+}
+
+// Any classifier (keyword rules, LLM, ...) must return ranked candidates from the same taxonomy
+export interface HazardClassifier {
+  readonly name: string;
+  classify(description: string): Promise<HazardClassification>;
+}
+
+const SEVERITY_ORDER: HazardSeverity[] = ['low', 'medium', 'high'];
+const MIN_CANDIDATE_CONFIDENCE = 0.3;
+// Secondary hazards at or above this confidence can raise the overall severity ("black ice and a crash")
+const MULTI_HAZARD_CONFIDENCE = 0.6;
+const NEGATION_WINDOW = 3;
+// Words that end a negation's scope: "not ice but a pothole", "no ice, just a pothole"
+const NEGATION_BREAKERS = ['but', 'just', 'only', 'and', 'though', 'however'];
+// Words after a term that mean the hazard is no longer there: "the crash has cleared"
+const POST_NEGATION_TERMS = ['gone', 'cleared', 'fixed', 'removed', 'melted'];
+
+function shiftSeverity(severity: HazardSeverity, steps: number): HazardSeverity {
+  const index = Math.min(Math.max(SEVERITY_ORDER.indexOf(severity) + steps, 0), SEVERITY_ORDER.length - 1);
+  return SEVERITY_ORDER[index];
+}
+
+export function maxSeverity(a: HazardSeverity, b: HazardSeverity): HazardSeverity {
+  return SEVERITY_ORDER.indexOf(a) >= SEVERITY_ORDER.indexOf(b) ? a : b;
+}
+
+// Split text into clauses of normalized tokens. Punctuation ends a clause.
+function tokenizeClauses(text: string): string[][] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .split(/[.,;:!?\n()]+/)
+    .map(clause => clause.split(/[^a-z0-9*-]+/).filter(Boolean))
+    .filter(clause => clause.length > 0);
+}
+
+// A taxonomy phrase normalized the same way as the text it is matched against ("can't" -> "cant")
+function phraseTokens(phrase: string): string[] {
+  return tokenizeClauses(phrase).flat();
+}
+
+function wordMatches(pattern: string, token: string): boolean {
+  return pattern.endsWith('*') ? token.startsWith(pattern.slice(0, -1)) : token === pattern;
+}
+
+// Returns the start index of every occurrence of the phrase in the clause
+function findPhrase(clause: string[], phrase: string[]): number[] {
+  const starts: number[] = [];
+  for (let i = 0; i + phrase.length <= clause.length; i++) {
+    if (phrase.every((word, offset) => wordMatches(word, clause[i + offset]))) {
+      starts.push(i);
+    }
+  }
+  return starts;
+}
+
+function isNegated(clause: string[], start: number, end: number): boolean {
+  for (let i = start - 1; i >= Math.max(0, start - NEGATION_WINDOW); i--) {
+    if (NEGATION_BREAKERS.includes(clause[i])) break;
+    if (NEGATION_TERMS.includes(clause[i])) return true;
+  }
+  for (let i = end; i < Math.min(clause.length, end + NEGATION_WINDOW); i++) {
+    if (NEGATION_BREAKERS.includes(clause[i])) break;
+    if (POST_NEGATION_TERMS.includes(clause[i])) return true;
+  }
+  return false;
+}
+
+function countModifiers(clauses: string[][], modifiers: string[]): number {
+  let count = 0;
+  for (const modifier of modifiers) {
+    const phrase = phraseTokens(modifier);
+    for (const clause of clauses) {
+      count += findPhrase(clause, phrase).length;
+    }
+  }
+  return count;
+}
+
+function scoreType(definition: HazardTypeDefinition, clauses: string[][]): { score: number; matchedTerms: string[]; title: string } {
+  let score = 0;
+  let bestTermWeight = 0;
+  let title = definition.title;
+  const matchedTerms: string[] = [];
+
+  // Longer phrases first so "black ice" wins over "ice" for the same words
+  const terms = [...definition.terms].sort((a, b) => phraseTokens(b.phrase).length - phraseTokens(a.phrase).length);
+
+  clauses.forEach(clause => {
+    const consumed = new Set<number>();
+    for (const term of terms) {
+      const phrase = phraseTokens(term.phrase);
+      for (const start of findPhrase(clause, phrase)) {
+        const positions = phrase.map((_, offset) => start + offset);
+        if (positions.some(position => consumed.has(position))) continue;
+        positions.forEach(position => consumed.add(position));
+
+        if (isNegated(clause, start, start + phrase.length)) continue;
+
+        score += term.weight;
+        matchedTerms.push(term.phrase.replace(/\*/g, ''));
+        if (term.weight > bestTermWeight) {
+          bestTermWeight = term.weight;
+          title = term.title || definition.title;
+        }
+      }
+    }
+  });
+
+  return { score, matchedTerms, title };
+}
+
+function unknownClassification(classifier: string): HazardClassification {
+  return {
+    hazardType: UNKNOWN_HAZARD.hazardType,
+    title: UNKNOWN_HAZARD.title,
+    severity: UNKNOWN_HAZARD.defaultSeverity,
+    confidence: 0,
+    candidates: [],
+    taxonomyVersion: HAZARD_TAXONOMY_VERSION,
+    classifier,
+  };
+}
+
+// Build the final classification from ranked candidates. The primary hazard is the top candidate,
+// but a confident secondary hazard can raise the overall severity.
+export function summarizeCandidates(candidates: HazardCandidate[], classifier: string): HazardClassification {
+  if (candidates.length === 0) {
+    return unknownClassification(classifier);
+  }
+
+  const [primary] = candidates;
+  const severity = candidates
+    .filter(candidate => candidate.confidence >= MULTI_HAZARD_CONFIDENCE)
+    .reduce((current, candidate) => maxSeverity(current, candidate.severity), primary.severity);
+
+  return {
+    hazardType: primary.hazardType,
+    title: primary.title,
+    severity,
+    confidence: primary.confidence,
+    candidates,
+    taxonomyVersion: HAZARD_TAXONOMY_VERSION,
+    classifier,
+  };
+}
+
+// Rule-based classifier scoring every taxonomy type with synonyms, negation and severity modifiers
+export class KeywordHazardClassifier implements HazardClassifier {
+  readonly name = 'keyword';
+
+  classifySync(description: string): HazardClassification {
+    const clauses = tokenizeClauses(description);
+    const severityShift = Math.sign(
+      countModifiers(clauses, SEVERITY_ESCALATORS) - countModifiers(clauses, SEVERITY_DEESCALATORS)
+    );
+
+    const candidates: HazardCandidate[] = HAZARD_TAXONOMY
+      .map(definition => {
+        const { score, matchedTerms, title } = scoreType(definition, clauses);
+        return {
+          hazardType: definition.hazardType,
+          title,
+          severity: shiftSeverity(definition.defaultSeverity, severityShift),
+          confidence: Number((1 - Math.exp(-score)).toFixed(3)),
+          matchedTerms,
+        };
+      })
+      .filter(candidate => candidate.confidence >= MIN_CANDIDATE_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    return summarizeCandidates(candidates, this.name);
+  }
+
+  classify(description: string): Promise<HazardClassification> {
+    return Promise.resolve(this.classifySync(description));
+  }
+}
+
+// LLM-backed classifier constrained to the same taxonomy. Falls back to the given classifier on any failure.
+export class OpenAIHazardClassifier implements HazardClassifier {
+  readonly name = 'llm';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly fallback: HazardClassifier,
+    private readonly model = 'gpt-4o-mini'
+  ) {}
+
+  async classify(description: string): Promise<HazardClassification> {
+    try {
+      const typeList = HAZARD_TAXONOMY
+        .map(definition => `- ${definition.hazardType} (${definition.title}, usually ${definition.defaultSeverity} severity)`)
+        .join('\n');
+
+      const response = await httpFetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          temperature: 0,
+          response_format: { type: 'json_object' },
+          messages: [
+            {
+              role: 'system',
+              content: `You classify road hazard reports. Allowed hazard types:\n${typeList}\n` +
+                'A report may describe several hazards; ignore hazards the reporter says are absent ("no ice"). ' +
+                'Respond with JSON: {"candidates":[{"hazardType":string,"severity":"low"|"medium"|"high","confidence":number between 0 and 1}]} ordered by likelihood.',
+            },
+            { role: 'user', content: description },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const parsed = JSON.parse(data.choices?.[0]?.message?.content ?? '{}');
+      const candidates: HazardCandidate[] = (Array.isArray(parsed.candidates) ? parsed.candidates : [])
+        .map((raw: { hazardType?: string; severity?: string; confidence?: number }) => {
+          const definition = HAZARD_TAXONOMY.find(item => item.hazardType === raw.hazardType);
+          if (!definition) return null;
+          return {
+            hazardType: definition.hazardType,
+            title: definition.title,
+            severity: SEVERITY_ORDER.includes(raw.severity as HazardSeverity)
+              ? raw.severity as HazardSeverity
+              : definition.defaultSeverity,
+            confidence: Math.min(Math.max(Number(raw.confidence) || 0, 0), 1),
+            matchedTerms: [],
+          };
+        })
+        .filter((candidate: HazardCandidate | null): candidate is HazardCandidate =>
+          candidate !== null && candidate.confidence >= MIN_CANDIDATE_CONFIDENCE
+        )
+        .sort((a: HazardCandidate, b: HazardCandidate) => b.confidence - a.confidence);
+
+      if (candidates.length === 0) {
+        throw new Error('LLM returned no usable candidates');
+      }
+
+      return summarizeCandidates(candidates, this.name);
+    } catch (error) {
+      console.log(`⚠️ LLM classification failed, using ${this.fallback.name} classifier:`, error.message);
+      return this.fallback.classify(description);
+    }
+  }
+}
+
+// Pick the classifier from HAZARD_CLASSIFIER ('keyword' | 'llm'). Defaults to keyword rules.
+export function createHazardClassifier(): HazardClassifier {
+  const keywordClassifier = new KeywordHazardClassifier();
+  const openAiApiKey = getOptionalEnv('openAiApiKey');
+
+  if (getOptionalEnv('hazardClassifier') === 'llm' && openAiApiKey) {
+    return new OpenAIHazardClassifier(openAiApiKey, keywordClassifier, getOptionalEnv('hazardClassifierModel'));
+  }
+
+  return keywordClassifier;
+}
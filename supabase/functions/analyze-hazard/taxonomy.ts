@@ -0,0 +1,214 @@
+// Versioned hazard taxonomy used by the hazard classifiers.
+// Bump HAZARD_TAXONOMY_VERSION whenever types, terms or weights change so stored
+// classifications can be traced back to the rules that produced them.
+
+export const HAZARD_TAXONOMY_VERSION = '2025.07.1';
+
+export type HazardSeverity = 'low' | 'medium' | 'high';
+
+export interface TaxonomyTerm {
+  // Space separated phrase. A trailing '*' on a word matches any word starting with it (e.g. 'flood*').
+  phrase: string;
+  weight: number;
+  // Optional, more specific title when this term is the strongest match (e.g. 'Fallen Tree')
+  title?: string;
+}
+
+export interface HazardTypeDefinition {
+  hazardType: string;
+  title: string;
+  defaultSeverity: HazardSeverity;
+  terms: TaxonomyTerm[];
+}
+
+export const HAZARD_TAXONOMY: HazardTypeDefinition[] = [
+  {
+    hazardType: 'accident',
+    title: 'Accident Alert',
+    defaultSeverity: 'high',
+    terms: [
+      { phrase: 'accident*', weight: 1.5 },
+      { phrase: 'crash*', weight: 1.5 },
+      { phrase: 'collision*', weight: 1.5 },
+      { phrase: 'wreck*', weight: 1.2 },
+      { phrase: 'fender bender', weight: 1.2 },
+      { phrase: 'pileup', weight: 1.5 },
+      { phrase: 'pile up', weight: 1.5 },
+      { phrase: 'rollover', weight: 1.2 },
+      { phrase: 'spun out', weight: 1 },
+      { phrase: 'in the ditch', weight: 1 },
+      { phrase: 'jackknife*', weight: 1.2 },
+    ],
+  },
+  {
+    hazardType: 'ice',
+    title: 'Ice Hazard',
+    defaultSeverity: 'high',
+    terms: [
+      { phrase: 'ice', weight: 1.2 },
+      { phrase: 'icy', weight: 1.2 },
+      { phrase: 'black ice', weight: 1.5, title: 'Black Ice' },
+      { phrase: 'iced', weight: 1 },
+      { phrase: 'frost*', weight: 0.8 },
+      { phrase: 'frozen', weight: 0.8 },
+      { phrase: 'freezing rain', weight: 1.5 },
+      { phrase: 'sleet', weight: 1 },
+      { phrase: 'glaze*', weight: 0.8 },
+      { phrase: 'slick', weight: 0.8 },
+      { phrase: 'slippery', weight: 0.8 },
+    ],
+  },
+  {
+    hazardType: 'snow',
+    title: 'Snow Covered Road',
+    defaultSeverity: 'medium',
+    terms: [
+      { phrase: 'snow*', weight: 1 },
+      { phrase: 'unplowed', weight: 1.5 },
+      { phrase: 'not plowed', weight: 1.5 },
+      { phrase: 'drift*', weight: 1 },
+      { phrase: 'slush*', weight: 1 },
+      { phrase: 'whiteout', weight: 1.2 },
+      { phrase: 'blizzard', weight: 1.5 },
+    ],
+  },
+  {
+    hazardType: 'obstruction',
+    title: 'Road Obstruction',
+    defaultSeverity: 'high',
+    terms: [
+      { phrase: 'tree down', weight: 1.5, title: 'Fallen Tree' },
+      { phrase: 'trees down', weight: 1.5, title: 'Fallen Tree' },
+      { phrase: 'fallen tree*', weight: 1.5, title: 'Fallen Tree' },
+      { phrase: 'downed tree*', weight: 1.5, title: 'Fallen Tree' },
+      { phrase: 'tree fell', weight: 1.5, title: 'Fallen Tree' },
+      { phrase: 'tree blocking', weight: 1.5, title: 'Fallen Tree' },
+      { phrase: 'branch*', weight: 0.6 },
+      { phrase: 'power line*', weight: 1.2, title: 'Downed Power Line' },
+      { phrase: 'stalled', weight: 1 },
+      { phrase: 'disabled vehicle', weight: 1.2 },
+      { phrase: 'obstruct*', weight: 1 },
+      { phrase: 'blocking', weight: 0.6 },
+    ],
+  },
+  {
+    hazardType: 'closure',
+    title: 'Road Closure',
+    defaultSeverity: 'high',
+    terms: [
+      { phrase: 'closure', weight: 1.5 },
+      { phrase: 'closed', weight: 1.2 },
+      { phrase: 'road closed', weight: 1.5 },
+      { phrase: 'blocked', weight: 1 },
+      { phrase: 'detour*', weight: 1 },
+      { phrase: 'lane closed', weight: 1.2 },
+      { phrase: 'impassable', weight: 1.5 },
+    ],
+  },
+  {
+    hazardType: 'flooding',
+    title: 'Water Hazard',
+    defaultSeverity: 'medium',
+    terms: [
+      { phrase: 'flood*', weight: 1.5 },
+      { phrase: 'standing water', weight: 1.5 },
+      { phrase: 'water', weight: 0.6 },
+      { phrase: 'puddle*', weight: 0.6 },
+      { phrase: 'washed out', weight: 1.5 },
+      { phrase: 'washout', weight: 1.5 },
+    ],
+  },
+  {
+    hazardType: 'construction',
+    title: 'Construction Zone',
+    defaultSeverity: 'medium',
+    terms: [
+      { phrase: 'construction', weight: 1.5 },
+      { phrase: 'roadwork*', weight: 1.5 },
+      { phrase: 'road work', weight: 1.5 },
+      { phrase: 'work zone', weight: 1.5 },
+      { phrase: 'crew*', weight: 0.6 },
+      { phrase: 'cone*', weight: 0.6 },
+      { phrase: 'lane shift', weight: 1 },
+    ],
+  },
+  {
+    hazardType: 'debris',
+    title: 'Road Debris',
+    defaultSeverity: 'medium',
+    terms: [
+      { phrase: 'debris', weight: 1.5 },
+      { phrase: 'trash', weight: 1 },
+      { phrase: 'garbage', weight: 1 },
+      { phrase: 'tire tread', weight: 1 },
+      { phrase: 'ladder', weight: 1 },
+      { phrase: 'object in road', weight: 1 },
+      { phrase: 'sign down', weight: 1, title: 'Sign Down' },
+      { phrase: 'fallen sign', weight: 1, title: 'Sign Down' },
+      { phrase: 'rock*', weight: 0.6 },
+    ],
+  },
+  {
+    hazardType: 'pothole',
+    title: 'Pothole Alert',
+    defaultSeverity: 'low',
+    terms: [
+      { phrase: 'pothole*', weight: 1.5 },
+      { phrase: 'pot hole*', weight: 1.5 },
+      { phrase: 'hole', weight: 0.8 },
+      { phrase: 'sinkhole', weight: 1.5, title: 'Sinkhole' },
+      { phrase: 'crack*', weight: 0.5 },
+      { phrase: 'frost heave*', weight: 1.2 },
+    ],
+  },
+  {
+    hazardType: 'animal',
+    title: 'Animal Hazard',
+    defaultSeverity: 'medium',
+    terms: [
+      { phrase: 'deer', weight: 1.5 },
+      { phrase: 'animal*', weight: 1.2 },
+      { phrase: 'dog*', weight: 0.8 },
+      { phrase: 'cow*', weight: 0.8 },
+      { phrase: 'turkey*', weight: 0.8 },
+      { phrase: 'roadkill', weight: 1 },
+    ],
+  },
+  {
+    hazardType: 'spill',
+    title: 'Spill Alert',
+    defaultSeverity: 'medium',
+    terms: [
+      { phrase: 'spill*', weight: 1.5 },
+      { phrase: 'oil', weight: 1 },
+      { phrase: 'fuel', weight: 1 },
+      { phrase: 'gravel', weight: 0.6 },
+      { phrase: 'sand', weight: 0.4 },
+    ],
+  },
+  {
+    hazardType: 'visibility',
+    title: 'Low Visibility',
+    defaultSeverity: 'medium',
+    terms: [
+      { phrase: 'fog*', weight: 1.5 },
+      { phrase: 'visibility', weight: 1.2 },
+      { phrase: "can't see", weight: 1 },
+      { phrase: 'blowing snow', weight: 1 },
+      { phrase: 'glare', weight: 0.6 },
+    ],
+  },
+];
+
+// Words that negate a hazard term appearing shortly after them in the same clause
+export const NEGATION_TERMS = ['no', 'not', 'without', 'never', 'isnt', 'arent', 'wasnt', 'nothing', 'cleared', 'gone'];
+
+// Words that raise or lower the severity of the matched hazard
+export const SEVERITY_ESCALATORS = ['major', 'multiple', 'serious', 'severe', 'injur*', 'all lanes', 'both lanes', 'huge', 'massive', 'dangerous', 'very'];
+export const SEVERITY_DEESCALATORS = ['minor', 'small', 'slight*', 'little', 'shoulder'];
+
+export const UNKNOWN_HAZARD = {
+  hazardType: 'unknown',
+  title: 'Road Hazard',
+  defaultSeverity: 'medium' as HazardSeverity,
+};
@@ -0,0 +1,266 @@
+import type { FailedRouteSegment, RouteSegment, SafetyScore, WeatherResponse } from '../_shared/contracts.ts';
+import { EdgeFunctionError } from '../_shared/errors.ts';
+import { decodePolyline, encodePolyline, LatLngPoint } from '../_shared/geo.ts';
+import { createHandler } from '../_shared/http.ts';
+import { createAnonClient, createOptionalServiceClient, SupabaseClient } from '../_shared/supabase.ts';
+import {
+  ContributingHazard,
+  HAZARD_CORRIDOR_MILES,
+  HazardRow,
+  safetyFromHazardImpact,
+  weighHazards,
+  worstSafety,
+} from './hazards.ts';
+import { fetchRouteWeather, WeatherCache } from './weather.ts';
+
+const METERS_PER_MILE = 1609.34;
+// Share of route points allowed to be missing weather before the verdict is at least caution
+const MAX_UNSEEN_FRACTION = 0.25;
+
+export const handler = createHandler('analyze-route-safety', async ({ coordinates, polyline, vehicleInfo, travelMode, departureTime }) => {
+  // Each point is judged by the forecast for when the driver reaches it
+  const departure = departureTime ? new Date(departureTime) : new Date();
+
+  const supabase = createAnonClient();
+
+  // The cache table is only writable with the service role; without it lookups simply go uncached
+  const weatherCache = new WeatherCache(createOptionalServiceClient());
+
+  // Pull active hazards near the route and weigh them by severity, recency and distance
+  const contributingHazards = await loadRouteHazards(supabase, coordinates, polyline);
+  console.log(`🚧 ${contributingHazards.length} reported hazards within ${HAZARD_CORRIDOR_MILES} mi of the route`);
+
+  // Weather for each coordinate at the time the driver is expected to reach it
+  const arrivalTimes = coordinates.map(coord =>
+    new Date(departure.getTime() + (coord.etaSeconds ?? 0) * 1000).toISOString()
+  );
+  const weatherResults = await fetchRouteWeather(
+    coordinates.map((coord, index) => ({ lat: coord.lat, lng: coord.lng, time: arrivalTimes[index] })),
+    weatherCache,
+    async (request) => {
+      const { data, error } = await supabase.functions.invoke<WeatherResponse>('get-weather', { body: request });
+      if (error || !data) throw new EdgeFunctionError('upstream_error', error?.message ?? 'No weather data returned');
+      return data;
+    }
+  );
+
+  const routeSegments: RouteSegment[] = [];
+  const failedSegments: FailedRouteSegment[] = [];
+  let totalSnowDepth = 0;
+
+  for (const [index, coord] of coordinates.entries()) {
+    const arrivalTime = arrivalTimes[index];
+    const weatherResult = weatherResults[index];
+
+    // Keep track of points without weather so the verdict can say what it could not see
+    if (!weatherResult.ok) {
+      console.error(`Weather lookup failed for segment ${index}:`, weatherResult.error);
+      failedSegments.push({
+        index,
+        lat: coord.lat,
+        lng: coord.lng,
+        distanceMiles: coord.distanceMiles,
+        arrivalTime,
+        error: weatherResult.error
+      });
+      continue;
+    }
+
+    const weatherData = weatherResult.data;
+    const snowDepth = weatherData.snow_depth || 0;
+    totalSnowDepth += snowDepth;
+
+    let safetyScore: SafetyScore = 'safe';
+    
+    // Safety scoring based on travel mode and conditions
+    if (travelMode === 'driving') {
+      if (snowDepth > 6) {
+        safetyScore = 'danger';
+      } else if (snowDepth > 3) {
+        safetyScore = 'caution';
+      }
+    } else if (travelMode === 'walking') {
+      if (snowDepth > 4 || (weatherData.main.feels_like && weatherData.main.feels_like < 10)) {
+        safetyScore = 'caution';
+      }
+      if (snowDepth > 8 || (weatherData.main.feels_like && weatherData.main.feels_like < -10)) {
+        safetyScore = 'danger';
+      }
+    } else if (travelMode === 'biking') {
+      if (snowDepth > 2) {
+        safetyScore = 'danger'; // Biking in snow is generally unsafe
+      } else if (snowDepth > 0.5) {
+        safetyScore = 'caution';
+      }
+    }
+
+    // Fold in hazards reported on the stretch starting at this coordinate
+    const segmentHazards = contributingHazards.filter(hazard => hazard.segmentIndex === index);
+    const hazardImpact = segmentHazards.reduce((sum, hazard) => sum + hazard.weight, 0);
+    safetyScore = worstSafety(safetyScore, safetyFromHazardImpact(hazardImpact));
+
+    routeSegments.push({
+      index,
+      lat: coord.lat,
+      lng: coord.lng,
+      distanceMiles: coord.distanceMiles,
+      etaSeconds: coord.etaSeconds,
+      arrivalTime,
+      forecastTime: weatherData.valid_at,
+      isForecast: Boolean(weatherData.is_forecast),
+      weatherCached: weatherResult.cached,
+      snowDepth,
+      safetyScore,
+      temperature: weatherData.main.temp,
+      conditions: weatherData.weather[0].description,
+      hazardImpact: Number(hazardImpact.toFixed(3)),
+      hazardIds: segmentHazards.map(hazard => hazard.id)
+    });
+  }
+
+  // Average over the points we actually have weather for
+  const avgSnowDepth = routeSegments.length > 0 ? totalSnowDepth / routeSegments.length : 0;
+  if (failedSegments.length > 0) {
+    console.log(`⚠️ No weather for ${failedSegments.length} of ${coordinates.length} route points`);
+  }
+  
+  // Vehicle-specific safety assessment
+  let vehicleSafety: ReturnType<typeof calculateVehicleSafety> = { score: 'safe', message: 'Good conditions for travel' };
+  
+  if (travelMode === 'driving' && vehicleInfo?.type) {
+    vehicleSafety = calculateVehicleSafety(
+      avgSnowDepth,
+      vehicleInfo.type,
+      vehicleInfo.tires || 'regular',
+      vehicleInfo.drive || 'fwd'
+    );
+  }
+
+  // The overall verdict is the worst of the vehicle assessment and the reported hazards,
+  // judged both per segment and by their combined weight along the whole route
+  const totalHazardImpact = contributingHazards.reduce((sum, hazard) => sum + hazard.weight, 0);
+  let overallSafety = routeSegments.reduce(
+    (worst, segment) => worstSafety(worst, safetyFromHazardImpact(segment.hazardImpact)),
+    worstSafety(vehicleSafety.score, safetyFromHazardImpact(totalHazardImpact))
+  );
+  // A route we could barely see is not "safe"
+  if (coordinates.length > 0 && failedSegments.length / coordinates.length > MAX_UNSEEN_FRACTION) {
+    overallSafety = worstSafety(overallSafety, 'caution');
+  }
+
+  // Generate recommendation
+  const recommendation = generateRecommendation(
+    overallSafety,
+    avgSnowDepth,
+    routeSegments[0]?.temperature || 32,
+    travelMode,
+    contributingHazards
+  ) + (failedSegments.length > 0
+    ? ` Weather was unavailable for ${failedSegments.length} of ${coordinates.length} points along the route.`
+    : '');
+
+  return {
+    routeSegments,
+    failedSegments,
+    avgSnowDepth,
+    overallSafety,
+    vehicleSafetyMessage: vehicleSafety.message,
+    recommendation,
+    contributingHazards,
+    departureTime: departure.toISOString()
+  };
+});
+
+// The coordinates are miles apart, so hazards are measured against the road's own polyline where
+// there is one; straight lines between the coordinates would cut across every bend
+async function loadRouteHazards(
+  supabase: SupabaseClient,
+  coordinates: LatLngPoint[],
+  polyline?: string
+): Promise<ContributingHazard[]> {
+  const road = polyline ? decodePolyline(polyline) : coordinates;
+  if (!road.length) return [];
+
+  // Live hazards within the corridor, from the spatial index; a single point is a radius search
+  const bufferMeters = HAZARD_CORRIDOR_MILES * METERS_PER_MILE;
+  const { data, error } = road.length > 1
+    ? await supabase.rpc('hazards_along_route', { polyline: polyline || encodePolyline(road), buffer_m: bufferMeters })
+    : await supabase.rpc('hazards_near', { lat: road[0].lat, lng: road[0].lng, radius_m: bufferMeters });
+
+  if (error) {
+    console.error('Error loading route hazards:', error);
+    return [];
+  }
+
+  return weighHazards((data || []) as HazardRow[], road, coordinates);
+}
+
+function calculateVehicleSafety(
+  snowDepth: number,
+  vehicleType: 'sedan' | 'suv' | 'truck',
+  tireType: 'regular' | 'snow',
+  driveType: 'fwd' | 'awd' | '4wd'
+): { score: 'safe' | 'caution' | 'danger'; message: string } {
+  let baseScore = 0;
+
+  // Vehicle type scoring
+  switch (vehicleType) {
+    case 'truck': baseScore += 3; break;
+    case 'suv': baseScore += 2; break;
+    case 'sedan': baseScore += 1; break;
+  }
+
+  // Tire type scoring
+  if (tireType === 'snow') baseScore += 2;
+
+  // Drive type scoring
+  switch (driveType) {
+    case '4wd': baseScore += 3; break;
+    case 'awd': baseScore += 2; break;
+    case 'fwd': baseScore += 1; break;
+  }
+
+  // Snow depth penalty
+  const snowPenalty = snowDepth / 2;
+  const finalScore = baseScore - snowPenalty;
+
+  let score: 'safe' | 'caution' | 'danger';
+  let message: string;
+
+  if (finalScore >= 4) {
+    score = 'safe';
+    message = `✅ Your ${vehicleType} with ${tireType} tires and ${driveType.toUpperCase()} is well-suited for these conditions.`;
+  } else if (finalScore >= 2) {
+    score = 'caution';
+    message = `⚠️ Use caution with your ${vehicleType}. Consider snow tires or alternate route.`;
+  } else {
+    score = 'danger';
+    message = `❌ Unsafe conditions for your ${vehicleType} with current setup. Avoid travel or use snow tires with AWD/4WD.`;
+  }
+
+  return { score, message };
+}
+
+function generateRecommendation(
+  safetyScore: 'safe' | 'caution' | 'danger',
+  snowDepth: number,
+  temperature: number,
+  travelMode: string,
+  hazards: ContributingHazard[] = []
+): string {
+  // Mention the most significant reported hazards so the verdict can be explained
+  const hazardNote = hazards.length > 0
+    ? ` Reported on your route: ${hazards.slice(0, 3).map(hazard => `${hazard.title} (${hazard.distanceFromStartMiles.toFixed(1)} mi in)`).join(', ')}.`
+    : '';
+
+  if (safetyScore === 'danger') {
+    if (travelMode === 'biking') {
+      return `Dangerous conditions for biking with ${snowDepth.toFixed(1)}" of snow. Consider walking or driving instead.${hazardNote}`;
+    }
+    return `Dangerous conditions with ${snowDepth.toFixed(1)}" of snow. Consider delaying travel, using public transit, or taking a major highway with snow removal.${hazardNote}`;
+  } else if (safetyScore === 'caution') {
+    return `Use caution with ${snowDepth.toFixed(1)}" of snow. Allow extra time, ${travelMode === 'driving' ? 'drive slowly' : 'move carefully'}, and consider an alternate route.${hazardNote}`;
+  } else {
+    return `Safe travel conditions. Normal winter ${travelMode} precautions recommended.${hazardNote}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,94 @@
+// Reported hazards near the route and how much they should affect each segment's safety score
+import type { ContributingHazard, SafetyScore } from '../_shared/contracts.ts';
+import { LatLngPoint, projectOntoRoute } from '../_shared/geo.ts';
+
+export type { ContributingHazard };
+
+export interface HazardRow {
+  id: string;
+  hazard_type: string;
+  title: string | null;
+  description: string;
+  severity: string;
+  location_lat: number;
+  location_lng: number;
+  created_at: string;
+  last_seen_at?: string; // Reported or last voted "still there"
+}
+
+// Hazards further than this from the route are ignored
+export const HAZARD_CORRIDOR_MILES = 0.25;
+// A hazard's weight halves every this many hours
+const HAZARD_HALF_LIFE_HOURS = 6;
+const SEVERITY_WEIGHTS: Record<string, number> = { low: 1, medium: 2, high: 4 };
+// Weighted hazard impact needed to push a segment (or the whole route) to caution / danger
+const CAUTION_IMPACT = 1;
+const DANGER_IMPACT = 3;
+
+const SAFETY_ORDER: SafetyScore[] = ['safe', 'caution', 'danger'];
+
+export function worstSafety(a: SafetyScore, b: SafetyScore): SafetyScore {
+  return SAFETY_ORDER.indexOf(a) >= SAFETY_ORDER.indexOf(b) ? a : b;
+}
+
+export function safetyFromHazardImpact(impact: number): SafetyScore {
+  if (impact >= DANGER_IMPACT) return 'danger';
+  if (impact >= CAUTION_IMPACT) return 'caution';
+  return 'safe';
+}
+
+// Weight = severity x recency decay x closeness to the road. Distances are measured along
+// `road`, and each hazard is attached to the analyzed segment (point i to i+1) it falls in.
+export function weighHazards(
+  hazards: HazardRow[],
+  road: LatLngPoint[],
+  points: LatLngPoint[],
+  now = Date.now()
+): ContributingHazard[] {
+  if (road.length === 0) return [];
+
+  const segmentStarts = segmentStartMiles(points, road);
+  return hazards.flatMap(hazard => {
+    const location = { lat: Number(hazard.location_lat), lng: Number(hazard.location_lng) };
+    const projection = projectOntoRoute(location, road);
+    if (projection.distanceFromRouteMiles > HAZARD_CORRIDOR_MILES) return [];
+
+    // Only live (unexpired) hazards are passed in; age counts from when the hazard was last seen
+    const lastSeen = new Date(hazard.last_seen_at ?? hazard.created_at).getTime();
+    const ageHours = Math.max(0, (now - lastSeen) / (60 * 60 * 1000));
+
+    const severityWeight = SEVERITY_WEIGHTS[hazard.severity] ?? SEVERITY_WEIGHTS.medium;
+    const recencyFactor = Math.pow(0.5, ageHours / HAZARD_HALF_LIFE_HOURS);
+    const proximityFactor = 1 - 0.75 * (projection.distanceFromRouteMiles / HAZARD_CORRIDOR_MILES);
+
+    return [{
+      id: hazard.id,
+      hazardType: hazard.hazard_type,
+      title: hazard.title || hazard.hazard_type,
+      severity: hazard.severity,
+      lat: location.lat,
+      lng: location.lng,
+      segmentIndex: segmentAt(segmentStarts, projection.distanceAlongRouteMiles),
+      distanceFromRouteMiles: Number(projection.distanceFromRouteMiles.toFixed(3)),
+      distanceFromStartMiles: Number(projection.distanceAlongRouteMiles.toFixed(2)),
+      ageHours: Number(ageHours.toFixed(1)),
+      weight: Number((severityWeight * recencyFactor * proximityFactor).toFixed(3)),
+    }];
+  }).sort((a, b) => b.weight - a.weight);
+}
+
+// How far along the road each analyzed point is; never backwards, so the segments stay in order
+function segmentStartMiles(points: LatLngPoint[], road: LatLngPoint[]): number[] {
+  let previous = 0;
+  return points.map(point => {
+    previous = Math.max(previous, projectOntoRoute(point, road).distanceAlongRouteMiles);
+    return previous;
+  });
+}
+
+// The last segment starting at or before `alongMiles`
+function segmentAt(segmentStarts: number[], alongMiles: number): number {
+  let index = 0;
+  while (index + 1 < segmentStarts.length && segmentStarts[index + 1] <= alongMiles) index++;
+  return index;
+}
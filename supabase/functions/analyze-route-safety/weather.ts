@@ -0,0 +1,160 @@
+// Weather for the points along a route. Points are snapped to grid cells and hourly buckets so
+// nearby samples share one lookup, results are cached in Postgres, and misses are fetched from
+// get-weather a few at a time.
+import type { WeatherResponse } from '../_shared/contracts.ts';
+import type { SupabaseClient } from '../_shared/supabase.ts';
+
+// A get-weather response, stored as is in the cache
+export type WeatherPayload = WeatherResponse;
+
+export interface WeatherRequest {
+  lat: number;
+  lng: number;
+  time: string; // ISO time the conditions are wanted for
+}
+
+export type WeatherResult =
+  | { ok: true; data: WeatherPayload; cell: string; cached: boolean }
+  | { ok: false; error: string; cell: string };
+
+// ~1.4 mi north-south; finer than the weather sources' own resolution
+export const GRID_CELL_DEGREES = 0.02;
+const WEATHER_CONCURRENCY = 6;
+const CURRENT_CONDITIONS_TTL_MINUTES = 15;
+const FORECAST_TTL_MINUTES = 60;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface GridCell {
+  key: string;
+  lat: number; // Cell center, used for the lookup so every point in the cell gets the same answer
+  lng: number;
+}
+
+export function gridCell(lat: number, lng: number): GridCell {
+  const row = Math.floor(lat / GRID_CELL_DEGREES);
+  const column = Math.floor(lng / GRID_CELL_DEGREES);
+  return {
+    key: `${row}:${column}`,
+    lat: Number(((row + 0.5) * GRID_CELL_DEGREES).toFixed(5)),
+    lng: Number(((column + 0.5) * GRID_CELL_DEGREES).toFixed(5)),
+  };
+}
+
+// Start of the hour the time falls in
+export function timeBucket(time: string): string {
+  const ms = new Date(time).getTime();
+  return new Date(Math.floor(ms / HOUR_MS) * HOUR_MS).toISOString();
+}
+
+// Run `fn` over `items` with at most `limit` calls in flight, keeping results in input order
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+const cacheKey = (cell: string, bucket: string) => `${cell}@${bucket}`;
+
+export class WeatherCache {
+  constructor(private readonly supabase: SupabaseClient | null) {}
+
+  async getMany(entries: Array<{ cell: string; bucket: string }>): Promise<Map<string, WeatherPayload>> {
+    const found = new Map<string, WeatherPayload>();
+    if (!this.supabase || entries.length === 0) return found;
+
+    const { data, error } = await this.supabase
+      .from('weather_cache')
+      .select('grid_cell, time_bucket, payload')
+      .in('grid_cell', [...new Set(entries.map(entry => entry.cell))])
+      .in('time_bucket', [...new Set(entries.map(entry => entry.bucket))])
+      .gt('expires_at', new Date().toISOString());
+
+    if (error) {
+      console.log('⚠️ Weather cache read failed:', error.message);
+      return found;
+    }
+
+    for (const row of data || []) {
+      found.set(cacheKey(row.grid_cell, new Date(row.time_bucket).toISOString()), row.payload as WeatherPayload);
+    }
+    return found;
+  }
+
+  async putMany(entries: Array<{ cell: string; bucket: string; payload: WeatherPayload }>): Promise<void> {
+    if (!this.supabase || entries.length === 0) return;
+
+    const now = Date.now();
+    const { error } = await this.supabase
+      .from('weather_cache')
+      .upsert(entries.map(({ cell, bucket, payload }) => {
+        const ttlMinutes = payload.is_forecast ? FORECAST_TTL_MINUTES : CURRENT_CONDITIONS_TTL_MINUTES;
+        return {
+          grid_cell: cell,
+          time_bucket: bucket,
+          payload,
+          is_forecast: Boolean(payload.is_forecast),
+          fetched_at: new Date(now).toISOString(),
+          expires_at: new Date(now + ttlMinutes * 60 * 1000).toISOString(),
+        };
+      }), { onConflict: 'grid_cell,time_bucket' });
+
+    if (error) {
+      console.log('⚠️ Weather cache write failed:', error.message);
+    }
+  }
+}
+
+// One result per request, in order. A failed lookup is returned as such rather than dropped.
+export async function fetchRouteWeather(
+  requests: WeatherRequest[],
+  cache: WeatherCache,
+  fetchWeather: (request: WeatherRequest) => Promise<WeatherPayload>
+): Promise<WeatherResult[]> {
+  // Group requests that land in the same cell and hour
+  const groups = new Map<string, { cell: GridCell; bucket: string; time: string }>();
+  const keys = requests.map(request => {
+    const cell = gridCell(request.lat, request.lng);
+    const bucket = timeBucket(request.time);
+    const key = cacheKey(cell.key, bucket);
+    if (!groups.has(key)) groups.set(key, { cell, bucket, time: request.time });
+    return key;
+  });
+
+  const cached = await cache.getMany([...groups.values()].map(group => ({ cell: group.cell.key, bucket: group.bucket })));
+  const misses = [...groups.entries()].filter(([key]) => !cached.has(key));
+  console.log(`🌤️ ${requests.length} points → ${groups.size} weather cells, ${groups.size - misses.length} cached`);
+
+  const fetched = new Map<string, { data?: WeatherPayload; error?: string }>();
+  await mapWithConcurrency(misses, WEATHER_CONCURRENCY, async ([key, group]) => {
+    try {
+      const data = await fetchWeather({ lat: group.cell.lat, lng: group.cell.lng, time: group.time });
+      fetched.set(key, { data });
+    } catch (error) {
+      fetched.set(key, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  await cache.putMany([...fetched.entries()].flatMap(([key, result]) => {
+    const group = groups.get(key)!;
+    return result.data ? [{ cell: group.cell.key, bucket: group.bucket, payload: result.data }] : [];
+  }));
+
+  return keys.map(key => {
+    const cell = groups.get(key)!.cell.key;
+    const hit = cached.get(key);
+    if (hit) return { ok: true, data: hit, cell, cached: true };
+
+    const result = fetched.get(key);
+    if (result?.data) return { ok: true, data: result.data, cell, cached: false };
+    return { ok: false, error: result?.error ?? 'Weather lookup failed', cell };
+  });
+}
@@ -0,0 +1,28 @@
+import type { SafetyScore } from '../_shared/contracts.ts';
+
+const SAFETY_RANK: Record<SafetyScore, number> = { safe: 0, caution: 1, danger: 2 };
+// How many of a commute's latest verdicts describe its normal conditions
+export const BASELINE_CHECKS = 10;
+
+// The verdict a commute's recent checks gave most often, the safer one on a tie. A commute without
+// history is assumed to be usually safe.
+export function usualSafety(recentVerdicts: SafetyScore[]): SafetyScore {
+  const counts = new Map<SafetyScore, number>();
+  for (const verdict of recentVerdicts.slice(0, BASELINE_CHECKS)) {
+    counts.set(verdict, (counts.get(verdict) ?? 0) + 1);
+  }
+
+  let usual: SafetyScore = 'safe';
+  for (const [verdict, count] of counts) {
+    const usualCount = counts.get(usual) ?? 0;
+    if (count > usualCount || (count === usualCount && SAFETY_RANK[verdict] < SAFETY_RANK[usual])) {
+      usual = verdict;
+    }
+  }
+  return usual;
+}
+
+// Worth flagging: caution or danger, and worse than the commute usually is
+export function hasWorsened(verdict: SafetyScore | null, usual: SafetyScore): boolean {
+  return verdict !== null && verdict !== 'safe' && SAFETY_RANK[verdict] > SAFETY_RANK[usual];
+}
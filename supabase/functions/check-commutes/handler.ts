@@ -0,0 +1,174 @@
+import { requireServiceRole } from '../_shared/auth.ts';
+import type { CommuteCheck, GetRouteResponse, SafetyScore } from '../_shared/contracts.ts';
+import { EdgeFunctionError } from '../_shared/errors.ts';
+import { createHandler } from '../_shared/http.ts';
+import { createAnonClient, createServiceClient, SupabaseClient } from '../_shared/supabase.ts';
+import { BASELINE_CHECKS, hasWorsened, usualSafety } from './baseline.ts';
+import { CommuteSchedule, upcomingDeparture } from './schedule.ts';
+
+interface CommuteRow extends CommuteSchedule {
+  id: string;
+  name: string;
+  start_location: string;
+  end_location: string;
+  travel_mode: string;
+  vehicle_type: string | null;
+  tires: string | null;
+  drive: string | null;
+}
+
+// Runs every 15 minutes, so each departure is first seen 45-60 minutes ahead
+const CHECK_LEAD_MINUTES = 60;
+// Each check is a full get-route with alternatives, so a run stops at this many to finish well
+// inside the edge function time limit. With four runs per lead time, a departure left over is
+// still checked by a later one.
+const MAX_CHECKS_PER_RUN = 10;
+
+export const handler = createHandler('check-commutes', async (body, req) => {
+  requireServiceRole(req);
+
+  // Commutes and their history belong to their drivers; only the service role sees them all
+  const supabase = createServiceClient();
+  const functions = createAnonClient();
+  const now = new Date();
+
+  const { data: commutes, error } = await supabase
+    .from('commutes')
+    .select('id, name, start_location, end_location, travel_mode, vehicle_type, tires, drive, departure_time, days_of_week, time_zone')
+    .eq('enabled', true);
+
+  if (error) {
+    throw new EdgeFunctionError('database_error', 'Could not load commutes', { message: error.message });
+  }
+
+  const due = (commutes as CommuteRow[] || [])
+    .map(commute => ({ commute, departure: upcomingDeparture(commute, now, CHECK_LEAD_MINUTES) }))
+    .filter((entry): entry is { commute: CommuteRow; departure: Date } => entry.departure !== null);
+
+  console.log(`🚗 ${due.length} of ${commutes?.length || 0} commutes leave within ${CHECK_LEAD_MINUTES} minutes`);
+
+  // Skip departures an earlier run already checked; failed checks are tried again
+  const { data: existing, error: existingError } = await supabase
+    .from('commute_checks')
+    .select('commute_id, departure_at')
+    .in('commute_id', due.map(entry => entry.commute.id))
+    .gt('departure_at', now.toISOString())
+    .not('overall_safety', 'is', null);
+
+  if (existingError) {
+    throw new EdgeFunctionError('database_error', 'Could not load commute checks', { message: existingError.message });
+  }
+
+  const checked = new Set((existing || []).map(row => `${row.commute_id}@${new Date(row.departure_at).getTime()}`));
+  const pending = due
+    .filter(({ commute, departure }) => !checked.has(`${commute.id}@${departure.getTime()}`))
+    .sort((a, b) => a.departure.getTime() - b.departure.getTime());
+  const batch = pending.slice(0, body?.maxChecks ?? MAX_CHECKS_PER_RUN);
+
+  // One at a time, to keep the load on Google and the weather providers even
+  const checks: CommuteCheck[] = [];
+  for (const { commute, departure } of batch) {
+    const check = await checkCommute(supabase, functions, commute, departure);
+    if (check) checks.push(check);
+  }
+
+  const worsenedCount = checks.filter(check => check.worsened).length;
+  const deferredCount = pending.length - batch.length;
+  console.log(`✅ Checked ${checks.length} commutes, ${worsenedCount} worse than usual, ${deferredCount} left for the next run`);
+
+  return {
+    success: true,
+    checkedCount: checks.length,
+    worsenedCount,
+    deferredCount,
+    checks,
+    checkTimestamp: now.toISOString()
+  };
+});
+
+// Run the commute through get-route (which analyzes each alternative) for its departure and
+// record the recommended route's verdict. Returns null if another run recorded it first.
+async function checkCommute(
+  supabase: SupabaseClient,
+  functions: SupabaseClient,
+  commute: CommuteRow,
+  departure: Date
+): Promise<CommuteCheck | null> {
+  const vehicleInfo = commute.vehicle_type && commute.tires && commute.drive
+    ? { type: commute.vehicle_type, tires: commute.tires, drive: commute.drive }
+    : undefined;
+
+  const { data, error } = await functions.functions.invoke<GetRouteResponse>('get-route', {
+    body: {
+      startLocation: commute.start_location,
+      endLocation: commute.end_location,
+      travelMode: commute.travel_mode,
+      vehicleInfo,
+      departureTime: departure.toISOString()
+    }
+  });
+
+  const route = data?.route;
+  const safety = route?.safety ?? null;
+  if (error || !safety) {
+    console.error(`Check failed for commute ${commute.id} (${commute.name}):`, error ?? 'no safety analysis');
+  }
+
+  // Normal conditions for this commute, from the checks before this one
+  const { data: history } = await supabase
+    .from('commute_checks')
+    .select('overall_safety')
+    .eq('commute_id', commute.id)
+    .not('overall_safety', 'is', null)
+    .order('departure_at', { ascending: false })
+    .limit(BASELINE_CHECKS);
+
+  const overallSafety = safety?.overallSafety ?? null;
+  const usual = usualSafety((history || []).map(row => row.overall_safety as SafetyScore));
+  const worsened = hasWorsened(overallSafety, usual);
+
+  // A failed earlier attempt gives way to this one. It is replaced rather than updated so the
+  // notification trigger sees a new check.
+  const { error: clearError } = await supabase
+    .from('commute_checks')
+    .delete()
+    .eq('commute_id', commute.id)
+    .eq('departure_at', departure.toISOString())
+    .is('overall_safety', null);
+
+  if (clearError) {
+    throw new EdgeFunctionError('database_error', 'Could not clear a failed commute check', { message: clearError.message });
+  }
+
+  const { error: insertError } = await supabase.from('commute_checks').insert({
+    commute_id: commute.id,
+    departure_at: departure.toISOString(),
+    overall_safety: overallSafety,
+    usual_safety: usual,
+    worsened,
+    route_summary: route?.summary ?? null,
+    duration_seconds: route?.durationSeconds ?? null,
+    avg_snow_depth: safety?.avgSnowDepth ?? null,
+    hazard_count: route?.hazardCount ?? null,
+    recommendation: safety?.recommendation ?? null,
+    error: safety ? null : error?.message ?? 'No safety analysis for the route'
+  });
+
+  if (insertError) {
+    // Unique violation: an overlapping run got there first
+    if (insertError.code === '23505') return null;
+    throw new EdgeFunctionError('database_error', 'Could not record commute check', { message: insertError.message });
+  }
+
+  // New hazards are matched against the route the driver will most likely take
+  if (route?.polyline) {
+    const { error: routeError } = await supabase.from('commutes').update({ route_polyline: route.polyline }).eq('id', commute.id);
+    if (routeError) console.error(`Could not store the route of commute ${commute.id}:`, routeError);
+  }
+
+  if (worsened) {
+    console.log(`⚠️ ${commute.name} is ${overallSafety} for ${departure.toISOString()} (usually ${usual})`);
+  }
+
+  return { commuteId: commute.id, departureAt: departure.toISOString(), overallSafety, usualSafety: usual, worsened };
+}
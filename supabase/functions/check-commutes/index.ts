@@ -0,0 +1,4 @@
+import { serveFunction } from '../_shared/http.ts';
+import { handler } from './handler.ts';
+
+serveFunction(handler);
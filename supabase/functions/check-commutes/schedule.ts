@@ -0,0 +1,34 @@
+// When a commute next leaves. Departure times are wall-clock times in the commute's time zone,
+// so 7:30 stays 7:30 across daylight saving changes.
+import { zonedParts, zonedTimeToUtc } from '../_shared/zonedTime.ts';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface CommuteSchedule {
+  departure_time: string; // "07:30:00"
+  days_of_week: number[]; // 0 = Sunday
+  time_zone: string; // IANA, e.g. "America/Chicago"
+}
+
+// The commute's next departure after `now` if it is at most `withinMinutes` away, otherwise null
+export function upcomingDeparture(schedule: CommuteSchedule, now: Date, withinMinutes: number): Date | null {
+  const [hour, minute] = schedule.departure_time.split(':').map(Number);
+  const today = zonedParts(now, schedule.time_zone);
+
+  // Today's departure may have passed; tomorrow's can be in the window shortly before midnight
+  for (const dayOffset of [0, 1]) {
+    const calendarDay = new Date(Date.UTC(today.year, today.month - 1, today.day) + dayOffset * DAY_MS);
+    if (!schedule.days_of_week.includes(calendarDay.getUTCDay())) continue;
+
+    const departure = zonedTimeToUtc(
+      { year: calendarDay.getUTCFullYear(), month: calendarDay.getUTCMonth() + 1, day: calendarDay.getUTCDate() },
+      hour,
+      minute,
+      schedule.time_zone
+    );
+    const untilDeparture = departure.getTime() - now.getTime();
+    if (untilDeparture > 0 && untilDeparture <= withinMinutes * MINUTE_MS) return departure;
+  }
+  return null;
+}
@@ -0,0 +1,55 @@
+import { EdgeFunctionError } from '../_shared/errors.ts';
+import { LIVE_HAZARD_STATUSES } from '../_shared/hazardStatus.ts';
+import { createHandler } from '../_shared/http.ts';
+import { createServiceClient } from '../_shared/supabase.ts';
+
+export const handler = createHandler('cleanup-old-hazards', async () => {
+  // Service role key for admin operations
+  const supabase = createServiceClient();
+
+  console.log('🧹 Expiring hazard reports past their lifetime...');
+
+  const now = new Date().toISOString();
+
+  // Each report's expires_at comes from its type's lifetime and is pushed back by "still there"
+  // votes. Expired reports stay in the table as the archive; live queries filter on status.
+  const { data: expiredReports, error } = await supabase
+    .from('hazard_reports')
+    .update({ status: 'expired' })
+    .in('status', LIVE_HAZARD_STATUSES)
+    .lte('expires_at', now)
+    .select('id, hazard_type'); // Return expired reports for logging
+
+  if (error) {
+    throw new EdgeFunctionError('database_error', 'Cleanup failed', { message: error.message });
+  }
+
+  const expiredByType: Record<string, number> = {};
+  for (const report of expiredReports || []) {
+    expiredByType[report.hazard_type] = (expiredByType[report.hazard_type] || 0) + 1;
+  }
+
+  // Cached weather is only worth keeping until it expires; without this every cell and hour
+  // ever looked up would stay in the table
+  const { count: prunedWeatherCount, error: pruneError } = await supabase
+    .from('weather_cache')
+    .delete({ count: 'exact' })
+    .lt('expires_at', now);
+
+  if (pruneError) {
+    throw new EdgeFunctionError('database_error', 'Could not prune the weather cache', { message: pruneError.message });
+  }
+
+  const expiredCount = expiredReports?.length || 0;
+  console.log(`✅ Cleanup completed: ${expiredCount} hazard reports expired, ${prunedWeatherCount ?? 0} cached forecasts pruned`, expiredByType);
+
+  // Per-type counts for monitoring
+  return {
+    success: true,
+    expiredCount,
+    expiredByType,
+    prunedWeatherCount: prunedWeatherCount ?? 0,
+    cleanupTimestamp: now,
+    message: `Expired ${expiredCount} hazard reports past their lifetime`
+  };
+});
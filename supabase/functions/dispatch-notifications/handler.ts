@@ -0,0 +1,184 @@
+import { requireServiceRole } from '../_shared/auth.ts';
+import { getEnv } from '../_shared/env.ts';
+import { EdgeFunctionError } from '../_shared/errors.ts';
+import { createHandler } from '../_shared/http.ts';
+import { createServiceClient, SupabaseClient } from '../_shared/supabase.ts';
+import { isQuietTime, QuietHours, quietHoursEnd } from './quietHours.ts';
+import { PushTarget, sendWebPush, VapidKeys } from './webPush.ts';
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  kind: 'commute_risk' | 'route_hazard';
+  commute_id: string | null;
+  hazard_id: string | null;
+  title: string;
+  body: string;
+  url: string;
+  urgent: boolean;
+  not_after: string;
+}
+
+interface SubscriptionRow extends PushTarget {
+  id: string;
+  user_id: string;
+}
+
+interface ProfileRow extends QuietHours {
+  id: string;
+}
+
+// Runs every minute; anything left over waits for the next run
+const BATCH_SIZE = 100;
+// Push services drop a message they could not deliver within its TTL
+const MIN_TTL_SECONDS = 60;
+
+export const handler = createHandler('dispatch-notifications', async (_body, req) => {
+  requireServiceRole(req);
+
+  const supabase = createServiceClient();
+  const vapid: VapidKeys = {
+    publicKey: getEnv('vapidPublicKey'),
+    privateKey: getEnv('vapidPrivateKey'),
+    subject: getEnv('vapidSubject'),
+  };
+  const now = new Date();
+
+  const { data: pending, error } = await supabase
+    .from('notifications')
+    .select('id, user_id, kind, commute_id, hazard_id, title, body, url, urgent, not_after')
+    .is('sent_at', null)
+    .is('dropped_reason', null)
+    .or(`hold_until.is.null,hold_until.lte.${now.toISOString()}`)
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    throw new EdgeFunctionError('database_error', 'Could not load queued notifications', { message: error.message });
+  }
+
+  const notifications = (pending || []) as NotificationRow[];
+  const userIds = [...new Set(notifications.map(notification => notification.user_id))];
+
+  const [profiles, subscriptions] = await Promise.all([
+    supabase.from('profiles').select('id, quiet_hours_start, quiet_hours_end, time_zone').in('id', userIds),
+    supabase.from('push_subscriptions').select('id, user_id, endpoint, p256dh, auth').in('user_id', userIds),
+  ]);
+
+  for (const { error: lookupError } of [profiles, subscriptions]) {
+    if (lookupError) {
+      throw new EdgeFunctionError('database_error', 'Could not load notification recipients', { message: lookupError.message });
+    }
+  }
+
+  const quietHoursByUser = new Map((profiles.data as ProfileRow[] || []).map(profile => [profile.id, profile]));
+  const targetsByUser = new Map<string, SubscriptionRow[]>();
+  for (const subscription of subscriptions.data as SubscriptionRow[] || []) {
+    targetsByUser.set(subscription.user_id, [...(targetsByUser.get(subscription.user_id) || []), subscription]);
+  }
+
+  const counts = { sent: 0, held: 0, dropped: 0, failed: 0 };
+  const goneSubscriptions = new Set<string>();
+  const usedSubscriptions = new Set<string>();
+  // Ids of held notifications by when their quiet hours end
+  const held = new Map<string, string[]>();
+
+  for (const notification of notifications) {
+    const secondsLeft = Math.floor((new Date(notification.not_after).getTime() - now.getTime()) / 1000);
+    if (secondsLeft <= 0) {
+      await markDropped(supabase, notification.id, 'expired');
+      counts.dropped++;
+      continue;
+    }
+
+    const quietHours = quietHoursByUser.get(notification.user_id);
+    if (quietHours && isQuietTime(quietHours, now)) {
+      const holdUntil = quietHoursEnd(quietHours, now).toISOString();
+      held.set(holdUntil, [...(held.get(holdUntil) || []), notification.id]);
+      counts.held++;
+      continue;
+    }
+
+    const targets = (targetsByUser.get(notification.user_id) || []).filter(target => !goneSubscriptions.has(target.id));
+    if (targets.length === 0) {
+      await markDropped(supabase, notification.id, 'no_subscriptions');
+      counts.dropped++;
+      continue;
+    }
+
+    // A newer alert for the same commute or hazard replaces the one on screen
+    const message = {
+      title: notification.title,
+      body: notification.body,
+      url: notification.url,
+      tag: notification.kind === 'commute_risk' ? `commute-${notification.commute_id}` : `hazard-${notification.hazard_id}`,
+    };
+
+    let delivered = false;
+    for (const target of targets) {
+      try {
+        const response = await sendWebPush(target, message, vapid, {
+          ttlSeconds: Math.max(MIN_TTL_SECONDS, secondsLeft),
+          urgency: notification.urgent ? 'high' : 'normal',
+        });
+        const detail = await response.text();
+
+        if (response.ok) {
+          delivered = true;
+          usedSubscriptions.add(target.id);
+        } else if (response.status === 404 || response.status === 410) {
+          goneSubscriptions.add(target.id);
+        } else {
+          console.error(`Push service answered ${response.status} for subscription ${target.id}:`, detail);
+        }
+      } catch (pushError) {
+        console.error(`Could not push to subscription ${target.id}:`, pushError);
+      }
+    }
+
+    if (delivered) {
+      const { error: updateError } = await supabase
+        .from('notifications')
+        .update({ sent_at: now.toISOString() })
+        .eq('id', notification.id);
+      if (updateError) console.error(`Could not mark notification ${notification.id} sent:`, updateError);
+      counts.sent++;
+    } else if (targets.every(target => goneSubscriptions.has(target.id))) {
+      await markDropped(supabase, notification.id, 'no_subscriptions');
+      counts.dropped++;
+    } else {
+      // Left queued for the next run, until it is too late to matter
+      counts.failed++;
+    }
+  }
+
+  for (const [holdUntil, ids] of held) {
+    const { error: holdError } = await supabase.from('notifications').update({ hold_until: holdUntil }).in('id', ids);
+    if (holdError) console.error('Could not hold notifications for quiet hours:', holdError);
+  }
+
+  if (goneSubscriptions.size > 0) {
+    const { error: deleteError } = await supabase.from('push_subscriptions').delete().in('id', [...goneSubscriptions]);
+    if (deleteError) console.error('Could not remove expired push subscriptions:', deleteError);
+  }
+  if (usedSubscriptions.size > 0) {
+    await supabase.from('push_subscriptions').update({ last_sent_at: now.toISOString() }).in('id', [...usedSubscriptions]);
+  }
+
+  console.log(`🔔 Sent ${counts.sent} notifications, held ${counts.held} for quiet hours, dropped ${counts.dropped}, ${counts.failed} to retry`);
+
+  return {
+    success: true,
+    sentCount: counts.sent,
+    heldCount: counts.held,
+    droppedCount: counts.dropped,
+    failedCount: counts.failed,
+    removedSubscriptions: goneSubscriptions.size,
+    dispatchTimestamp: now.toISOString(),
+  };
+});
+
+async function markDropped(supabase: SupabaseClient, notificationId: string, reason: 'expired' | 'no_subscriptions') {
+  const { error } = await supabase.from('notifications').update({ dropped_reason: reason }).eq('id', notificationId);
+  if (error) console.error(`Could not drop notification ${notificationId}:`, error);
+}
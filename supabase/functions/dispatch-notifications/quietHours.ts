@@ -0,0 +1,37 @@
+import { zonedParts } from '../_shared/zonedTime.ts';
+
+export interface QuietHours {
+  quiet_hours_start: string | null; // "22:00:00", local to time_zone
+  quiet_hours_end: string | null;
+  time_zone: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const minuteOfDay = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+// Whether `now` falls in the recipient's quiet hours. A window like 22:00-06:00 runs past midnight.
+export function isQuietTime(quietHours: QuietHours, now: Date): boolean {
+  if (!quietHours.quiet_hours_start || !quietHours.quiet_hours_end) return false;
+
+  const local = zonedParts(now, quietHours.time_zone);
+  const minute = local.hour * 60 + local.minute;
+  const start = minuteOfDay(quietHours.quiet_hours_start);
+  const end = minuteOfDay(quietHours.quiet_hours_end);
+
+  if (start === end) return false;
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+// When the quiet hours `now` falls in are over, to the minute. Checked again then, so a daylight
+// saving change in between costs at most one more wait.
+export function quietHoursEnd(quietHours: QuietHours, now: Date): Date {
+  const local = zonedParts(now, quietHours.time_zone);
+  const minute = local.hour * 60 + local.minute;
+  const minutesLeft = (minuteOfDay(quietHours.quiet_hours_end!) - minute + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const startOfMinute = now.getTime() - local.second * 1000 - now.getMilliseconds();
+  return new Date(startOfMinute + minutesLeft * 60 * 1000);
+}
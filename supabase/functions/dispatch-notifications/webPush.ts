@@ -0,0 +1,136 @@
+// Web Push (RFC 8030) with VAPID authentication (RFC 8292) and aes128gcm payload encryption
+// (RFC 8291), built on WebCrypto alone.
+import { httpFetch } from '../_shared/fetch.ts';
+
+// A browser's subscription as PushSubscription.toJSON() gives it; keys are base64url
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string; // The browser's P-256 public key
+  auth: string; // 16-byte authentication secret
+}
+
+export interface VapidKeys {
+  publicKey: string; // base64url uncompressed P-256 point, also given to the browser when subscribing
+  privateKey: string; // base64url private scalar
+  subject: string; // mailto: or https: contact for the push service
+}
+
+// One record holds the whole payload; push services accept bodies up to 4096 bytes
+const RECORD_SIZE = 4096;
+const MAX_PAYLOAD_BYTES = 3000;
+const VAPID_TOKEN_HOURS = 12;
+
+const encoder = new TextEncoder();
+
+export function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8));
+}
+
+// The aes128gcm body: salt, record size and our one-time public key, then the encrypted payload.
+// The key is agreed between a fresh sender key pair and the browser's key, mixed with its auth secret.
+export async function encryptPayload(
+  payload: Uint8Array,
+  target: PushTarget,
+  salt: Uint8Array = crypto.getRandomValues(new Uint8Array(16))
+): Promise<Uint8Array> {
+  if (payload.length > MAX_PAYLOAD_BYTES) {
+    throw new Error(`Push payload is ${payload.length} bytes; at most ${MAX_PAYLOAD_BYTES} fit`);
+  }
+
+  const browserPublicKey = base64UrlToBytes(target.p256dh);
+  const authSecret = base64UrlToBytes(target.auth);
+
+  const senderKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const senderPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', senderKeys.publicKey));
+  const browserKey = await crypto.subtle.importKey('raw', browserPublicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const sharedSecret = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: browserKey }, senderKeys.privateKey, 256));
+
+  const keyInfo = concat(encoder.encode('WebPush: info\0'), browserPublicKey, senderPublicKey);
+  const ikm = await hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  // The padding delimiter 2 marks the last (here, only) record
+  const key = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, key, concat(payload, new Uint8Array([2]))));
+
+  const header = new Uint8Array(21);
+  header.set(salt);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = senderPublicKey.length;
+  return concat(header, senderPublicKey, ciphertext);
+}
+
+// The Authorization header identifying us to the push service at `audience` (its origin)
+export async function vapidAuthorization(audience: string, vapid: VapidKeys, now = Date.now()): Promise<string> {
+  const publicKey = base64UrlToBytes(vapid.publicKey);
+  const signingKey = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: bytesToBase64Url(publicKey.slice(1, 33)),
+      y: bytesToBase64Url(publicKey.slice(33, 65)),
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+
+  const encodePart = (value: unknown) => bytesToBase64Url(encoder.encode(JSON.stringify(value)));
+  const unsigned = `${encodePart({ typ: 'JWT', alg: 'ES256' })}.${encodePart({
+    aud: audience,
+    exp: Math.floor(now / 1000) + VAPID_TOKEN_HOURS * 3600,
+    sub: vapid.subject,
+  })}`;
+  // WebCrypto signs ECDSA as r || s, the form JWS expects
+  const signature = new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, signingKey, encoder.encode(unsigned)));
+
+  return `vapid t=${unsigned}.${bytesToBase64Url(signature)}, k=${vapid.publicKey}`;
+}
+
+// Push `message` to one browser. The push service answers 201 once it has queued it, and 404 or
+// 410 when the subscription is gone for good.
+export async function sendWebPush(
+  target: PushTarget,
+  message: unknown,
+  vapid: VapidKeys,
+  options: { ttlSeconds: number; urgency?: 'normal' | 'high' }
+): Promise<Response> {
+  const body = await encryptPayload(encoder.encode(JSON.stringify(message)), target);
+
+  return httpFetch(target.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: await vapidAuthorization(new URL(target.endpoint).origin, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(options.ttlSeconds),
+      Urgency: options.urgency ?? 'normal',
+    },
+    body,
+  });
+}
@@ -0,0 +1,108 @@
+// "When should I leave?": run the safety analysis for a range of departure times and pick the best window
+import type { DepartureSlot, DepartureTimeline, SafetyScore } from '../_shared/contracts.ts';
+
+export type { DepartureSlot, DepartureTimeline };
+
+export interface DepartureWindowRequest {
+  startTime?: string; // ISO, defaults to now
+  hours?: number;
+  intervalMinutes?: number;
+}
+
+export interface SlotAnalysis {
+  overallSafety: SafetyScore;
+  avgSnowDepth: number;
+  routeSegments?: Array<{ snowDepth: number }>;
+  contributingHazards?: Array<{ weight: number }>;
+}
+
+export const DEFAULT_WINDOW_HOURS = 12;
+export const DEFAULT_INTERVAL_MINUTES = 60;
+// OpenWeather's forecast only reaches five days out
+const MAX_WINDOW_HOURS = 120;
+const MAX_SLOTS = 25;
+// Departures analyzed at the same time, each of which fans out into weather lookups
+const SLOT_CONCURRENCY = 3;
+
+const SAFETY_RANK: Record<SafetyScore, number> = { safe: 0, caution: 1, danger: 2 };
+
+export function departureTimes(window: DepartureWindowRequest, now = Date.now()): Date[] {
+  const start = window.startTime ? new Date(window.startTime).getTime() : now;
+  if (Number.isNaN(start)) {
+    throw new Error(`Invalid departure window start: ${window.startTime}`);
+  }
+
+  const hours = Math.min(Math.max(window.hours ?? DEFAULT_WINDOW_HOURS, 0), MAX_WINDOW_HOURS);
+  // Widen the interval rather than analyze more than MAX_SLOTS departures
+  const interval = Math.max(window.intervalMinutes ?? DEFAULT_INTERVAL_MINUTES, (hours * 60) / (MAX_SLOTS - 1), 15);
+
+  const times: Date[] = [];
+  for (let offset = 0; offset <= hours * 60; offset += interval) {
+    times.push(new Date(Math.max(start, now) + offset * 60 * 1000));
+  }
+  return times;
+}
+
+export async function buildDepartureTimeline(
+  times: Date[],
+  analyze: (departureTime: string) => Promise<SlotAnalysis | null>
+): Promise<DepartureTimeline> {
+  const slots: DepartureSlot[] = new Array(times.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < times.length) {
+      const index = next++;
+      const departureTime = times[index].toISOString();
+      const analysis = await analyze(departureTime).catch(() => null);
+      const snowDepths = (analysis?.routeSegments || []).map(segment => segment.snowDepth);
+
+      slots[index] = {
+        departureTime,
+        overallSafety: analysis?.overallSafety ?? null,
+        avgSnowDepth: analysis ? Number(analysis.avgSnowDepth.toFixed(2)) : null,
+        maxSnowDepth: analysis ? Number(Math.max(0, ...snowDepths).toFixed(2)) : null,
+        hazardImpact: analysis
+          ? Number((analysis.contributingHazards || []).reduce((sum, hazard) => sum + hazard.weight, 0).toFixed(3))
+          : null,
+      };
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(SLOT_CONCURRENCY, times.length) }, worker));
+  return { slots, recommendedWindow: recommendWindow(slots) };
+}
+
+// The longest run of consecutive departures sharing the best verdict; ties go to the
+// run with less snow, then the earliest one
+export function recommendWindow(slots: DepartureSlot[]): DepartureTimeline['recommendedWindow'] {
+  const analyzed = slots.filter(slot => slot.overallSafety);
+  if (analyzed.length === 0) return null;
+
+  const bestRank = Math.min(...analyzed.map(slot => SAFETY_RANK[slot.overallSafety!]));
+  const inBestRun = (slot: DepartureSlot) => slot.overallSafety !== null && SAFETY_RANK[slot.overallSafety] === bestRank;
+  let best: { start: number; end: number; snow: number } | null = null;
+
+  for (let start = 0; start < slots.length; start++) {
+    if (!inBestRun(slots[start])) continue;
+
+    let end = start;
+    while (end + 1 < slots.length && inBestRun(slots[end + 1])) end++;
+
+    const run = slots.slice(start, end + 1);
+    const snow = run.reduce((sum, slot) => sum + (slot.avgSnowDepth ?? 0), 0) / run.length;
+    const longer = !best || end - start > best.end - best.start;
+    const sameLengthLessSnow = best && end - start === best.end - best.start && snow < best.snow;
+    if (longer || sameLengthLessSnow) {
+      best = { start, end, snow };
+    }
+    start = end;
+  }
+
+  if (!best) return null;
+  return {
+    start: slots[best.start].departureTime,
+    end: slots[best.end].departureTime,
+    overallSafety: slots[best.start].overallSafety!,
+  };
+}
@@ -0,0 +1,195 @@
+import type { DepartureTimeline, RouteSafetyAnalysis, VehicleInfo } from '../_shared/contracts.ts';
+import { getEnv } from '../_shared/env.ts';
+import { EdgeFunctionError } from '../_shared/errors.ts';
+import { httpFetch } from '../_shared/fetch.ts';
+import { createHandler } from '../_shared/http.ts';
+import { createAnonClient, SupabaseClient } from '../_shared/supabase.ts';
+import { DEFAULT_SAMPLE_INTERVAL_MILES, sampleRoute } from './sampling.ts';
+import { buildDepartureTimeline, departureTimes } from './departures.ts';
+
+interface DirectionsStep {
+  html_instructions: string;
+  distance: { text: string; value: number };
+  duration: { text: string; value: number };
+  start_location: { lat: number; lng: number };
+  polyline: { points: string };
+  maneuver?: string;
+}
+
+interface DirectionsRoute {
+  summary?: string;
+  overview_polyline: { points: string };
+  legs: Array<{
+    distance: { text: string; value: number };
+    duration: { text: string; value: number };
+    end_location: { lat: number; lng: number };
+    steps: DirectionsStep[];
+  }>;
+}
+
+const SAFETY_RANK: Record<string, number> = { safe: 0, caution: 1, danger: 2 };
+// Snow deeper than this on a segment counts towards the route's snow exposure
+const SNOW_EXPOSURE_THRESHOLD_INCHES = 1;
+const METERS_PER_MILE = 1609.34;
+
+function extractRoute(route: DirectionsRoute, index: number, sampleIntervalMiles: number) {
+  const leg = route.legs[0];
+
+  // Sample the route evenly by distance for weather analysis, each point tagged with distance and ETA
+  const coordinates = sampleRoute(leg.steps, sampleIntervalMiles);
+  if (coordinates.length === 0) {
+    // No step geometry: fall back to step start points
+    for (const step of leg.steps) {
+      coordinates.push({ lat: step.start_location.lat, lng: step.start_location.lng, distanceMiles: 0, etaSeconds: 0 });
+    }
+    coordinates.push({ lat: leg.end_location.lat, lng: leg.end_location.lng, distanceMiles: 0, etaSeconds: leg.duration.value });
+  }
+
+  // Extract turn-by-turn directions
+  const steps = leg.steps.map(step => ({
+    instruction: step.html_instructions.replace(/<[^>]*>/g, ''), // Remove HTML tags
+    distance: step.distance.text,
+    duration: step.duration.text,
+    maneuver: step.maneuver || 'straight',
+    startLocation: { lat: step.start_location.lat, lng: step.start_location.lng }
+  }));
+
+  return {
+    index,
+    summary: route.summary || `Route ${index + 1}`,
+    distance: leg.distance.text,
+    duration: leg.duration.text,
+    distanceMeters: leg.distance.value,
+    durationSeconds: leg.duration.value,
+    coordinates,
+    polyline: route.overview_polyline.points,
+    steps
+  };
+}
+
+type ExtractedRoute = ReturnType<typeof extractRoute>;
+
+// Run one route through analyze-route-safety and summarize what matters for comparing routes
+async function analyzeRoute(
+  supabase: SupabaseClient,
+  route: ExtractedRoute,
+  vehicleInfo: VehicleInfo | undefined,
+  travelMode: string,
+  departureTime: string
+) {
+  const { data, error } = await supabase.functions.invoke<RouteSafetyAnalysis>('analyze-route-safety', {
+    body: { coordinates: route.coordinates, polyline: route.polyline, vehicleInfo, travelMode, departureTime }
+  });
+
+  if (error || !data) {
+    console.error(`Safety analysis failed for route ${route.index}:`, error);
+    return { ...route, safety: null, snowExposureMiles: null, hazardCount: null, hazardImpact: null };
+  }
+
+  const segments = data.routeSegments || [];
+  const snowySegments = segments.filter(segment => segment.snowDepth > SNOW_EXPOSURE_THRESHOLD_INCHES).length;
+  const distanceMiles = route.distanceMeters / METERS_PER_MILE;
+  const hazards = data.contributingHazards || [];
+
+  return {
+    ...route,
+    safety: data,
+    snowExposureMiles: segments.length > 0 ? Number((distanceMiles * snowySegments / segments.length).toFixed(1)) : 0,
+    hazardCount: hazards.length,
+    hazardImpact: hazards.reduce((sum, hazard) => sum + hazard.weight, 0)
+  };
+}
+
+type AnalyzedRoute = Awaited<ReturnType<typeof analyzeRoute>>;
+
+// Safest first: verdict, then hazard weight, snow exposure and finally travel time.
+// Routes whose analysis failed go last.
+function rankRoutes(routes: AnalyzedRoute[]) {
+  const sortKey = (route: AnalyzedRoute) => route.safety
+    ? [SAFETY_RANK[route.safety.overallSafety] ?? 1, route.hazardImpact ?? 0, route.snowExposureMiles ?? 0, route.durationSeconds]
+    : [Infinity, Infinity, Infinity, route.durationSeconds];
+
+  return [...routes]
+    .sort((a, b) => {
+      const keyA = sortKey(a);
+      const keyB = sortKey(b);
+      for (let i = 0; i < keyA.length; i++) {
+        if (keyA[i] !== keyB[i]) return keyA[i] - keyB[i];
+      }
+      return 0;
+    })
+    .map((route, position) => ({ ...route, rank: position + 1, recommended: position === 0 }));
+}
+
+export const handler = createHandler('get-route', async ({
+  startLocation,
+  endLocation,
+  travelMode,
+  vehicleInfo,
+  alternatives,
+  sampleIntervalMiles = DEFAULT_SAMPLE_INTERVAL_MILES,
+  departureTime,
+  departureWindow
+}) => {
+  const departure = departureTime ? new Date(departureTime) : new Date();
+  const googleMapsApiKey = getEnv('googleMapsApiKey');
+  const supabase = createAnonClient();
+
+  // Get route and its alternatives from Google Maps Directions API
+  const directionsUrl = new URL('https://maps.googleapis.com/maps/api/directions/json');
+  directionsUrl.searchParams.set('origin', startLocation);
+  directionsUrl.searchParams.set('destination', endLocation);
+  directionsUrl.searchParams.set('mode', travelMode);
+  directionsUrl.searchParams.set('alternatives', String(alternatives));
+  // Google only accepts departure times that are not in the past
+  if (departure.getTime() > Date.now()) {
+    directionsUrl.searchParams.set('departure_time', Math.floor(departure.getTime() / 1000).toString());
+  }
+  directionsUrl.searchParams.set('key', googleMapsApiKey);
+
+  const response = await httpFetch(directionsUrl.toString());
+  const directionsData = await response.json();
+
+  if (directionsData.status === 'ZERO_RESULTS' || directionsData.status === 'NOT_FOUND') {
+    throw new EdgeFunctionError('not_found', `No ${travelMode} route found from ${startLocation} to ${endLocation}`, { status: directionsData.status });
+  }
+  if (directionsData.status !== 'OK') {
+    throw new EdgeFunctionError('upstream_error', `Google Maps API error: ${directionsData.status}`, { status: directionsData.status });
+  }
+
+  const extractedRoutes = (directionsData.routes as DirectionsRoute[]).map((route, index) => extractRoute(route, index, sampleIntervalMiles));
+  console.log(`Found ${extractedRoutes.length} route option(s), sampled every ${sampleIntervalMiles} mi`);
+
+  const analyzedRoutes = await Promise.all(
+    extractedRoutes.map(route => analyzeRoute(supabase, route, vehicleInfo, travelMode, departure.toISOString()))
+  );
+  const routes = rankRoutes(analyzedRoutes);
+
+  console.log('Route ranking:', routes.map(route => `${route.rank}. ${route.summary} (${route.safety?.overallSafety ?? 'unanalyzed'})`).join(', '));
+
+  // "When should I leave?": re-run the recommended route's analysis across the departure window
+  let departureTimeline: DepartureTimeline | null = null;
+  if (departureWindow) {
+    const times = departureTimes({ startTime: departureTime, ...departureWindow });
+    console.log(`🕒 Evaluating ${times.length} departures for ${routes[0].summary}`);
+    departureTimeline = await buildDepartureTimeline(times, async (slotDeparture) => {
+      const { data, error } = await supabase.functions.invoke<RouteSafetyAnalysis>('analyze-route-safety', {
+        body: { coordinates: routes[0].coordinates, polyline: routes[0].polyline, vehicleInfo, travelMode, departureTime: slotDeparture }
+      });
+      if (error) {
+        console.error(`Safety analysis failed for departure ${slotDeparture}:`, error);
+        return null;
+      }
+      return data;
+    });
+  }
+
+  return {
+    // Recommended route, kept under `route` for callers that only need one
+    route: routes[0],
+    routes,
+    recommendedIndex: routes[0].index,
+    departureTime: departure.toISOString(),
+    departureTimeline
+  };
+});
@@ -0,0 +1,92 @@
+// Even, distance-based sampling of a route for weather analysis
+import { decodePolyline, haversineMiles } from '../_shared/geo.ts';
+
+export interface RouteSample {
+  lat: number;
+  lng: number;
+  distanceMiles: number; // Cumulative distance from the start
+  etaSeconds: number; // Estimated time after departure
+}
+
+interface StepGeometry {
+  polyline: { points: string };
+  duration: { value: number };
+}
+
+interface PathPoint {
+  lat: number;
+  lng: number;
+  distanceMiles: number;
+  etaSeconds: number;
+}
+
+export const DEFAULT_SAMPLE_INTERVAL_MILES = 2;
+// Long trips widen the interval rather than exceed this many weather lookups
+export const MAX_ROUTE_SAMPLES = 60;
+
+// Detailed route geometry from the step polylines, with cumulative distance and time.
+// Each step's duration is spread over its points in proportion to distance.
+function buildPath(steps: StepGeometry[]): PathPoint[] {
+  const path: PathPoint[] = [];
+  let distance = 0;
+  let eta = 0;
+
+  for (const step of steps) {
+    const points = decodePolyline(step.polyline.points);
+    const lengths = points.slice(1).map((point, i) => haversineMiles(points[i], point));
+    const stepLength = lengths.reduce((sum, length) => sum + length, 0);
+
+    points.forEach((point, i) => {
+      if (i === 0 && path.length > 0) return; // Shared with the previous step's last point
+      if (i > 0) {
+        distance += lengths[i - 1];
+        eta += stepLength > 0 ? step.duration.value * (lengths[i - 1] / stepLength) : 0;
+      }
+      path.push({ lat: point.lat, lng: point.lng, distanceMiles: distance, etaSeconds: eta });
+    });
+
+    // Steps without geometry still take time
+    if (points.length < 2) eta += step.duration.value;
+  }
+
+  return path;
+}
+
+// Points every `intervalMiles` along the route, plus the start and the destination
+export function sampleRoute(steps: StepGeometry[], intervalMiles = DEFAULT_SAMPLE_INTERVAL_MILES): RouteSample[] {
+  const path = buildPath(steps);
+  if (path.length === 0) return [];
+
+  const totalMiles = path[path.length - 1].distanceMiles;
+  const interval = Math.max(intervalMiles, totalMiles / (MAX_ROUTE_SAMPLES - 1), 0.1);
+  const round = (sample: PathPoint): RouteSample => ({
+    lat: sample.lat,
+    lng: sample.lng,
+    distanceMiles: Number(sample.distanceMiles.toFixed(2)),
+    etaSeconds: Math.round(sample.etaSeconds),
+  });
+
+  const samples: RouteSample[] = [round(path[0])];
+  let segment = 0;
+
+  for (let target = interval; target < totalMiles; target += interval) {
+    while (path[segment + 1].distanceMiles < target) segment++;
+    const start = path[segment];
+    const end = path[segment + 1];
+    const span = end.distanceMiles - start.distanceMiles;
+    const t = span > 0 ? (target - start.distanceMiles) / span : 0;
+
+    samples.push(round({
+      lat: start.lat + t * (end.lat - start.lat),
+      lng: start.lng + t * (end.lng - start.lng),
+      distanceMiles: target,
+      etaSeconds: start.etaSeconds + t * (end.etaSeconds - start.etaSeconds),
+    }));
+  }
+
+  if (path.length > 1) {
+    samples.push(round(path[path.length - 1]));
+  }
+
+  return samples;
+}
@@ -0,0 +1,84 @@
+import { getEnv } from '../_shared/env.ts';
+import { EdgeFunctionError } from '../_shared/errors.ts';
+import { httpFetch } from '../_shared/fetch.ts';
+import { createHandler } from '../_shared/http.ts';
+import { createSnowDepthProviders, resolveSnowDepth } from './snowDepth.ts';
+
+// Requests for times closer than this to now use current conditions instead of the forecast
+const FORECAST_THRESHOLD_MS = 45 * 60 * 1000;
+
+interface ForecastEntry {
+  dt: number;
+  main: { temp: number; pressure: number; feels_like: number };
+  weather: unknown[];
+  wind: unknown;
+  snow?: { '3h'?: number };
+}
+
+// The 3-hourly forecast entry closest to the requested time (clamped to the forecast's range)
+function nearestForecastEntry(list: ForecastEntry[], at: number): ForecastEntry {
+  return list.reduce((best, entry) =>
+    Math.abs(entry.dt * 1000 - at) < Math.abs(best.dt * 1000 - at) ? entry : best
+  );
+}
+
+export const handler = createHandler('get-weather', async ({ city, lat, lng, time }) => {
+  const openWeatherApiKey = getEnv('openWeatherApiKey');
+
+  const at = time ? new Date(time).getTime() : Date.now();
+  const useForecast = at - Date.now() > FORECAST_THRESHOLD_MS;
+
+  const weatherUrl = new URL(`https://api.openweathermap.org/data/2.5/${useForecast ? 'forecast' : 'weather'}`);
+
+  if (lat !== undefined && lng !== undefined) {
+    weatherUrl.searchParams.set('lat', lat.toString());
+    weatherUrl.searchParams.set('lon', lng.toString());
+  } else {
+    weatherUrl.searchParams.set('q', city!);
+  }
+
+  weatherUrl.searchParams.set('appid', openWeatherApiKey);
+  weatherUrl.searchParams.set('units', 'imperial');
+
+  const response = await httpFetch(weatherUrl.toString());
+  const responseData = await response.json();
+
+  if (response.status !== 200) {
+    throw new EdgeFunctionError('upstream_error', `OpenWeather API error: ${responseData.message}`, { status: response.status });
+  }
+
+  // The forecast endpoint returns a list of 3-hourly entries plus the city separately
+  const weatherData = useForecast
+    ? { ...nearestForecastEntry(responseData.list, at), name: responseData.city?.name, coord: responseData.city?.coord }
+    : responseData;
+  if (useForecast) {
+    console.log(`🕒 Forecast for ${new Date(weatherData.dt * 1000).toISOString()} (requested ${new Date(at).toISOString()})`);
+  }
+
+  // Snow depth from the first provider that has data for this point at the requested time
+  const snowDepth = await resolveSnowDepth(createSnowDepthProviders(), {
+    lat: weatherData.coord?.lat ?? lat,
+    lng: weatherData.coord?.lon ?? lng,
+    at,
+    current: weatherData
+  });
+  const snowDepthAgeMinutes = Math.max(0, Math.round((at - new Date(snowDepth.observedAt).getTime()) / 60000));
+  console.log(`❄️ Snow depth ${snowDepth.depthInches.toFixed(1)}" from ${snowDepth.source} (${snowDepthAgeMinutes} min old)`);
+
+  return {
+    name: weatherData.name,
+    is_forecast: useForecast,
+    valid_at: new Date((weatherData.dt ?? at / 1000) * 1000).toISOString(),
+    main: {
+      temp: weatherData.main.temp,
+      pressure: weatherData.main.pressure,
+      feels_like: weatherData.main.feels_like
+    },
+    weather: weatherData.weather,
+    wind: weatherData.wind,
+    snow_depth: snowDepth.depthInches,
+    snow_depth_source: snowDepth.source,
+    snow_depth_observed_at: snowDepth.observedAt,
+    snow_depth_age_minutes: snowDepthAgeMinutes
+  };
+});
@@ -0,0 +1,189 @@
+// Snow depth sources for get-weather. Providers are tried in order; the first reading wins.
+import { httpFetch } from '../_shared/fetch.ts';
+
+export interface SnowDepthReading {
+  depthInches: number;
+  source: string;
+  observedAt: string; // ISO time the value refers to
+}
+
+export interface SnowDepthContext {
+  lat: number;
+  lng: number;
+  // Time the depth is wanted for (ms). Defaults to now; future times use forecast hours.
+  at?: number;
+  // OpenWeather conditions for that time (used by the last-resort estimate)
+  current: {
+    main: { temp: number };
+    snow?: { '1h'?: number; '3h'?: number };
+    dt?: number;
+  };
+}
+
+export interface SnowDepthProvider {
+  readonly name: string;
+  getSnowDepth(context: SnowDepthContext): Promise<SnowDepthReading | null>;
+}
+
+interface HourlySnowHistory {
+  time: string[];
+  snow_depth?: (number | null)[]; // meters
+  snowfall?: (number | null)[]; // centimeters
+  temperature_2m?: (number | null)[]; // °F
+}
+
+const HISTORY_DAYS = 3;
+// Matches OpenWeather's 5 day forecast range, plus today
+const FORECAST_DAYS = 6;
+const INCHES_PER_METER = 39.3701;
+const INCHES_PER_CM = 0.393701;
+// Degree-hour melt: inches of snowpack lost per °F-hour above freezing
+const MELT_INCHES_PER_DEGREE_HOUR = 0.01;
+// Settling of fresh snow per hour
+const HOURLY_COMPACTION = 0.005;
+// Typical 10:1 snow-to-liquid ratio for OpenWeather's liquid-equivalent snow volume (mm)
+const SNOW_TO_LIQUID_RATIO = 10;
+const MM_PER_INCH = 25.4;
+
+// Hourly model history for a point from Open-Meteo. Fetched once and shared by the providers below.
+export class OpenMeteoHistory {
+  private cache = new Map<string, Promise<HourlySnowHistory | null>>();
+
+  get(lat: number, lng: number): Promise<HourlySnowHistory | null> {
+    const key = `${lat.toFixed(3)},${lng.toFixed(3)}`;
+    if (!this.cache.has(key)) {
+      this.cache.set(key, this.fetchHistory(lat, lng));
+    }
+    return this.cache.get(key)!;
+  }
+
+  private async fetchHistory(lat: number, lng: number): Promise<HourlySnowHistory | null> {
+    try {
+      const url = new URL('https://api.open-meteo.com/v1/forecast');
+      url.searchParams.set('latitude', lat.toString());
+      url.searchParams.set('longitude', lng.toString());
+      url.searchParams.set('hourly', 'snow_depth,snowfall,temperature_2m');
+      url.searchParams.set('temperature_unit', 'fahrenheit');
+      url.searchParams.set('past_days', HISTORY_DAYS.toString());
+      url.searchParams.set('forecast_days', FORECAST_DAYS.toString());
+      url.searchParams.set('timezone', 'GMT');
+
+      const response = await httpFetch(url.toString());
+      if (!response.ok) {
+        console.log(`⚠️ Open-Meteo request failed: ${response.status}`);
+        return null;
+      }
+
+      const data = await response.json();
+      return data.hourly ?? null;
+    } catch (error) {
+      console.log('⚠️ Open-Meteo request error:', error.message);
+      return null;
+    }
+  }
+}
+
+// Index of the latest hourly entry at or before the given time
+function latestHourBefore(times: string[], at: number): number {
+  let index = -1;
+  times.forEach((time, i) => {
+    if (new Date(`${time}Z`).getTime() <= at) index = i;
+  });
+  return index;
+}
+
+// Gridded model snow depth (Open-Meteo, backed by national weather model analyses)
+export class GriddedSnowDepthProvider implements SnowDepthProvider {
+  readonly name = 'open-meteo-gridded';
+
+  constructor(private readonly history: OpenMeteoHistory, private readonly now = () => Date.now()) {}
+
+  async getSnowDepth({ lat, lng, at }: SnowDepthContext): Promise<SnowDepthReading | null> {
+    const hourly = await this.history.get(lat, lng);
+    if (!hourly?.snow_depth) return null;
+
+    const index = latestHourBefore(hourly.time, at ?? this.now());
+    // Walk back to the most recent hour that actually has a value
+    for (let i = index; i >= 0; i--) {
+      const depthMeters = hourly.snow_depth[i];
+      if (depthMeters !== null && depthMeters !== undefined) {
+        return {
+          depthInches: depthMeters * INCHES_PER_METER,
+          source: this.name,
+          observedAt: new Date(`${hourly.time[i]}Z`).toISOString(),
+        };
+      }
+    }
+    return null;
+  }
+}
+
+// Deterministic estimate from recent hourly snowfall and temperature: accumulate snowfall,
+// melt by degree-hours above freezing and settle fresh snow over time.
+export class SnowfallHistoryEstimator implements SnowDepthProvider {
+  readonly name = 'snowfall-history-estimate';
+
+  constructor(private readonly history: OpenMeteoHistory, private readonly now = () => Date.now()) {}
+
+  async getSnowDepth({ lat, lng, at }: SnowDepthContext): Promise<SnowDepthReading | null> {
+    const hourly = await this.history.get(lat, lng);
+    if (!hourly?.snowfall || !hourly.temperature_2m) return null;
+
+    const lastIndex = latestHourBefore(hourly.time, at ?? this.now());
+    if (lastIndex < 0) return null;
+
+    let depthInches = 0;
+    for (let i = 0; i <= lastIndex; i++) {
+      const snowfallInches = (hourly.snowfall[i] ?? 0) * INCHES_PER_CM;
+      const temperature = hourly.temperature_2m[i] ?? 32;
+      depthInches += snowfallInches;
+      depthInches -= Math.max(temperature - 32, 0) * MELT_INCHES_PER_DEGREE_HOUR;
+      depthInches *= 1 - HOURLY_COMPACTION;
+      depthInches = Math.max(depthInches, 0);
+    }
+
+    return {
+      depthInches,
+      source: this.name,
+      observedAt: new Date(`${hourly.time[lastIndex]}Z`).toISOString(),
+    };
+  }
+}
+
+// Last resort: only what the current OpenWeather observation says about falling snow
+export class CurrentConditionsEstimator implements SnowDepthProvider {
+  readonly name = 'current-conditions-estimate';
+
+  getSnowDepth({ current }: SnowDepthContext): Promise<SnowDepthReading | null> {
+    const liquidMm = current.snow?.['3h'] ?? current.snow?.['1h'] ?? 0;
+    const freezing = current.main.temp <= 32;
+    const depthInches = freezing ? (liquidMm * SNOW_TO_LIQUID_RATIO) / MM_PER_INCH : 0;
+
+    return Promise.resolve({
+      depthInches,
+      source: this.name,
+      observedAt: new Date((current.dt ?? Date.now() / 1000) * 1000).toISOString(),
+    });
+  }
+}
+
+export function createSnowDepthProviders(): SnowDepthProvider[] {
+  const history = new OpenMeteoHistory();
+  return [
+    new GriddedSnowDepthProvider(history),
+    new SnowfallHistoryEstimator(history),
+    new CurrentConditionsEstimator(),
+  ];
+}
+
+export async function resolveSnowDepth(providers: SnowDepthProvider[], context: SnowDepthContext): Promise<SnowDepthReading> {
+  for (const provider of providers) {
+    try {
+      const reading = await provider.getSnowDepth(context);
+      if (reading) return reading;
+    } catch (error) {
+      console.log(`⚠️ Snow depth provider ${provider.name} failed:`, error.message);
+    }
+  }
+  return { depthInches: 0, source: 'none', observedAt: new Date().toISOString() };
+}
@@ -0,0 +1,212 @@
+import { getCallerKey, getRequestUserId } from '../_shared/auth.ts';
+import type { FunctionBody, HazardReport } from '../_shared/contracts.ts';
+import { EdgeFunctionError } from '../_shared/errors.ts';
+import { loadTtlHours } from '../_shared/hazardStatus.ts';
+import { createHandler } from '../_shared/http.ts';
+import { createServiceClient, SupabaseClient } from '../_shared/supabase.ts';
+import {
+  CandidateHazard,
+  compatibleTypes,
+  corroboratedConfidence,
+  findDuplicate,
+  higherSeverity,
+  MERGE_WINDOW_HOURS,
+  mergeRadiusMiles,
+} from './matching.ts';
+import { decodeHazardPhotos, storeHazardPhotos } from './media.ts';
+
+type SubmittedReport = FunctionBody<'submit-hazard'>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const METERS_PER_MILE = 1609.34;
+
+export const handler = createHandler('submit-hazard', async (report, req) => {
+  // Reports, sightings and counts are only writable with the service role
+  const supabase = createServiceClient();
+  const photos = decodeHazardPhotos(report.photos ?? []);
+  const userId = await getRequestUserId(req);
+  const reporterKey = await getCallerKey(req, userId);
+  const now = new Date();
+
+  const duplicate = report.location ? await findLiveDuplicate(supabase, report, now) : null;
+  if (duplicate) {
+    const merged = await mergeIntoHazard(supabase, duplicate.hazard, duplicate.distanceMiles, report, userId, reporterKey, now);
+    // Photos of a merged report are photos of the hazard it joined
+    return { ...merged, media: await storeHazardPhotos(supabase, merged.hazard.id, merged.sightingId, photos) };
+  }
+
+  const { data: hazard, error } = await supabase
+    .from('hazard_reports')
+    .insert({
+      hazard_type: report.hazardType,
+      title: report.title,
+      description: report.description,
+      severity: report.severity,
+      location_address: report.location?.address,
+      location_lat: report.location?.lat,
+      location_lng: report.location?.lng,
+      location_confidence: report.location?.confidence,
+      location_source: report.location?.source,
+      ai_reasoning: report.aiReasoning,
+      user_id: userId,
+      confidence: corroboratedConfidence(1),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new EdgeFunctionError('database_error', 'Could not save the hazard report', { message: error.message });
+  }
+
+  const { error: reporterError } = await supabase
+    .from('hazard_reporters')
+    .insert({ hazard_id: hazard.id, reporter_key: reporterKey, sighting_id: null });
+  if (reporterError) {
+    // The hazard is saved; its reporter may just count twice if they report it again
+    console.error(`Could not record the reporter of hazard ${hazard.id}:`, reporterError);
+  }
+
+  console.log(`🚧 New ${report.hazardType} hazard ${hazard.id}`);
+  const media = await storeHazardPhotos(supabase, hazard.id, null, photos);
+  return { hazard: hazard as HazardReport, merged: false, sightingId: null, distanceMiles: null, media };
+});
+
+// The closest live hazard of a compatible type seen recently near the report
+async function findLiveDuplicate(supabase: SupabaseClient, report: SubmittedReport, now: Date) {
+  const seenSince = new Date(now.getTime() - MERGE_WINDOW_HOURS * HOUR_MS).toISOString();
+
+  // hazards_near only returns live hazards
+  let query = supabase
+    .rpc('hazards_near', {
+      lat: report.location!.lat,
+      lng: report.location!.lng,
+      radius_m: mergeRadiusMiles(report.hazardType) * METERS_PER_MILE,
+    })
+    .gte('last_seen_at', seenSince);
+
+  const types = compatibleTypes(report.hazardType);
+  if (types) query = query.in('hazard_type', types);
+
+  const { data, error } = await query;
+  if (error) {
+    // Better a duplicate than a lost report
+    console.error('Could not look for duplicate hazards:', error);
+    return null;
+  }
+
+  return findDuplicate(
+    { hazardType: report.hazardType, location: report.location! },
+    (data || []) as (HazardReport & CandidateHazard)[]
+  );
+}
+
+// Record the report as a sighting and count it towards the hazard: it is confirmed, seen now
+// and stays up for another lifetime of its type. Each reporter counts once: a repeat report
+// replaces their sighting, and the original reporter's adds none.
+async function mergeIntoHazard(
+  supabase: SupabaseClient,
+  hazard: HazardReport,
+  distanceMiles: number,
+  report: SubmittedReport,
+  userId: string | null,
+  reporterKey: string,
+  now: Date
+) {
+  const { data: reporter, error: reporterError } = await supabase
+    .from('hazard_reporters')
+    .select('sighting_id')
+    .eq('hazard_id', hazard.id)
+    .eq('reporter_key', reporterKey)
+    .maybeSingle();
+
+  if (reporterError) {
+    throw new EdgeFunctionError('database_error', 'Could not look up the reporter', { message: reporterError.message });
+  }
+
+  const sighting = reporter && !reporter.sighting_id
+    ? null
+    : await recordSighting(supabase, hazard, distanceMiles, report, userId, reporterKey, reporter?.sighting_id ?? null);
+
+  // Counted from the sightings rather than incremented, so concurrent reports are not lost
+  const [{ count, error: countError }, ttlHours] = await Promise.all([
+    supabase.from('hazard_sightings').select('id', { count: 'exact', head: true }).eq('hazard_id', hazard.id),
+    loadTtlHours(supabase, hazard.hazard_type),
+  ]);
+
+  if (countError) {
+    throw new EdgeFunctionError('database_error', 'Could not count sightings', { message: countError.message });
+  }
+
+  const reportCount = (count ?? 0) + 1;
+  const renewedExpiry = new Date(now.getTime() + ttlHours * HOUR_MS);
+  const { data: merged, error: updateError } = await supabase
+    .from('hazard_reports')
+    .update({
+      report_count: reportCount,
+      confidence: corroboratedConfidence(reportCount),
+      severity: higherSeverity(hazard.severity, report.severity),
+      status: 'confirmed',
+      last_seen_at: now.toISOString(),
+      expires_at: new Date(Math.max(new Date(hazard.expires_at).getTime(), renewedExpiry.getTime())).toISOString(),
+    })
+    .eq('id', hazard.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw new EdgeFunctionError('database_error', 'Could not update the hazard', { message: updateError.message });
+  }
+
+  console.log(`🔁 Merged ${report.hazardType} report into hazard ${hazard.id} (${distanceMiles.toFixed(2)} mi away, ${reportCount} reports)`);
+  return {
+    hazard: merged as HazardReport,
+    merged: true,
+    sightingId: sighting?.id ?? null,
+    distanceMiles: Number(distanceMiles.toFixed(3)),
+  };
+}
+
+// Insert the reporter's sighting, or replace the one they made before
+async function recordSighting(
+  supabase: SupabaseClient,
+  hazard: HazardReport,
+  distanceMiles: number,
+  report: SubmittedReport,
+  userId: string | null,
+  reporterKey: string,
+  sightingId: string | null
+): Promise<{ id: string } | null> {
+  const row = {
+    hazard_id: hazard.id,
+    user_id: userId,
+    hazard_type: report.hazardType,
+    description: report.description,
+    severity: report.severity,
+    location_address: report.location?.address,
+    location_lat: report.location?.lat,
+    location_lng: report.location?.lng,
+    distance_miles: Number(distanceMiles.toFixed(3)),
+  };
+  const { data: sighting, error: sightingError } = sightingId
+    ? await supabase.from('hazard_sightings').update(row).eq('id', sightingId).select('id').single()
+    : await supabase.from('hazard_sightings').insert(row).select('id').single();
+
+  if (sightingError) {
+    throw new EdgeFunctionError('database_error', 'Could not save the sighting', { message: sightingError.message });
+  }
+  if (sightingId) return sighting;
+
+  const { error: reporterError } = await supabase
+    .from('hazard_reporters')
+    .insert({ hazard_id: hazard.id, reporter_key: reporterKey, sighting_id: sighting.id });
+
+  if (reporterError) {
+    // Unique violation: the same reporter's other report got there first, and counts for both
+    if (reporterError.code === '23505') {
+      await supabase.from('hazard_sightings').delete().eq('id', sighting.id);
+      return null;
+    }
+    throw new EdgeFunctionError('database_error', 'Could not record the reporter', { message: reporterError.message });
+  }
+  return sighting;
+}
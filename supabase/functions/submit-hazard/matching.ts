@@ -0,0 +1,68 @@
+// Deciding whether a new report is another sighting of a hazard that is already live
+import { haversineMiles, LatLngPoint } from '../_shared/geo.ts';
+
+export interface CandidateHazard {
+  id: string;
+  hazard_type: string;
+  severity: string;
+  location_lat: number;
+  location_lng: number;
+}
+
+// Only hazards seen this recently can absorb a new report
+export const MERGE_WINDOW_HOURS = 6;
+// How close a report must be to count as the same hazard
+export const MERGE_RADIUS_MILES = 0.2;
+const MERGE_RADIUS_MILES_BY_TYPE: Record<string, number> = {
+  pothole: 0.05, // Potholes are points; two on one block are two potholes
+  visibility: 1, // Fog and blowing snow cover an area
+};
+
+// Types drivers use for the same thing; 'unknown' matches any type
+const COMPATIBLE_TYPE_GROUPS = [
+  ['ice', 'snow'],
+  ['accident', 'obstruction', 'debris', 'spill'],
+  ['closure', 'construction'],
+];
+
+const SEVERITY_ORDER = ['low', 'medium', 'high'];
+
+export function mergeRadiusMiles(hazardType: string): number {
+  return MERGE_RADIUS_MILES_BY_TYPE[hazardType] ?? MERGE_RADIUS_MILES;
+}
+
+// Types a report can merge with, or null for any type
+export function compatibleTypes(hazardType: string): string[] | null {
+  if (hazardType === 'unknown') return null;
+  const group = COMPATIBLE_TYPE_GROUPS.find(types => types.includes(hazardType)) ?? [hazardType];
+  return [...group, 'unknown'];
+}
+
+// The closest compatible candidate within the report type's radius
+export function findDuplicate<T extends CandidateHazard>(
+  report: { hazardType: string; location: LatLngPoint },
+  candidates: T[]
+): { hazard: T; distanceMiles: number } | null {
+  const radius = mergeRadiusMiles(report.hazardType);
+  const types = compatibleTypes(report.hazardType);
+
+  let best: { hazard: T; distanceMiles: number } | null = null;
+  for (const hazard of candidates) {
+    if (types && !types.includes(hazard.hazard_type)) continue;
+
+    const distance = haversineMiles(report.location, { lat: Number(hazard.location_lat), lng: Number(hazard.location_lng) });
+    if (distance <= radius && (!best || distance < best.distanceMiles)) {
+      best = { hazard, distanceMiles: distance };
+    }
+  }
+  return best;
+}
+
+// One report is a coin flip; each independent report halves the doubt
+export function corroboratedConfidence(reportCount: number): number {
+  return Number((1 - 0.5 ** Math.max(reportCount, 1)).toFixed(3));
+}
+
+export function higherSeverity(a: string, b: string): string {
+  return SEVERITY_ORDER.indexOf(a) >= SEVERITY_ORDER.indexOf(b) ? a : b;
+}
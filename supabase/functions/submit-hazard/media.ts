@@ -0,0 +1,142 @@
+// Hazard photos: checked and stripped of metadata before the report is saved, then stored with a
+// thumbnail in the hazard-photos bucket and recorded in hazard_report_media
+import type { HazardMedia, HazardPhotoUpload } from '../_shared/contracts.ts';
+import { EdgeFunctionError } from '../_shared/errors.ts';
+import type { SupabaseClient } from '../_shared/supabase.ts';
+
+export const HAZARD_PHOTO_BUCKET = 'hazard-photos';
+// The bucket's file_size_limit
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+const SOI = 0xd8; // Start of image
+const SOS = 0xda; // Start of scan; entropy-coded image data follows
+const COM = 0xfe; // Comment
+const APP0 = 0xe0; // JFIF header, kept
+const APP14 = 0xee; // Adobe colour transform, kept so CMYK/YCCK photos still decode
+
+export interface DecodedPhoto {
+  image: Uint8Array;
+  thumbnail: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 4 && bytes[0] === 0xff && bytes[1] === SOI;
+}
+
+// The JPEG without its APP1-APP15 segments (EXIF with GPS, XMP, ICC, maker notes) and comments.
+// The app re-encodes photos, which already drops them; this covers clients that don't.
+export function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  if (!isJpeg(bytes)) throw new Error('Not a JPEG');
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error('Malformed JPEG segment');
+    // Markers may be padded with extra 0xFF bytes
+    while (bytes[offset + 1] === 0xff) offset++;
+
+    const marker = bytes[offset + 1];
+    if (marker === SOS) {
+      kept.push(bytes.subarray(offset));
+      return concat(kept);
+    }
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) throw new Error('Truncated JPEG segment');
+
+    const isMetadata = marker === COM || (marker > APP0 && marker <= 0xef && marker !== APP14);
+    if (!isMetadata) kept.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  throw new Error('JPEG has no image data');
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function decodeJpeg(base64: string, label: string): Uint8Array {
+  let bytes: Uint8Array;
+  try {
+    bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  } catch {
+    throw new EdgeFunctionError('validation_failed', `${label} is not valid base64`);
+  }
+  if (bytes.length > MAX_PHOTO_BYTES) {
+    throw new EdgeFunctionError('validation_failed', `${label} is larger than ${MAX_PHOTO_BYTES / 1024 / 1024} MB`);
+  }
+
+  try {
+    return stripJpegMetadata(bytes);
+  } catch (error) {
+    throw new EdgeFunctionError('validation_failed', `${label} is not a JPEG image`, { message: (error as Error).message });
+  }
+}
+
+// Every photo decoded and stripped, so a bad one rejects the report before anything is saved
+export function decodeHazardPhotos(photos: HazardPhotoUpload[]): DecodedPhoto[] {
+  return photos.map((photo, index) => ({
+    image: decodeJpeg(photo.image, `Photo ${index + 1}`),
+    thumbnail: decodeJpeg(photo.thumbnail, `Thumbnail ${index + 1}`),
+    width: photo.width,
+    height: photo.height,
+  }));
+}
+
+// Upload the photos under the hazard's folder and record them. The report is already saved, so a
+// photo that fails to store is logged and left out rather than failing the request.
+export async function storeHazardPhotos(
+  supabase: SupabaseClient,
+  hazardId: string,
+  sightingId: string | null,
+  photos: DecodedPhoto[]
+): Promise<HazardMedia[]> {
+  if (photos.length === 0) return [];
+  const bucket = supabase.storage.from(HAZARD_PHOTO_BUCKET);
+
+  const rows = [];
+  for (const photo of photos) {
+    const name = `${hazardId}/${crypto.randomUUID()}`;
+    const paths = { image: `${name}.jpg`, thumbnail: `${name}-thumb.jpg` };
+    const uploads = await Promise.all([
+      bucket.upload(paths.image, photo.image, { contentType: 'image/jpeg' }),
+      bucket.upload(paths.thumbnail, photo.thumbnail, { contentType: 'image/jpeg' }),
+    ]);
+
+    const failed = uploads.find(upload => upload.error);
+    if (failed) {
+      console.error(`Could not store a photo for hazard ${hazardId}:`, failed.error);
+      await bucket.remove([paths.image, paths.thumbnail]);
+      continue;
+    }
+
+    rows.push({
+      hazard_id: hazardId,
+      sighting_id: sightingId,
+      storage_path: paths.image,
+      thumbnail_path: paths.thumbnail,
+      content_type: 'image/jpeg',
+      width: photo.width,
+      height: photo.height,
+    });
+  }
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase.from('hazard_report_media').insert(rows).select();
+  if (error) {
+    console.error(`Could not record photos for hazard ${hazardId}:`, error);
+    await bucket.remove(rows.flatMap(row => [row.storage_path, row.thumbnail_path]));
+    return [];
+  }
+
+  console.log(`📷 Stored ${data.length} photo(s) for hazard ${hazardId}`);
+  return data as HazardMedia[];
+}
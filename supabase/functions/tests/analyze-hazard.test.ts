@@ -0,0 +1,109 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { HazardAnalysis } from '../_shared/contracts.ts';
+import { KeywordHazardClassifier } from '../analyze-hazard/classifier.ts';
+import { invoke, serviceClient, useFixtures } from './harness.ts';
+
+const USER_LOCATION = { lat: 43.0747, lng: -89.3841, address: 'Capitol Square, Madison', timestamp: Date.now() };
+const TEXT_SEARCH = '/maps/api/place/textsearch/json';
+
+Deno.test('the keyword classifier matches phrases written with an apostrophe', () => {
+  const classification = new KeywordHazardClassifier().classifySync("Can't see anything past the overpass");
+
+  assertEquals(classification.hazardType, 'visibility');
+  assert(classification.candidates[0].matchedTerms.includes("can't see"));
+});
+
+Deno.test('analyze-hazard reverse geocodes the user location', async () => {
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await invoke('analyze-hazard', {
+      userInput: 'reverse-geocode-only',
+      locationContext: { lastKnownLocation: USER_LOCATION },
+    });
+
+    assertEquals(status, 200);
+    assertEquals(body, { reverseGeocodeResult: '2 E Main St, Madison, WI 53703, USA' });
+    assertEquals(fixtures.requests[0].searchParams.get('latlng'), '43.0747,-89.3841');
+  } finally {
+    fixtures.restore();
+  }
+});
+
+Deno.test('analyze-hazard asks for a location when it has none', async () => {
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await invoke('analyze-hazard', { userInput: 'black ice on the bridge' });
+    const analysis = body as HazardAnalysis;
+
+    assertEquals(status, 200);
+    assertEquals(analysis.hazardType, 'ice');
+    assertEquals(analysis.needsLocationConfirmation, true);
+    assertEquals(analysis.location.source, 'user_input_only');
+    assertEquals(fixtures.requests.length, 0);
+  } finally {
+    fixtures.restore();
+  }
+});
+
+Deno.test('analyze-hazard places the hazard at a business found on a later results page', async () => {
+  const userInput = `black ice outside walgreens ${crypto.randomUUID().slice(0, 8)}`;
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await invoke('analyze-hazard', { userInput, locationContext: { lastKnownLocation: USER_LOCATION } });
+    const analysis = body as HazardAnalysis;
+
+    assertEquals(status, 200);
+    assertEquals(analysis.hazardType, 'ice');
+    assertEquals(analysis.location.source, 'places_api');
+    assertEquals(analysis.location.confidence, 'high');
+    assertEquals(analysis.location.coordinates, { lat: 43.0779, lng: -89.3790 });
+    assert(analysis.description.includes('near Walgreens'));
+
+    // Found in the first radius, after following the page token
+    const searches = fixtures.requests.filter(url => url.pathname === TEXT_SEARCH);
+    assertEquals(searches.length, 2);
+    assertEquals(searches[0].searchParams.get('radius'), '1600');
+    assertEquals(searches[1].searchParams.get('pagetoken'), 'AciIO2fixturePage2Token');
+
+    const { data: logs, error } = await serviceClient()
+      .from('places_search_logs')
+      .select('place_name, was_selected')
+      .eq('search_query', userInput);
+    if (error) throw error;
+    assertEquals(logs.length, 3);
+    assertEquals(logs.filter(log => log.was_selected).map(log => log.place_name), ['Walgreens']);
+  } finally {
+    fixtures.restore();
+    await serviceClient().from('places_search_logs').delete().eq('search_query', userInput);
+  }
+});
+
+Deno.test('analyze-hazard falls back to the user location when no place matches', async () => {
+  const fixtures = useFixtures([
+    { host: 'maps.googleapis.com', path: TEXT_SEARCH, body: { html_attributions: [], results: [], status: 'ZERO_RESULTS' } },
+  ]);
+  try {
+    const { status, body } = await invoke('analyze-hazard', {
+      userInput: 'huge pothole in the right lane',
+      locationContext: { lastKnownLocation: USER_LOCATION },
+    });
+    const analysis = body as HazardAnalysis;
+
+    assertEquals(status, 200);
+    assertEquals(analysis.hazardType, 'pothole');
+    assertEquals(analysis.location.source, 'user_location');
+    assertEquals(analysis.location.address, '📍 2 E Main St, Madison, WI 53703, USA');
+    assertEquals(analysis.location.coordinates, { lat: USER_LOCATION.lat, lng: USER_LOCATION.lng });
+    // Every search radius was tried before falling back
+    assertEquals(fixtures.requests.filter(url => url.pathname === TEXT_SEARCH).length, 4);
+  } finally {
+    fixtures.restore();
+  }
+});
+
+Deno.test('analyze-hazard rejects an empty report', async () => {
+  const { status, body } = await invoke('analyze-hazard', { userInput: '' });
+
+  assertEquals(status, 400);
+  assertEquals(body.error?.code, 'validation_failed');
+});
@@ -0,0 +1,138 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { encodePolyline } from '../_shared/geo.ts';
+import { invoke, serviceClient, useFixtures } from './harness.ts';
+
+// A few points along US-151 north of Madison, a couple of miles apart
+const COORDINATES = [
+  { lat: 43.0747, lng: -89.3841, distanceMiles: 0, etaSeconds: 0 },
+  { lat: 43.1050, lng: -89.3330, distanceMiles: 3.7, etaSeconds: 540 },
+  { lat: 43.1450, lng: -89.2800, distanceMiles: 7.6, etaSeconds: 860 },
+  { lat: 43.1836, lng: -89.2137, distanceMiles: 12.4, etaSeconds: 1320 },
+];
+
+const VEHICLE = { type: 'suv', tires: 'snow', drive: 'awd' };
+
+async function clearWeatherCache() {
+  const { error } = await serviceClient().from('weather_cache').delete().neq('grid_cell', '');
+  if (error) throw error;
+}
+
+Deno.test('analyze-route-safety judges each point and caches the weather', async () => {
+  await clearWeatherCache();
+  const fixtures = useFixtures();
+  try {
+    const first = await invoke('analyze-route-safety', { coordinates: COORDINATES, vehicleInfo: VEHICLE });
+
+    assertEquals(first.status, 200);
+    assertEquals(first.body.routeSegments.length, COORDINATES.length);
+    assertEquals(first.body.failedSegments, []);
+    assertEquals(first.body.overallSafety, 'safe');
+    assert(first.body.routeSegments.every(segment => !segment.weatherCached));
+    assert(first.body.avgSnowDepth > 1.5 && first.body.avgSnowDepth < 2.5);
+
+    const weatherCalls = fixtures.requests.filter(url => url.host === 'api.openweathermap.org').length;
+    const second = await invoke('analyze-route-safety', { coordinates: COORDINATES, vehicleInfo: VEHICLE });
+
+    assertEquals(second.status, 200);
+    assert(second.body.routeSegments.every(segment => segment.weatherCached));
+    assertEquals(fixtures.requests.filter(url => url.host === 'api.openweathermap.org').length, weatherCalls);
+  } finally {
+    fixtures.restore();
+  }
+});
+
+Deno.test('analyze-route-safety raises the verdict for a reported hazard on the route', async () => {
+  await clearWeatherCache();
+  const supabase = serviceClient();
+  const { data: hazard, error } = await supabase
+    .from('hazard_reports')
+    .insert({
+      hazard_type: 'accident',
+      title: 'Accident',
+      description: 'Test: multi-car crash blocking both lanes',
+      severity: 'high',
+      // Halfway between the second and third points
+      location_lat: 43.1250,
+      location_lng: -89.3065,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await invoke('analyze-route-safety', { coordinates: COORDINATES, vehicleInfo: VEHICLE });
+
+    assertEquals(status, 200);
+    assertEquals(body.overallSafety, 'danger');
+    assertEquals(body.contributingHazards[0].id, hazard.id);
+    assertEquals(body.contributingHazards[0].segmentIndex, 1);
+    assert(body.recommendation.includes('Accident'));
+  } finally {
+    fixtures.restore();
+    await supabase.from('hazard_reports').delete().eq('id', hazard.id);
+  }
+});
+
+Deno.test('analyze-route-safety follows the road between its points, not straight lines', async () => {
+  await clearWeatherCache();
+  // West of Verona the road bows about 2 miles north between two weather points
+  const road = [
+    { lat: 42.9800, lng: -89.6000 },
+    { lat: 43.0100, lng: -89.5700 },
+    { lat: 42.9800, lng: -89.5400 },
+  ];
+  const points = [
+    { ...road[0], distanceMiles: 0, etaSeconds: 0 },
+    { ...road[2], distanceMiles: 5.1, etaSeconds: 480 },
+  ];
+  const supabase = serviceClient();
+  const { data: hazards, error } = await supabase
+    .from('hazard_reports')
+    .insert([
+      { title: 'On the bend', location_lat: 43.0098, location_lng: -89.5700 },
+      { title: 'In a field', location_lat: 42.9805, location_lng: -89.5700 }, // By the straight line, miles off the road
+    ].map(hazard => ({ ...hazard, hazard_type: 'ice', description: `Test: ${hazard.title}`, severity: 'high' })))
+    .select('id, title');
+  if (error) throw error;
+  const idOf = (title: string) => hazards.find(hazard => hazard.title === title)?.id;
+
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await invoke('analyze-route-safety', { coordinates: points, polyline: encodePolyline(road), vehicleInfo: VEHICLE });
+
+    assertEquals(status, 200);
+    assertEquals(body.contributingHazards.map(hazard => hazard.id), [idOf('On the bend')]);
+    assertEquals(body.contributingHazards[0].segmentIndex, 0);
+    // Measured along the road: the straight line would put it 1.5 mi in
+    assert(body.contributingHazards[0].distanceFromStartMiles > 2.4);
+  } finally {
+    fixtures.restore();
+    await supabase.from('hazard_reports').delete().in('id', hazards.map(hazard => hazard.id));
+  }
+});
+
+Deno.test('analyze-route-safety reports points it has no weather for', async () => {
+  await clearWeatherCache();
+  const fixtures = useFixtures([
+    { host: 'api.openweathermap.org', path: '/data/2.5/weather', status: 500, body: { cod: 500, message: 'Internal error' } },
+  ]);
+  try {
+    const { status, body } = await invoke('analyze-route-safety', { coordinates: COORDINATES, vehicleInfo: VEHICLE });
+
+    assertEquals(status, 200);
+    assertEquals(body.routeSegments.length, 0);
+    assertEquals(body.failedSegments.length, COORDINATES.length);
+    assertEquals(body.overallSafety, 'caution');
+    assert(body.recommendation.includes(`unavailable for ${COORDINATES.length} of ${COORDINATES.length}`));
+  } finally {
+    fixtures.restore();
+  }
+});
+
+Deno.test('analyze-route-safety rejects an empty route', async () => {
+  const { status, body } = await invoke('analyze-route-safety', { coordinates: [] });
+
+  assertEquals(status, 400);
+  assertEquals(body.error?.code, 'validation_failed');
+});
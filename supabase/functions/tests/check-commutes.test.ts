@@ -0,0 +1,170 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { hasWorsened, usualSafety } from '../check-commutes/baseline.ts';
+import { upcomingDeparture } from '../check-commutes/schedule.ts';
+import { invoke, schedulerHeaders, serviceClient, useFixtures } from './harness.ts';
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+Deno.test('upcomingDeparture finds the next departure in the commute\'s time zone', () => {
+  const commute = { departure_time: '07:30:00', days_of_week: WEEKDAYS, time_zone: 'America/Chicago' };
+
+  // Monday 6:45 CST is 12:45 UTC; the 7:30 departure is 45 minutes away
+  assertEquals(upcomingDeparture(commute, new Date('2025-01-06T12:45:00Z'), 60)?.toISOString(), '2025-01-06T13:30:00.000Z');
+  // Same wall-clock time in summer, when Chicago is UTC-5
+  assertEquals(upcomingDeparture(commute, new Date('2025-07-07T11:45:00Z'), 60)?.toISOString(), '2025-07-07T12:30:00.000Z');
+  // Too early, already left, and a Saturday
+  assertEquals(upcomingDeparture(commute, new Date('2025-01-06T11:00:00Z'), 60), null);
+  assertEquals(upcomingDeparture(commute, new Date('2025-01-06T13:31:00Z'), 60), null);
+  assertEquals(upcomingDeparture(commute, new Date('2025-01-11T12:45:00Z'), 60), null);
+
+  // A departure just after midnight is found the evening before
+  const lateShift = { departure_time: '00:15:00', days_of_week: [2], time_zone: 'America/Chicago' };
+  assertEquals(upcomingDeparture(lateShift, new Date('2025-01-07T05:45:00Z'), 60)?.toISOString(), '2025-01-07T06:15:00.000Z');
+});
+
+Deno.test('a commute is flagged when it is caution or danger and worse than usual', () => {
+  assertEquals(usualSafety([]), 'safe');
+  assertEquals(usualSafety(['caution', 'caution', 'safe']), 'caution');
+  assertEquals(usualSafety(['danger', 'caution']), 'caution');
+
+  assert(hasWorsened('caution', 'safe'));
+  assert(hasWorsened('danger', 'caution'));
+  assert(!hasWorsened('caution', 'caution'));
+  assert(!hasWorsened('safe', 'safe'));
+  assert(!hasWorsened(null, 'safe'));
+});
+
+Deno.test('check-commutes analyzes commutes leaving soon and records each departure once', async () => {
+  const supabase = serviceClient();
+  const { data: user, error: userError } = await supabase.auth.admin.createUser({
+    email: `commuter-${crypto.randomUUID()}@example.com`,
+    email_confirm: true,
+  });
+  if (userError) throw userError;
+  const userId = user.user.id;
+
+  // Leaves in 30 minutes (UTC, every day, so the test passes whenever it runs); the other not for hours
+  const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString().slice(11, 16);
+  const commute = (name: string, departureTime: string) => ({
+    user_id: userId,
+    name,
+    start_location: '2 E Main St, Madison, WI',
+    end_location: 'Sun Prairie, WI',
+    vehicle_type: 'suv',
+    tires: 'snow',
+    drive: 'awd',
+    departure_time: departureTime,
+    days_of_week: EVERY_DAY,
+    time_zone: 'UTC',
+  });
+  const { data: seeded, error } = await supabase
+    .from('commutes')
+    .insert([commute('To work', inMinutes(30)), commute('Home again', inMinutes(300))])
+    .select('id');
+  if (error) throw error;
+  const [soonId, laterId] = seeded.map(row => row.id);
+
+  const fixtures = useFixtures();
+  try {
+    const first = await invoke('check-commutes', undefined, schedulerHeaders());
+
+    assertEquals(first.status, 200);
+    const check = first.body.checks.find(candidate => candidate.commuteId === soonId);
+    assertEquals(check?.overallSafety, 'safe');
+    assertEquals(check?.usualSafety, 'safe');
+    assertEquals(check?.worsened, false);
+    assert(!first.body.checks.some(candidate => candidate.commuteId === laterId));
+
+    const directionsRequest = fixtures.requests.find(url => url.pathname === '/maps/api/directions/json')!;
+    assertEquals(directionsRequest.searchParams.get('departure_time'), String(new Date(check!.departureAt).getTime() / 1000));
+
+    const { data: history } = await supabase
+      .from('commute_checks')
+      .select('overall_safety, route_summary, error')
+      .eq('commute_id', soonId);
+    assertEquals(history?.length, 1);
+    assertEquals(history?.[0].error, null);
+    assert(history?.[0].route_summary);
+
+    // The next run leaves an already-checked departure alone
+    const second = await invoke('check-commutes', undefined, schedulerHeaders());
+    assertEquals(second.status, 200);
+    assert(!second.body.checks.some(candidate => candidate.commuteId === soonId));
+  } finally {
+    fixtures.restore();
+    await supabase.auth.admin.deleteUser(userId); // Cascades to the commutes and their checks
+  }
+});
+
+Deno.test('check-commutes tries failed checks again and checks the soonest departures first', async () => {
+  const supabase = serviceClient();
+  const { data: user, error: userError } = await supabase.auth.admin.createUser({
+    email: `commuter-${crypto.randomUUID()}@example.com`,
+    email_confirm: true,
+  });
+  if (userError) throw userError;
+  const userId = user.user.id;
+
+  const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString().slice(11, 16);
+  const commute = (name: string, departureTime: string) => ({
+    user_id: userId,
+    name,
+    start_location: '2 E Main St, Madison, WI',
+    end_location: 'Sun Prairie, WI',
+    departure_time: departureTime,
+    days_of_week: EVERY_DAY,
+    time_zone: 'UTC',
+  });
+  const { data: seeded, error } = await supabase
+    .from('commutes')
+    .insert([commute('Later', inMinutes(40)), commute('Sooner', inMinutes(20))])
+    .select('id, departure_time, days_of_week, time_zone');
+  if (error) throw error;
+  const [laterId, soonerId] = seeded.map(row => row.id);
+
+  // An earlier run could not reach Google for the sooner one
+  const departureAt = upcomingDeparture(seeded[1], new Date(), 60)!.toISOString();
+  const { error: failedError } = await supabase.from('commute_checks').insert({
+    commute_id: soonerId,
+    departure_at: departureAt,
+    usual_safety: 'safe',
+    error: 'Google Maps API error: UNKNOWN_ERROR',
+  });
+  if (failedError) throw failedError;
+
+  const fixtures = useFixtures();
+  try {
+    const first = await invoke('check-commutes', { maxChecks: 1 }, schedulerHeaders());
+
+    assertEquals(first.status, 200);
+    assertEquals(first.body.checks.map(check => check.commuteId), [soonerId]);
+    assert(first.body.deferredCount >= 1);
+    const { data: history } = await supabase
+      .from('commute_checks')
+      .select('overall_safety, error')
+      .eq('commute_id', soonerId);
+    assertEquals(history, [{ overall_safety: 'safe', error: null }]);
+
+    const second = await invoke('check-commutes', { maxChecks: 1 }, schedulerHeaders());
+    assertEquals(second.body.checks.map(check => check.commuteId), [laterId]);
+  } finally {
+    fixtures.restore();
+    await supabase.auth.admin.deleteUser(userId);
+  }
+});
+
+Deno.test('check-commutes turns away callers other than the schedule', async () => {
+  const fixtures = useFixtures();
+  try {
+    const anonymous = await invoke('check-commutes');
+    const withAnonKey = await invoke('check-commutes', undefined, { Authorization: `Bearer ${Deno.env.get('SUPABASE_ANON_KEY')}` });
+
+    assertEquals(anonymous.status, 401);
+    assertEquals(anonymous.body.error?.code, 'unauthorized');
+    assertEquals(withAnonKey.status, 401);
+    assertEquals(fixtures.requests.length, 0);
+  } finally {
+    fixtures.restore();
+  }
+});
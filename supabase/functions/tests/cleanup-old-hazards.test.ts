@@ -0,0 +1,77 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { invoke, serviceClient, useFixtures } from './harness.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+Deno.test('cleanup-old-hazards expires reports past their type\'s lifetime and keeps them', async () => {
+  const supabase = serviceClient();
+  const report = (hazardType: string, hoursAgo: number) => ({
+    hazard_type: hazardType,
+    title: hazardType,
+    description: `Test: ${hazardType} reported ${hoursAgo}h ago`,
+    severity: 'low',
+    location_lat: 43.0731,
+    location_lng: -89.4012,
+    created_at: new Date(Date.now() - hoursAgo * HOUR_MS).toISOString(),
+  });
+
+  // Debris lasts hours, a closure lasts days
+  const { data: seeded, error } = await supabase
+    .from('hazard_reports')
+    .insert([report('debris', 30), report('debris', 2), report('closure', 30)])
+    .select('id');
+  if (error) throw error;
+  const [oldDebrisId, recentDebrisId, closureId] = seeded.map(row => row.id);
+
+  const fixtures = useFixtures();
+  try {
+    // Scheduled runs send no body
+    const { status, body } = await invoke('cleanup-old-hazards');
+
+    assertEquals(status, 200);
+    assert(body.expiredCount >= 1);
+    assert(body.expiredByType.debris >= 1);
+
+    // Nothing is deleted
+    const { data: remaining } = await supabase
+      .from('hazard_reports')
+      .select('id, status')
+      .in('id', [oldDebrisId, recentDebrisId, closureId]);
+    const statusById = Object.fromEntries((remaining || []).map(row => [row.id, row.status]));
+    assertEquals(statusById, { [oldDebrisId]: 'expired', [recentDebrisId]: 'active', [closureId]: 'active' });
+    assertEquals(fixtures.requests.every(url => url.origin === new URL(Deno.env.get('SUPABASE_URL')!).origin), true);
+  } finally {
+    fixtures.restore();
+    await supabase.from('hazard_reports').delete().in('id', [oldDebrisId, recentDebrisId, closureId]);
+  }
+});
+
+Deno.test('cleanup-old-hazards deletes cached weather once it expires', async () => {
+  const supabase = serviceClient();
+  const cached = (gridCell: string, expiresInHours: number) => ({
+    grid_cell: gridCell,
+    time_bucket: new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS).toISOString(),
+    payload: { test: true },
+    expires_at: new Date(Date.now() + expiresInHours * HOUR_MS).toISOString(),
+  });
+  const { error } = await supabase
+    .from('weather_cache')
+    .insert([cached('test:expired', -1), cached('test:fresh', 1)]);
+  if (error) throw error;
+
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await invoke('cleanup-old-hazards');
+
+    assertEquals(status, 200);
+    assert(body.prunedWeatherCount >= 1);
+    const { data: remaining } = await supabase
+      .from('weather_cache')
+      .select('grid_cell')
+      .in('grid_cell', ['test:expired', 'test:fresh']);
+    assertEquals((remaining || []).map(row => row.grid_cell), ['test:fresh']);
+  } finally {
+    fixtures.restore();
+    await supabase.from('weather_cache').delete().in('grid_cell', ['test:expired', 'test:fresh']);
+  }
+});
@@ -0,0 +1,272 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { encodePolyline } from '../_shared/geo.ts';
+import { isQuietTime, quietHoursEnd } from '../dispatch-notifications/quietHours.ts';
+import { bytesToBase64Url, encryptPayload } from '../dispatch-notifications/webPush.ts';
+import { invoke, schedulerHeaders, serviceClient, useFixtures } from './harness.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Mineral Point Rd west of Madison, away from the other tests' hazards
+const ROUTE = [
+  { lat: 43.0560, lng: -89.5300 },
+  { lat: 43.0565, lng: -89.5000 },
+];
+
+async function createDriver(): Promise<string> {
+  const { data, error } = await serviceClient().auth.admin.createUser({
+    email: `notified-${crypto.randomUUID()}@example.com`,
+    email_confirm: true,
+  });
+  if (error) throw error;
+  return data.user.id;
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: string, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(info) }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+Deno.test('encryptPayload produces an aes128gcm body the browser can decrypt', async () => {
+  // The browser's side of the subscription
+  const browserKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const browserPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', browserKeys.publicKey));
+  const authSecret = crypto.getRandomValues(new Uint8Array(16));
+
+  const body = await encryptPayload(new TextEncoder().encode('{"title":"Ice on US-151"}'), {
+    endpoint: 'https://push.test/send/browser',
+    p256dh: bytesToBase64Url(browserPublicKey),
+    auth: bytesToBase64Url(authSecret),
+  });
+
+  // Decrypt as RFC 8291 describes
+  const salt = body.slice(0, 16);
+  assertEquals(new DataView(body.buffer).getUint32(16), 4096);
+  const senderPublicKey = body.slice(21, 21 + body[20]);
+  const senderKey = await crypto.subtle.importKey('raw', senderPublicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const sharedSecret = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: senderKey }, browserKeys.privateKey, 256));
+
+  const keyInfo = new Uint8Array([...new TextEncoder().encode('WebPush: info\0'), ...browserPublicKey, ...senderPublicKey]);
+  const ikmKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveBits']);
+  const ikm = new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt: authSecret, info: keyInfo }, ikmKey, 256));
+  const contentKey = await crypto.subtle.importKey('raw', await hkdf(salt, ikm, 'Content-Encoding: aes128gcm\0', 16), 'AES-GCM', false, ['decrypt']);
+  const nonce = await hkdf(salt, ikm, 'Content-Encoding: nonce\0', 12);
+  const plaintext = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, contentKey, body.slice(21 + body[20])));
+
+  assertEquals(plaintext[plaintext.length - 1], 2); // Last-record delimiter
+  assertEquals(new TextDecoder().decode(plaintext.slice(0, -1)), '{"title":"Ice on US-151"}');
+});
+
+Deno.test('isQuietTime handles windows that run past midnight', () => {
+  const overnight = { quiet_hours_start: '22:00:00', quiet_hours_end: '06:30:00', time_zone: 'America/Chicago' };
+
+  assert(isQuietTime(overnight, new Date('2025-01-07T05:00:00Z'))); // 11pm in Madison
+  assert(isQuietTime(overnight, new Date('2025-01-07T12:00:00Z'))); // 6am
+  assert(!isQuietTime(overnight, new Date('2025-01-07T12:30:00Z'))); // 6:30am
+  assert(!isQuietTime(overnight, new Date('2025-01-07T18:00:00Z'))); // Noon
+  assert(!isQuietTime({ quiet_hours_start: null, quiet_hours_end: null, time_zone: 'UTC' }, new Date()));
+
+  assertEquals(quietHoursEnd(overnight, new Date('2025-01-07T05:00:20Z')).toISOString(), '2025-01-07T12:30:00.000Z');
+  assertEquals(quietHoursEnd(overnight, new Date('2025-01-07T12:15:00Z')).toISOString(), '2025-01-07T12:30:00.000Z');
+});
+
+Deno.test('a worse commute check and a serious hazard on a commute\'s route queue notifications', async () => {
+  const supabase = serviceClient();
+  const userId = await createDriver();
+  const { data: commute, error } = await supabase
+    .from('commutes')
+    .insert({
+      user_id: userId,
+      name: 'To work',
+      start_location: 'Verona, WI',
+      end_location: 'Madison, WI',
+      departure_time: '07:30',
+      route_polyline: encodePolyline(ROUTE),
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const hazardIds: string[] = [];
+  try {
+    const { error: checkError } = await supabase.from('commute_checks').insert({
+      commute_id: commute.id,
+      departure_at: new Date(Date.now() + HOUR_MS).toISOString(),
+      overall_safety: 'danger',
+      usual_safety: 'safe',
+      worsened: true,
+      recommendation: 'Heavy snow on Mineral Point Rd.',
+    });
+    if (checkError) throw checkError;
+
+    const hazard = (severity: string, lat: number, lng: number) => ({
+      hazard_type: 'accident',
+      title: `Test ${severity} accident`,
+      description: 'Test: crash on Mineral Point Rd',
+      severity,
+      location_lat: lat,
+      location_lng: lng,
+    });
+    const { data: hazards, error: hazardError } = await supabase
+      .from('hazard_reports')
+      .insert([
+        hazard('high', 43.0562, -89.5150), // On the route
+        hazard('medium', 43.0562, -89.5150), // On the route, not serious enough
+        hazard('high', 43.0800, -89.5150), // About 1.7 mi north
+      ])
+      .select('id');
+    if (hazardError) throw hazardError;
+    hazardIds.push(...hazards.map(row => row.id));
+
+    const { data: queued } = await supabase
+      .from('notifications')
+      .select('kind, hazard_id, title, body, urgent')
+      .eq('user_id', userId)
+      .order('kind', { ascending: true });
+
+    assertEquals(queued, [
+      {
+        kind: 'commute_risk',
+        hazard_id: null,
+        title: 'Your 7:30 AM commute is now rated danger',
+        body: 'To work: Heavy snow on Mineral Point Rd.',
+        urgent: true,
+      },
+      {
+        kind: 'route_hazard',
+        hazard_id: hazardIds[0],
+        title: 'New hazard on your To work route',
+        body: 'Test high accident',
+        urgent: true,
+      },
+    ]);
+  } finally {
+    await supabase.from('hazard_reports').delete().in('id', hazardIds);
+    await supabase.auth.admin.deleteUser(userId);
+  }
+});
+
+Deno.test('dispatch-notifications pushes queued notifications and forgets browsers that are gone', async () => {
+  const supabase = serviceClient();
+  const userId = await createDriver();
+  const browserKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const p256dh = bytesToBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', browserKeys.publicKey)));
+  const auth = bytesToBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .insert([
+      { user_id: userId, endpoint: `https://push.test/send/${userId}`, p256dh, auth },
+      { user_id: userId, endpoint: `https://push.test/gone/${userId}`, p256dh, auth },
+    ])
+    .select('id, endpoint');
+  if (error) throw error;
+
+  const notification = (dedupeKey: string, notAfter: number) => ({
+    user_id: userId,
+    kind: 'route_hazard',
+    title: 'New hazard on your To work route',
+    body: 'Test accident',
+    dedupe_key: dedupeKey,
+    not_after: new Date(notAfter).toISOString(),
+  });
+  const { data: queued, error: queueError } = await supabase
+    .from('notifications')
+    .insert([notification('test:current', Date.now() + HOUR_MS), notification('test:stale', Date.now() - HOUR_MS)])
+    .select('id');
+  if (queueError) throw queueError;
+  const [currentId, staleId] = queued.map(row => row.id);
+
+  const fixtures = useFixtures([
+    { host: 'push.test', path: `/send/${userId}`, body: {}, status: 201 },
+    { host: 'push.test', path: `/gone/${userId}`, body: {}, status: 410 },
+  ]);
+  try {
+    const { status, body } = await invoke('dispatch-notifications', undefined, schedulerHeaders());
+
+    assertEquals(status, 200);
+    assert(body.sentCount >= 1);
+    assert(body.removedSubscriptions >= 1);
+    assertEquals(fixtures.requests.filter(url => url.host === 'push.test').map(url => url.pathname).sort(), [
+      `/gone/${userId}`,
+      `/send/${userId}`,
+    ]);
+
+    const { data: rows } = await supabase
+      .from('notifications')
+      .select('id, sent_at, dropped_reason')
+      .in('id', [currentId, staleId]);
+    const byId = Object.fromEntries((rows || []).map(row => [row.id, row]));
+    assert(byId[currentId].sent_at);
+    assertEquals(byId[staleId].dropped_reason, 'expired');
+
+    const { data: remaining } = await supabase.from('push_subscriptions').select('endpoint').eq('user_id', userId);
+    assertEquals(remaining?.map(row => row.endpoint), [subscriptions[0].endpoint]);
+  } finally {
+    fixtures.restore();
+    await supabase.auth.admin.deleteUser(userId);
+  }
+});
+
+Deno.test('dispatch-notifications holds notifications during the driver\'s quiet hours', async () => {
+  const supabase = serviceClient();
+  const userId = await createDriver();
+  const utcTime = (offsetMs: number) => new Date(Date.now() + offsetMs).toISOString().slice(11, 16);
+  await supabase
+    .from('profiles')
+    .update({ quiet_hours_start: utcTime(-HOUR_MS), quiet_hours_end: utcTime(HOUR_MS), time_zone: 'UTC' })
+    .eq('id', userId);
+  await supabase.from('push_subscriptions').insert({
+    user_id: userId,
+    endpoint: `https://push.test/send/${userId}`,
+    p256dh: 'unused',
+    auth: 'unused',
+  });
+  const { data: queued, error } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: userId,
+      kind: 'commute_risk',
+      title: 'Your 7:30 AM commute is now rated caution',
+      body: 'To work: Slippery in spots.',
+      dedupe_key: 'test:quiet',
+      not_after: new Date(Date.now() + 2 * HOUR_MS).toISOString(),
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await invoke('dispatch-notifications', undefined, schedulerHeaders());
+
+    assertEquals(status, 200);
+    assert(body.heldCount >= 1);
+    assert(!fixtures.requests.some(url => url.pathname === `/send/${userId}`));
+
+    // Held until the quiet hours end, and out of the next runs' batches until then
+    const { data: row } = await supabase.from('notifications').select('sent_at, dropped_reason, hold_until').eq('id', queued.id).single();
+    assertEquals(row?.sent_at, null);
+    assertEquals(row?.dropped_reason, null);
+    assert(Math.abs(new Date(row!.hold_until).getTime() - (Date.now() + HOUR_MS)) < 2 * 60 * 1000);
+
+    const next = await invoke('dispatch-notifications', undefined, schedulerHeaders());
+    assertEquals(next.body.heldCount, 0);
+  } finally {
+    fixtures.restore();
+    await supabase.auth.admin.deleteUser(userId);
+  }
+});
+
+Deno.test('dispatch-notifications turns away callers other than the schedule', async () => {
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await invoke('dispatch-notifications');
+
+    assertEquals(status, 401);
+    assertEquals(body.error?.code, 'unauthorized');
+    assertEquals(fixtures.requests.length, 0);
+  } finally {
+    fixtures.restore();
+  }
+});
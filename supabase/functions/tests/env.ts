@@ -0,0 +1,38 @@
+// Environment for the edge function tests. Imported before any function module so that
+// module-level configuration (e.g. the hazard classifier) sees it.
+//
+// The local stack's URL and keys are taken from `supabase status -o env` (API_URL, ANON_KEY,
+// SERVICE_ROLE_KEY) unless the functions' own variable names are already set.
+
+const LOCAL_SUPABASE_URL = 'http://127.0.0.1:54321';
+
+// RECORD_FIXTURES=1 sends fixture-backed requests to the real APIs and rewrites the fixtures
+export const RECORDING = Deno.env.get('RECORD_FIXTURES') === '1';
+
+function setDefault(name: string, value: string | undefined) {
+  if (!Deno.env.get(name) && value) Deno.env.set(name, value);
+}
+
+setDefault('SUPABASE_URL', Deno.env.get('API_URL') ?? LOCAL_SUPABASE_URL);
+setDefault('SUPABASE_ANON_KEY', Deno.env.get('ANON_KEY'));
+setDefault('SUPABASE_SERVICE_ROLE_KEY', Deno.env.get('SERVICE_ROLE_KEY'));
+
+for (const name of ['SUPABASE_ANON_KEY', 'SUPABASE_SERVICE_ROLE_KEY']) {
+  if (!Deno.env.get(name)) {
+    throw new Error(`${name} is not set. Run \`supabase start\` and \`eval "$(supabase status -o env)"\` first.`);
+  }
+}
+
+if (!RECORDING) {
+  // Fixtures answer for the real APIs, so any key will do
+  Deno.env.set('GOOGLE_MAPS_API_KEY', 'test-google-maps-key');
+  Deno.env.set('OPENWEATHER_API_KEY', 'test-openweather-key');
+}
+
+// A real key pair, since push requests are signed before a fixture answers them
+setDefault('VAPID_PUBLIC_KEY', 'BI4tqlVGvF2YyDpkRNeS2XN7rL_eV8ByMXiAjSFRaXDTIGI7FvVKfbid3FdJo9nwXWBNbyY124kBC9o09KsgzHM');
+setDefault('VAPID_PRIVATE_KEY', '_rfludMPbXvQpwhse7FBgdGRAAvf6mY2XMgY_Sq9lt8');
+setDefault('VAPID_SUBJECT', 'mailto:alerts@madsnowi.test');
+
+// The keyword classifier; OpenAI has no fixtures
+Deno.env.delete('HAZARD_CLASSIFIER');
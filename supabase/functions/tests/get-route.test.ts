@@ -0,0 +1,66 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { invoke, useFixtures } from './harness.ts';
+
+const REQUEST = {
+  startLocation: '2 E Main St, Madison, WI',
+  endLocation: 'Sun Prairie, WI',
+  travelMode: 'driving',
+  vehicleInfo: { type: 'sedan', tires: 'snow', drive: 'awd' },
+};
+
+Deno.test('get-route analyzes and ranks every alternative', async () => {
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await invoke('get-route', REQUEST);
+
+    assertEquals(status, 200);
+    assertEquals(body.routes.length, 2);
+    assertEquals(body.routes.map(route => route.rank), [1, 2]);
+    assert(body.routes.every(route => route.safety !== null));
+
+    // Same verdict and no hazards, so the shorter drive through the same snow wins
+    assertEquals(body.route.summary, 'US-151 N');
+    assertEquals(body.recommendedIndex, body.route.index);
+    assert(body.routes[0].snowExposureMiles! <= body.routes[1].snowExposureMiles!);
+
+    // Sampled every 2 miles along the geometry, each point with its distance and ETA
+    const samples = body.route.coordinates;
+    assertEquals(samples[0].distanceMiles, 0);
+    assert(samples.length >= 6);
+    assert(samples.every((sample, i) => i === 0 || sample.etaSeconds > samples[i - 1].etaSeconds));
+
+    assertEquals(body.route.steps[0].instruction, 'Head northeast on E Washington Ave toward N Pinckney St');
+    assertEquals(body.route.steps[2].maneuver, 'turn-right');
+    assert(body.route.steps.every(step => step.startLocation));
+
+    const directionsRequest = fixtures.requests.find(url => url.pathname === '/maps/api/directions/json')!;
+    assertEquals(directionsRequest.searchParams.get('alternatives'), 'true');
+    assertEquals(directionsRequest.searchParams.get('mode'), 'driving');
+    assertEquals(directionsRequest.searchParams.has('departure_time'), false);
+    assert(fixtures.requests.some(url => url.pathname === '/functions/v1/analyze-route-safety'));
+  } finally {
+    fixtures.restore();
+  }
+});
+
+Deno.test('get-route answers not_found when Google has no route', async () => {
+  const fixtures = useFixtures([
+    { host: 'maps.googleapis.com', path: '/maps/api/directions/json', fixture: 'directions-zero-results.json' },
+  ]);
+  try {
+    const { status, body } = await invoke('get-route', REQUEST);
+
+    assertEquals(status, 404);
+    assertEquals(body.error?.code, 'not_found');
+  } finally {
+    fixtures.restore();
+  }
+});
+
+Deno.test('get-route rejects a request without a destination', async () => {
+  const { status, body } = await invoke('get-route', { startLocation: 'Madison, WI' });
+
+  assertEquals(status, 400);
+  assertEquals(body.error?.code, 'validation_failed');
+  assertEquals((body.error?.details as Array<{ path: string }>)[0].path, 'endLocation');
+});
@@ -0,0 +1,64 @@
+import { assert, assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { invoke, readFixture, useFixtures } from './harness.ts';
+
+const MADISON = { lat: 43.0747, lng: -89.3841 };
+const INCHES_PER_METER = 39.3701;
+
+Deno.test('get-weather returns current conditions with gridded snow depth', async () => {
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await invoke('get-weather', MADISON);
+    const hourly = (await readFixture<{ hourly: { snow_depth: number[] } }>('open-meteo-hourly.json')).hourly;
+
+    assertEquals(status, 200);
+    assertEquals(body.name, 'Madison');
+    assertEquals(body.is_forecast, false);
+    assertEquals(body.main.temp, 24.3);
+    assertEquals(body.weather[0].description, 'light snow');
+    assertEquals(body.snow_depth_source, 'open-meteo-gridded');
+    assertAlmostEquals(body.snow_depth, hourly.snow_depth[hourly.snow_depth.length - 1] * INCHES_PER_METER, 1e-6);
+    assertEquals(fixtures.requests.map(url => url.host), ['api.openweathermap.org', 'api.open-meteo.com']);
+  } finally {
+    fixtures.restore();
+  }
+});
+
+Deno.test('get-weather looks up a city by name', async () => {
+  const fixtures = useFixtures();
+  try {
+    const { status } = await invoke('get-weather', { city: 'Madison' });
+
+    assertEquals(status, 200);
+    assertEquals(fixtures.requests[0].searchParams.get('q'), 'Madison');
+  } finally {
+    fixtures.restore();
+  }
+});
+
+Deno.test('get-weather rejects a request without a city or coordinates', async () => {
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await invoke('get-weather', { time: new Date().toISOString() });
+
+    assertEquals(status, 400);
+    assertEquals(body.error?.code, 'validation_failed');
+    assertEquals(fixtures.requests.length, 0);
+  } finally {
+    fixtures.restore();
+  }
+});
+
+Deno.test('get-weather reports OpenWeather failures as upstream errors', async () => {
+  const fixtures = useFixtures([
+    { host: 'api.openweathermap.org', path: '/data/2.5/weather', status: 401, body: { cod: 401, message: 'Invalid API key.' } },
+  ]);
+  try {
+    const { status, body } = await invoke('get-weather', MADISON);
+
+    assertEquals(status, 502);
+    assertEquals(body.error?.code, 'upstream_error');
+    assert(body.error?.message.includes('Invalid API key'));
+  } finally {
+    fixtures.restore();
+  }
+});
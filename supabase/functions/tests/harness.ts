@@ -0,0 +1,154 @@
+// Offline harness for the edge function tests. Outbound requests are answered from the recorded
+// responses in fixtures/, calls from one function to another run that function's handler
+// in-process, and only the local Supabase stack (Postgres behind its REST API) is reached.
+import { RECORDING } from './env.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.2';
+import type { ErrorEnvelope, FunctionName, FunctionResponse } from '../_shared/contracts.ts';
+import { setFetcher } from '../_shared/fetch.ts';
+import type { RequestHandler } from '../_shared/http.ts';
+import { handler as analyzeHazard } from '../analyze-hazard/handler.ts';
+import { handler as analyzeRouteSafety } from '../analyze-route-safety/handler.ts';
+import { handler as checkCommutes } from '../check-commutes/handler.ts';
+import { handler as cleanupOldHazards } from '../cleanup-old-hazards/handler.ts';
+import { handler as dispatchNotifications } from '../dispatch-notifications/handler.ts';
+import { handler as getRoute } from '../get-route/handler.ts';
+import { handler as getWeather } from '../get-weather/handler.ts';
+import { handler as submitHazard } from '../submit-hazard/handler.ts';
+import { handler as voteHazard } from '../vote-hazard/handler.ts';
+
+export const handlers: Record<FunctionName, RequestHandler> = {
+  'analyze-hazard': analyzeHazard,
+  'analyze-route-safety': analyzeRouteSafety,
+  'check-commutes': checkCommutes,
+  'cleanup-old-hazards': cleanupOldHazards,
+  'dispatch-notifications': dispatchNotifications,
+  'get-route': getRoute,
+  'get-weather': getWeather,
+  'submit-hazard': submitHazard,
+  'vote-hazard': voteHazard,
+};
+
+const FIXTURES_DIR = new URL('./fixtures/', import.meta.url);
+
+export interface FixtureRoute {
+  host: string;
+  path: string;
+  match?: (url: URL) => boolean;
+  fixture?: string; // File in fixtures/
+  body?: unknown; // Inline response body instead of a file
+  status?: number;
+}
+
+// Checked in order; a test's own routes come before these
+export const DEFAULT_FIXTURES: FixtureRoute[] = [
+  { host: 'maps.googleapis.com', path: '/maps/api/directions/json', fixture: 'directions-madison-sun-prairie.json' },
+  {
+    host: 'maps.googleapis.com',
+    path: '/maps/api/place/textsearch/json',
+    match: url => url.searchParams.has('pagetoken'),
+    fixture: 'places-textsearch-page2.json',
+  },
+  { host: 'maps.googleapis.com', path: '/maps/api/place/textsearch/json', fixture: 'places-textsearch-page1.json' },
+  { host: 'maps.googleapis.com', path: '/maps/api/geocode/json', fixture: 'geocode-reverse.json' },
+  { host: 'api.openweathermap.org', path: '/data/2.5/weather', fixture: 'openweather-current.json' },
+  { host: 'api.open-meteo.com', path: '/v1/forecast', fixture: 'open-meteo-hourly.json' },
+];
+
+export async function readFixture<T = unknown>(name: string): Promise<T> {
+  return JSON.parse(await Deno.readTextFile(new URL(name, FIXTURES_DIR)));
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+async function recordFixture(request: Request, fixture: string): Promise<Response> {
+  const response = await fetch(request);
+  const body = await response.json();
+  await Deno.writeTextFile(new URL(fixture, FIXTURES_DIR), JSON.stringify(body, null, 2) + '\n');
+  console.log(`📼 Recorded ${fixture}`);
+  return json(body, response.status);
+}
+
+export interface Fixtures {
+  requests: URL[]; // Every outbound request, in order
+  restore(): void;
+}
+
+// Route the functions' outbound requests through fixtures until `restore` is called.
+// Anything without a fixture fails, so a test cannot silently reach the network.
+export function useFixtures(routes: FixtureRoute[] = []): Fixtures {
+  const supabaseOrigin = new URL(Deno.env.get('SUPABASE_URL')!).origin;
+  const requests: URL[] = [];
+
+  const restore = setFetcher(async (input, init) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    requests.push(url);
+
+    if (url.origin === supabaseOrigin) {
+      const functionName = url.pathname.match(/^\/functions\/v1\/([\w-]+)/)?.[1];
+      if (!functionName) return fetch(request);
+
+      const handler = handlers[functionName as FunctionName];
+      return handler ? handler(request) : json({ error: { code: 'not_found', message: `No function ${functionName}` } }, 404);
+    }
+
+    const route = [...routes, ...DEFAULT_FIXTURES].find(candidate =>
+      candidate.host === url.host && candidate.path === url.pathname && (!candidate.match || candidate.match(url))
+    );
+    if (!route) {
+      throw new Error(`No fixture for ${url.origin}${url.pathname}; the tests run offline`);
+    }
+
+    if (RECORDING && route.fixture) return recordFixture(request, route.fixture);
+    return json(route.body ?? await readFixture(route.fixture!), route.status);
+  });
+
+  return { requests, restore };
+}
+
+// Call a function's handler the way supabase.functions.invoke would. The body is the function's
+// response or, for a failed call, the error envelope.
+export async function invoke<N extends FunctionName>(
+  name: N,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; body: FunctionResponse<N> & Partial<ErrorEnvelope> }> {
+  const response = await handlers[name](new Request(`http://localhost/functions/v1/${name}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+// Headers for calling a scheduled function as pg_cron does
+export function schedulerHeaders(): Record<string, string> {
+  return { Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}` };
+}
+
+// A new confirmed user and the headers for calling functions as them, signed in
+export async function signedInUser(): Promise<{ userId: string; headers: Record<string, string> }> {
+  const email = `driver-${crypto.randomUUID()}@example.com`;
+  const password = crypto.randomUUID();
+  const { data, error } = await serviceClient().auth.admin.createUser({ email, password, email_confirm: true });
+  if (error) throw error;
+
+  const { data: signedIn, error: signInError } = await anonClient().auth.signInWithPassword({ email, password });
+  if (signInError) throw signInError;
+  return { userId: data.user.id, headers: { Authorization: `Bearer ${signedIn.session.access_token}` } };
+}
+
+// The database as the public sees it, through the anon key
+export function anonClient(): SupabaseClient {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+// Direct database access for seeding and assertions; bypasses the fixtures
+export function serviceClient(): SupabaseClient {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -0,0 +1,75 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { HAZARD_PHOTO_BUCKET, stripJpegMetadata } from '../submit-hazard/media.ts';
+import { invoke, serviceClient, useFixtures } from './harness.ts';
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+const segment = (marker: number, payload: number[]) =>
+  [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+
+// The segment layout of a phone photo; the image data is not a real scan
+const JFIF = segment(0xe0, [...ascii('JFIF'), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const EXIF_GPS = segment(0xe1, [...ascii('Exif'), 0, 0, ...ascii('MM GPS 43.0731 -89.4012')]);
+const COMMENT = segment(0xfe, ascii('Taken on a test phone'));
+const QUANTIZATION = segment(0xdb, [0, ...new Array(64).fill(1)]);
+const SCAN = [...segment(0xda, [1, 1, 0, 0, 63, 0]), 0x12, 0x34, 0xff, 0x00, 0x56, 0xff, 0xd9];
+
+const photo = () => new Uint8Array([0xff, 0xd8, ...JFIF, ...EXIF_GPS, ...COMMENT, ...QUANTIZATION, ...SCAN]);
+const base64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+Deno.test('stripJpegMetadata drops EXIF and comments and keeps the image', () => {
+  const stripped = stripJpegMetadata(photo());
+
+  assertEquals([...stripped], [0xff, 0xd8, ...JFIF, ...QUANTIZATION, ...SCAN]);
+});
+
+Deno.test('submit-hazard stores photos without their metadata', async () => {
+  const supabase = serviceClient();
+  const fixtures = useFixtures();
+  let hazardId: string | undefined;
+  try {
+    const { status, body } = await invoke('submit-hazard', {
+      hazardType: 'flooding',
+      title: 'Flooded underpass',
+      description: 'Test: water over the road under the railroad bridge',
+      severity: 'high',
+      location: { lat: 43.0612, lng: -89.5322, confidence: 'high' },
+      photos: [{ image: base64(photo()), thumbnail: base64(photo()), width: 1600, height: 1200 }],
+    });
+    assertEquals(status, 200);
+    hazardId = body.hazard.id;
+
+    assertEquals(body.media.length, 1);
+    assertEquals(body.media[0].hazard_id, hazardId);
+    assertEquals([body.media[0].width, body.media[0].height], [1600, 1200]);
+
+    const { data: stored, error } = await supabase.storage.from(HAZARD_PHOTO_BUCKET).download(body.media[0].storage_path);
+    if (error) throw error;
+    const bytes = new Uint8Array(await stored.arrayBuffer());
+    assert(!new TextDecoder().decode(bytes).includes('Exif'));
+  } finally {
+    fixtures.restore();
+    if (hazardId) {
+      const { data: files } = await supabase.storage.from(HAZARD_PHOTO_BUCKET).list(hazardId);
+      await supabase.storage.from(HAZARD_PHOTO_BUCKET).remove((files || []).map(file => `${hazardId}/${file.name}`));
+      await supabase.from('hazard_reports').delete().eq('id', hazardId);
+    }
+  }
+});
+
+Deno.test('submit-hazard rejects a photo that is not a JPEG before saving the report', async () => {
+  const fixtures = useFixtures();
+  try {
+    const png = new Uint8Array([0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a]);
+    const { status, body } = await invoke('submit-hazard', {
+      hazardType: 'flooding',
+      description: 'Test: report with a PNG attached',
+      severity: 'medium',
+      photos: [{ image: base64(png), thumbnail: base64(png), width: 10, height: 10 }],
+    });
+
+    assertEquals(status, 400);
+    assertEquals(body.error?.code, 'validation_failed');
+  } finally {
+    fixtures.restore();
+  }
+});
@@ -0,0 +1,69 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { encodePolyline } from '../_shared/geo.ts';
+import { serviceClient } from './harness.ts';
+
+// University Ave through Middleton, away from the other tests' hazards
+const ROUTE = [
+  { lat: 43.0970, lng: -89.5040 },
+  { lat: 43.0980, lng: -89.4700 },
+  { lat: 43.0880, lng: -89.4400 },
+];
+
+const HAZARDS = {
+  nearStart: { lat: 43.0971, lng: -89.5038 },
+  nearMiddle: { lat: 43.0982, lng: -89.4702 },
+  offRoute: { lat: 43.1200, lng: -89.4700 }, // About 1.5 mi north
+  resolved: { lat: 43.0974, lng: -89.4900, status: 'resolved' },
+};
+
+async function seedHazards(): Promise<Record<keyof typeof HAZARDS, string>> {
+  const { data, error } = await serviceClient()
+    .from('hazard_reports')
+    .insert(Object.entries(HAZARDS).map(([name, { lat, lng, ...rest }]) => ({
+      hazard_type: 'snow',
+      title: name,
+      description: `Test: ${name}`,
+      severity: 'medium',
+      location_lat: lat,
+      location_lng: lng,
+      ...rest,
+    })))
+    .select('id, title');
+  if (error) throw error;
+  return Object.fromEntries(data.map(row => [row.title, row.id])) as Record<keyof typeof HAZARDS, string>;
+}
+
+Deno.test('hazards_along_route returns live hazards within the buffer in driving order', async () => {
+  const ids = await seedHazards();
+  try {
+    const { data, error } = await serviceClient().rpc('hazards_along_route', {
+      polyline: encodePolyline(ROUTE),
+      buffer_m: 400,
+    });
+    if (error) throw error;
+
+    const seededIds = Object.values(ids);
+    const found = data.filter((row: { id: string }) => seededIds.includes(row.id)).map((row: { id: string }) => row.id);
+    assertEquals(found, [ids.nearStart, ids.nearMiddle]);
+  } finally {
+    await serviceClient().from('hazard_reports').delete().in('id', Object.values(ids));
+  }
+});
+
+Deno.test('hazards_near returns live hazards within the radius, closest first', async () => {
+  const ids = await seedHazards();
+  try {
+    const { data, error } = await serviceClient().rpc('hazards_near', {
+      lat: HAZARDS.nearStart.lat,
+      lng: HAZARDS.nearStart.lng,
+      radius_m: 3000,
+    });
+    if (error) throw error;
+
+    const seededIds = Object.values(ids);
+    const found = data.filter((row: { id: string }) => seededIds.includes(row.id)).map((row: { id: string }) => row.id);
+    assertEquals(found, [ids.nearStart, ids.nearMiddle]);
+  } finally {
+    await serviceClient().from('hazard_reports').delete().in('id', Object.values(ids));
+  }
+});
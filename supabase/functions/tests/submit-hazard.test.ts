@@ -0,0 +1,116 @@
+import { assert, assertEquals, assertNotEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { anonClient, invoke, serviceClient, useFixtures } from './harness.ts';
+
+// Away from the other tests' hazards so they cannot be merged into
+const CRASH_SITE = { lat: 43.0468, lng: -89.5127, address: 'Mineral Point Rd & S Gammon Rd, Madison, WI' };
+
+const report = (hazardType: string, severity: 'low' | 'medium' | 'high', offsetLat = 0) => ({
+  hazardType,
+  title: hazardType,
+  description: `Test: ${hazardType} at Gammon`,
+  severity,
+  location: { ...CRASH_SITE, lat: CRASH_SITE.lat + offsetLat, confidence: 'high' as const },
+});
+
+// Anonymous reporters are told apart by the address they report from
+const from = (address: string) => ({ 'cf-connecting-ip': address });
+
+Deno.test('submit-hazard merges reports of the same hazard into one', async () => {
+  const createdIds: string[] = [];
+  const fixtures = useFixtures();
+  try {
+    const first = await invoke('submit-hazard', report('accident', 'medium'), from('203.0.113.10'));
+    assertEquals(first.status, 200);
+    assertEquals(first.body.merged, false);
+    assertEquals(first.body.hazard.report_count, 1);
+    createdIds.push(first.body.hazard.id);
+
+    // About 100 yards away, and "obstruction" is how some drivers describe a crash
+    const second = await invoke('submit-hazard', report('obstruction', 'high', 0.0009), from('203.0.113.11'));
+    assertEquals(second.body.merged, true);
+    assertEquals(second.body.hazard.id, first.body.hazard.id);
+    assertEquals(second.body.hazard.report_count, 2);
+    assertEquals(second.body.hazard.status, 'confirmed');
+    assertEquals(second.body.hazard.severity, 'high');
+    assert(second.body.hazard.confidence > first.body.hazard.confidence);
+    assert(second.body.sightingId);
+
+    // A pothole at the same corner is a different hazard
+    const pothole = await invoke('submit-hazard', report('pothole', 'low'), from('203.0.113.12'));
+    assertEquals(pothole.body.merged, false);
+    assertNotEquals(pothole.body.hazard.id, first.body.hazard.id);
+    createdIds.push(pothole.body.hazard.id);
+
+    // So is a crash a mile up the road
+    const elsewhere = await invoke('submit-hazard', report('accident', 'high', 0.015), from('203.0.113.13'));
+    assertEquals(elsewhere.body.merged, false);
+    createdIds.push(elsewhere.body.hazard.id);
+  } finally {
+    fixtures.restore();
+    await serviceClient().from('hazard_reports').delete().in('id', createdIds);
+  }
+});
+
+Deno.test('submit-hazard counts each reporter once however often they report a hazard', async () => {
+  const createdIds: string[] = [];
+  const fixtures = useFixtures();
+  try {
+    const first = await invoke('submit-hazard', report('accident', 'medium'), from('203.0.113.20'));
+    createdIds.push(first.body.hazard.id);
+
+    // The first reporter again keeps it fresh but is not a second driver
+    const again = await invoke('submit-hazard', report('accident', 'high'), from('203.0.113.20'));
+    assertEquals(again.body.merged, true);
+    assertEquals(again.body.hazard.report_count, 1);
+    assertEquals(again.body.hazard.severity, 'high');
+    assertEquals(again.body.sightingId, null);
+
+    const other = await invoke('submit-hazard', report('accident', 'medium'), from('203.0.113.21'));
+    assertEquals(other.body.hazard.report_count, 2);
+
+    // Nor is another driver who reports it twice
+    const otherAgain = await invoke('submit-hazard', report('accident', 'medium'), from('203.0.113.21'));
+    assertEquals(otherAgain.body.hazard.report_count, 2);
+    assertEquals(otherAgain.body.sightingId, other.body.sightingId);
+
+    // Who reported what stays with the function: a key links all of one driver's reports
+    const { data: reporters } = await anonClient().from('hazard_reporters').select('reporter_key').eq('hazard_id', first.body.hazard.id);
+    assertEquals(reporters ?? [], []);
+    const { count } = await serviceClient().from('hazard_reporters').select('*', { count: 'exact', head: true }).eq('hazard_id', first.body.hazard.id);
+    assertEquals(count, 2);
+  } finally {
+    fixtures.restore();
+    await serviceClient().from('hazard_reports').delete().in('id', createdIds);
+  }
+});
+
+Deno.test('submit-hazard does not merge into a resolved hazard', async () => {
+  const supabase = serviceClient();
+  const { data: resolved, error } = await supabase
+    .from('hazard_reports')
+    .insert({
+      hazard_type: 'accident',
+      title: 'Accident',
+      description: 'Test: crash that has been cleared',
+      severity: 'high',
+      status: 'resolved',
+      location_lat: CRASH_SITE.lat,
+      location_lng: CRASH_SITE.lng,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const createdIds = [resolved.id];
+  const fixtures = useFixtures();
+  try {
+    const { body } = await invoke('submit-hazard', report('accident', 'high'));
+    createdIds.push(body.hazard.id);
+
+    assertEquals(body.merged, false);
+    assertNotEquals(body.hazard.id, resolved.id);
+  } finally {
+    fixtures.restore();
+    await supabase.from('hazard_reports').delete().in('id', createdIds);
+  }
+});
@@ -0,0 +1,96 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { invoke, serviceClient, signedInUser, useFixtures } from './harness.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function seedHazard(hazardType: string, hoursAgo = 1): Promise<string> {
+  const { data, error } = await serviceClient()
+    .from('hazard_reports')
+    .insert({
+      hazard_type: hazardType,
+      title: hazardType,
+      description: `Test: ${hazardType} to vote on`,
+      severity: 'medium',
+      location_lat: 43.0731,
+      location_lng: -89.4012,
+      created_at: new Date(Date.now() - hoursAgo * HOUR_MS).toISOString(),
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+  return data.id;
+}
+
+// Anonymous voters count once per address they connect from
+const vote = (hazardId: string, vote: 'still_there' | 'gone', address: string, headers: Record<string, string> = {}) =>
+  invoke('vote-hazard', { hazardId, vote }, { 'cf-connecting-ip': address, ...headers });
+
+Deno.test('vote-hazard confirms a hazard and restarts its lifetime', async () => {
+  // Debris lasts 6 hours; reported 5 hours ago it has about an hour left
+  const hazardId = await seedHazard('debris', 5);
+  const fixtures = useFixtures();
+  try {
+    const { status, body } = await vote(hazardId, 'still_there', '203.0.113.1');
+
+    assertEquals(status, 200);
+    assertEquals(body.status, 'confirmed');
+    assertEquals(body.stillThereCount, 1);
+    assert(new Date(body.expiresAt).getTime() > Date.now() + 5 * HOUR_MS);
+  } finally {
+    fixtures.restore();
+    await serviceClient().from('hazard_reports').delete().eq('id', hazardId);
+  }
+});
+
+Deno.test('vote-hazard disputes, then resolves a hazard voted gone', async () => {
+  const hazardId = await seedHazard('pothole');
+  const fixtures = useFixtures();
+  try {
+    const first = await vote(hazardId, 'gone', '203.0.113.1');
+    assertEquals(first.body.status, 'disputed');
+    // A disputed hazard goes away soon unless someone sees it again
+    assert(new Date(first.body.expiresAt).getTime() <= Date.now() + 2 * HOUR_MS);
+
+    // Voting again replaces the voter's vote rather than adding one, whatever the body says
+    const repeat = await invoke('vote-hazard', { hazardId, vote: 'gone', voterKey: 'made-up-voter' }, { 'cf-connecting-ip': '203.0.113.1' });
+    assertEquals(repeat.body.goneCount, 1);
+
+    const second = await vote(hazardId, 'gone', '203.0.113.2');
+    assertEquals(second.body.status, 'resolved');
+    assertEquals(second.body.goneCount, 2);
+    assert(second.body.resolvedAt);
+
+    const late = await vote(hazardId, 'still_there', '203.0.113.3');
+    assertEquals(late.status, 409);
+    assertEquals(late.body.error?.code, 'conflict');
+  } finally {
+    fixtures.restore();
+    await serviceClient().from('hazard_reports').delete().eq('id', hazardId);
+  }
+});
+
+Deno.test('vote-hazard answers not_found for an unknown hazard', async () => {
+  const { status, body } = await vote(crypto.randomUUID(), 'gone', '203.0.113.1');
+
+  assertEquals(status, 404);
+  assertEquals(body.error?.code, 'not_found');
+});
+
+Deno.test('vote-hazard counts a signed-in voter once wherever they vote from', async () => {
+  const hazardId = await seedHazard('pothole');
+  const { userId, headers } = await signedInUser();
+  const fixtures = useFixtures();
+  try {
+    await vote(hazardId, 'gone', '203.0.113.1', headers);
+    const again = await vote(hazardId, 'gone', '198.51.100.7', headers);
+
+    assertEquals(again.body.goneCount, 1);
+    assertEquals(again.body.status, 'disputed');
+    const { data: votes } = await serviceClient().from('hazard_votes').select('voter_key').eq('hazard_id', hazardId);
+    assertEquals(votes, [{ voter_key: userId }]);
+  } finally {
+    fixtures.restore();
+    await serviceClient().from('hazard_reports').delete().eq('id', hazardId);
+    await serviceClient().auth.admin.deleteUser(userId);
+  }
+});
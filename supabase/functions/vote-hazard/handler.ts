@@ -0,0 +1,85 @@
+import { getCallerKey, getRequestUserId } from '../_shared/auth.ts';
+import { EdgeFunctionError } from '../_shared/errors.ts';
+import { isLiveHazard, loadTtlHours } from '../_shared/hazardStatus.ts';
+import { createHandler } from '../_shared/http.ts';
+import { createServiceClient } from '../_shared/supabase.ts';
+import { applyVotes, VoteRow } from './lifecycle.ts';
+
+export const handler = createHandler('vote-hazard', async ({ hazardId, vote }, req) => {
+  // Votes and report status are only writable with the service role
+  const supabase = createServiceClient();
+
+  const { data: hazard, error: hazardError } = await supabase
+    .from('hazard_reports')
+    .select('id, hazard_type, status, last_seen_at, expires_at')
+    .eq('id', hazardId)
+    .maybeSingle();
+
+  if (hazardError) {
+    throw new EdgeFunctionError('database_error', 'Could not load the hazard', { message: hazardError.message });
+  }
+  if (!hazard) {
+    throw new EdgeFunctionError('not_found', `No hazard ${hazardId}`);
+  }
+
+  const now = new Date();
+  if (!isLiveHazard(hazard, now)) {
+    const status = hazard.status === 'resolved' ? 'resolved' : 'expired';
+    throw new EdgeFunctionError('conflict', `Hazard is already ${status}`, { status });
+  }
+
+  // A voter's new vote replaces their earlier one
+  const voterKey = await getCallerKey(req, await getRequestUserId(req));
+  const { error: voteError } = await supabase
+    .from('hazard_votes')
+    .upsert({ hazard_id: hazardId, voter_key: voterKey, vote, created_at: now.toISOString() }, { onConflict: 'hazard_id,voter_key' });
+
+  if (voteError) {
+    throw new EdgeFunctionError('database_error', 'Could not record the vote', { message: voteError.message });
+  }
+
+  const [{ data: votes, error: votesError }, ttlHours] = await Promise.all([
+    supabase.from('hazard_votes').select('vote, created_at').eq('hazard_id', hazardId),
+    loadTtlHours(supabase, hazard.hazard_type),
+  ]);
+
+  if (votesError) {
+    throw new EdgeFunctionError('database_error', 'Could not count votes', { message: votesError.message });
+  }
+
+  const next = applyVotes(
+    { lastSeenAt: hazard.last_seen_at, expiresAt: hazard.expires_at },
+    (votes || []) as VoteRow[],
+    vote,
+    ttlHours,
+    now
+  );
+
+  const { error: updateError } = await supabase
+    .from('hazard_reports')
+    .update({
+      status: next.status,
+      last_seen_at: next.lastSeenAt,
+      expires_at: next.expiresAt,
+      resolved_at: next.resolvedAt,
+      still_there_count: next.stillThereCount,
+      gone_count: next.goneCount,
+    })
+    .eq('id', hazardId);
+
+  if (updateError) {
+    throw new EdgeFunctionError('database_error', 'Could not update the hazard', { message: updateError.message });
+  }
+
+  console.log(`🗳️ ${vote} vote on hazard ${hazardId}: now ${next.status}, expires ${next.expiresAt}`);
+
+  return {
+    hazardId,
+    status: next.status,
+    stillThereCount: next.stillThereCount,
+    goneCount: next.goneCount,
+    lastSeenAt: new Date(next.lastSeenAt).toISOString(),
+    expiresAt: new Date(next.expiresAt).toISOString(),
+    resolvedAt: next.resolvedAt,
+  };
+});
@@ -0,0 +1,70 @@
+// How "still there" / "gone" votes move a hazard report through its lifecycle
+import type { HazardStatus, HazardVote } from '../_shared/contracts.ts';
+
+export interface HazardState {
+  status: HazardStatus;
+  lastSeenAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+  stillThereCount: number;
+  goneCount: number;
+}
+
+export interface VoteRow {
+  vote: HazardVote;
+  created_at: string;
+}
+
+// Only votes this recent decide between confirmed, disputed and resolved, so last night's
+// "still there" votes do not outweigh this morning's "gone" ones
+export const RECENT_VOTE_HOURS = 3;
+// Recent "gone" votes needed to resolve a hazard (and they must outnumber "still there")
+export const GONE_VOTES_TO_RESOLVE = 2;
+// A disputed hazard expires within this many hours unless someone sees it again
+export const DISPUTED_TTL_HOURS = 2;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const later = (a: string, b: string) => new Date(a) >= new Date(b) ? a : b;
+const earlier = (a: string, b: string) => new Date(a) <= new Date(b) ? a : b;
+
+// `votes` is every current vote on the hazard, including the one just cast. "Still there"
+// restarts the type's lifetime from now; a "gone" that leaves it disputed shortens it.
+export function applyVotes(
+  hazard: Pick<HazardState, 'lastSeenAt' | 'expiresAt'>,
+  votes: VoteRow[],
+  castVote: HazardVote,
+  ttlHours: number,
+  now = new Date()
+): HazardState {
+  const recentSince = now.getTime() - RECENT_VOTE_HOURS * HOUR_MS;
+  const recent = votes.filter(vote => new Date(vote.created_at).getTime() >= recentSince);
+  const recentStillThere = recent.filter(vote => vote.vote === 'still_there').length;
+  const recentGone = recent.filter(vote => vote.vote === 'gone').length;
+
+  const nowIso = now.toISOString();
+  let lastSeenAt = hazard.lastSeenAt;
+  let expiresAt = hazard.expiresAt;
+  if (castVote === 'still_there') {
+    lastSeenAt = later(lastSeenAt, nowIso);
+    expiresAt = later(expiresAt, new Date(now.getTime() + ttlHours * HOUR_MS).toISOString());
+  }
+
+  const stillThereCount = votes.filter(vote => vote.vote === 'still_there').length;
+  const goneCount = votes.length - stillThereCount;
+  const counts = { stillThereCount, goneCount, lastSeenAt };
+
+  if (recentGone >= GONE_VOTES_TO_RESOLVE && recentGone > recentStillThere) {
+    return { ...counts, status: 'resolved', expiresAt, resolvedAt: nowIso };
+  }
+  if (recentGone > 0 && recentGone >= recentStillThere) {
+    const disputedExpiry = new Date(now.getTime() + DISPUTED_TTL_HOURS * HOUR_MS).toISOString();
+    return {
+      ...counts,
+      status: 'disputed',
+      expiresAt: castVote === 'gone' ? earlier(expiresAt, disputedExpiry) : expiresAt,
+      resolvedAt: null,
+    };
+  }
+  return { ...counts, status: stillThereCount > 0 ? 'confirmed' : 'active', expiresAt, resolvedAt: null };
+}
@@ -0,0 +1,10 @@
+-- Store the AI-derived classification alongside each hazard report
+-- hazard_type now holds the taxonomy type (ice, accident, ...) instead of free text
+ALTER TABLE public.hazard_reports
+  ADD COLUMN title TEXT,
+  ADD COLUMN location_source TEXT,
+  ADD COLUMN ai_reasoning TEXT;
+
+-- Index for filtering the live list and downstream consumers by category
+CREATE INDEX IF NOT EXISTS idx_hazard_reports_hazard_type
+ON public.hazard_reports(hazard_type, created_at DESC);
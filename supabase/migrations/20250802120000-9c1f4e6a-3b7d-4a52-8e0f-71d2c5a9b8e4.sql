@@ -0,0 +1,17 @@
+-- Cache of get-weather responses shared by route analyses.
+-- Keyed by a snapped lat/lng grid cell and the hour the conditions are for.
+CREATE TABLE public.weather_cache (
+  grid_cell TEXT NOT NULL,
+  time_bucket TIMESTAMP WITH TIME ZONE NOT NULL,
+  payload JSONB NOT NULL,
+  is_forecast BOOLEAN NOT NULL DEFAULT false,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (grid_cell, time_bucket)
+);
+
+-- Lets cleanup-old-hazards prune expired rows cheaply
+CREATE INDEX idx_weather_cache_expires_at ON public.weather_cache(expires_at);
+
+-- Only edge functions (service role) read and write the cache
+ALTER TABLE public.weather_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,103 @@
+-- Hazard report lifecycle. A report stays up for its type's lifetime, other users' votes
+-- extend or end it, and cleanup-old-hazards expires it instead of deleting it:
+--   active    -> reported, nobody has voted yet
+--   confirmed -> someone voted "still there"
+--   disputed  -> recent "gone" votes, not yet enough to resolve it
+--   resolved  -> voted gone
+--   expired   -> its lifetime ran out
+-- Resolved and expired reports are kept as the archive; live queries filter on status.
+
+-- How long a report of each type stays up after it was last seen
+CREATE TABLE public.hazard_type_ttls (
+  hazard_type TEXT NOT NULL PRIMARY KEY,
+  ttl_hours INTEGER NOT NULL CHECK (ttl_hours > 0)
+);
+
+INSERT INTO public.hazard_type_ttls (hazard_type, ttl_hours) VALUES
+  ('accident', 4),
+  ('animal', 2),
+  ('visibility', 4),
+  ('debris', 6),
+  ('spill', 6),
+  ('obstruction', 8),
+  ('ice', 12),
+  ('snow', 12),
+  ('flooding', 24),
+  ('unknown', 24),
+  ('pothole', 72),
+  ('closure', 72),
+  ('construction', 168);
+
+ALTER TABLE public.hazard_type_ttls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Hazard lifetimes are viewable by everyone"
+ON public.hazard_type_ttls
+FOR SELECT
+USING (true);
+
+-- Types without their own row get the 'unknown' lifetime
+CREATE OR REPLACE FUNCTION public.hazard_ttl(p_hazard_type TEXT)
+RETURNS INTERVAL AS $$
+  SELECT make_interval(hours => COALESCE(
+    (SELECT ttl_hours FROM public.hazard_type_ttls WHERE hazard_type = p_hazard_type),
+    (SELECT ttl_hours FROM public.hazard_type_ttls WHERE hazard_type = 'unknown'),
+    24
+  ));
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE public.hazard_reports
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'confirmed', 'disputed', 'resolved', 'expired')),
+  ADD COLUMN last_seen_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN resolved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN still_there_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN gone_count INTEGER NOT NULL DEFAULT 0;
+
+-- Existing reports were last seen when reported
+UPDATE public.hazard_reports
+SET last_seen_at = created_at,
+    expires_at = created_at + public.hazard_ttl(hazard_type);
+
+UPDATE public.hazard_reports
+SET status = 'expired'
+WHERE expires_at <= now();
+
+-- New reports start their lifetime when reported (created_at may be backdated)
+CREATE OR REPLACE FUNCTION public.set_hazard_report_expiry()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.last_seen_at = COALESCE(NEW.last_seen_at, NEW.created_at);
+  NEW.expires_at = COALESCE(NEW.expires_at, NEW.last_seen_at + public.hazard_ttl(NEW.hazard_type));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_hazard_reports_expiry
+BEFORE INSERT ON public.hazard_reports
+FOR EACH ROW
+EXECUTE FUNCTION public.set_hazard_report_expiry();
+
+ALTER TABLE public.hazard_reports
+  ALTER COLUMN last_seen_at SET NOT NULL,
+  ALTER COLUMN expires_at SET NOT NULL;
+
+-- Live hazards by expiry, for the list, route lookups and the cleanup job
+CREATE INDEX idx_hazard_reports_live
+ON public.hazard_reports(expires_at)
+WHERE status IN ('active', 'confirmed', 'disputed');
+
+-- "Still there" / "gone" votes, one per voter per hazard (a new vote replaces the old one).
+-- Written only by the vote-hazard function, which also updates the report's counts and status.
+CREATE TABLE public.hazard_votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hazard_id UUID NOT NULL REFERENCES public.hazard_reports(id) ON DELETE CASCADE,
+  -- The voter's user id, or for anonymous voters a server-keyed hash of the address they vote
+  -- from (see getCallerKey); never taken from the request body
+  voter_key TEXT NOT NULL,
+  vote TEXT NOT NULL CHECK (vote IN ('still_there', 'gone')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (hazard_id, voter_key)
+);
+
+ALTER TABLE public.hazard_votes ENABLE ROW LEVEL SECURITY;
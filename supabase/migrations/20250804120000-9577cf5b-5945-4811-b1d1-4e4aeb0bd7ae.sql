@@ -0,0 +1,35 @@
+-- Duplicate hazard reports. The submit-hazard function attaches a report that matches a live
+-- hazard nearby (compatible type, recent) to that hazard as a sighting instead of adding a row,
+-- so five drivers reporting one crash make one hazard "reported by 5 drivers".
+ALTER TABLE public.hazard_reports
+  -- Reports merged into this hazard, including the first
+  ADD COLUMN report_count INTEGER NOT NULL DEFAULT 1 CHECK (report_count >= 1),
+  -- 0-1, rises with each corroborating report
+  ADD COLUMN confidence NUMERIC NOT NULL DEFAULT 0.5 CHECK (confidence >= 0 AND confidence <= 1);
+
+-- Corroborating reports merged into an existing hazard
+CREATE TABLE public.hazard_sightings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hazard_id UUID NOT NULL REFERENCES public.hazard_reports(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  hazard_type TEXT NOT NULL,
+  description TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high')),
+  location_address TEXT,
+  location_lat DECIMAL,
+  location_lng DECIMAL,
+  distance_miles NUMERIC, -- From the hazard it was merged into
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_hazard_sightings_hazard_id ON public.hazard_sightings(hazard_id, created_at DESC);
+
+ALTER TABLE public.hazard_sightings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Hazard sightings are viewable by everyone"
+ON public.hazard_sightings
+FOR SELECT
+USING (true);
+
+-- Reports now go through submit-hazard (service role) so every one is checked for duplicates
+DROP POLICY "Anyone can create hazard reports" ON public.hazard_reports;
@@ -0,0 +1,48 @@
+-- Spatial lookups for hazard reports. A geography point generated from location_lat/lng, with a
+-- GiST index, backs two RPCs so the app and functions fetch only the hazards they need:
+--   hazards_near(lat, lng, radius_m)           live hazards within radius_m, closest first
+--   hazards_along_route(polyline, buffer_m)    live hazards within buffer_m of a Google encoded
+--                                              polyline (two or more points), in driving order
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+-- Generated, so inserts keep writing location_lat/lng
+ALTER TABLE public.hazard_reports
+  ADD COLUMN location extensions.geography(Point, 4326) GENERATED ALWAYS AS (
+    CASE WHEN location_lat IS NOT NULL AND location_lng IS NOT NULL
+      THEN extensions.ST_SetSRID(extensions.ST_MakePoint(location_lng, location_lat), 4326)::extensions.geography
+    END
+  ) STORED;
+
+CREATE INDEX idx_hazard_reports_location_geo
+ON public.hazard_reports USING GIST (location);
+
+-- Bounding-box queries on lat/lng are replaced by the RPCs
+DROP INDEX IF EXISTS public.idx_hazard_reports_location;
+
+CREATE OR REPLACE FUNCTION public.hazards_near(lat DOUBLE PRECISION, lng DOUBLE PRECISION, radius_m DOUBLE PRECISION)
+RETURNS SETOF public.hazard_reports AS $$
+  SELECT hazard.*
+  FROM public.hazard_reports AS hazard
+  WHERE hazard.status IN ('active', 'confirmed', 'disputed')
+    AND hazard.expires_at > now()
+    AND ST_DWithin(hazard.location, ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography, radius_m)
+  ORDER BY hazard.location <-> ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography;
+$$ LANGUAGE sql STABLE
+SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION public.hazards_along_route(polyline TEXT, buffer_m DOUBLE PRECISION)
+RETURNS SETOF public.hazard_reports AS $$
+  WITH route AS (
+    SELECT ST_LineFromEncodedPolyline(polyline) AS line
+  )
+  SELECT hazard.*
+  FROM public.hazard_reports AS hazard, route
+  WHERE hazard.status IN ('active', 'confirmed', 'disputed')
+    AND hazard.expires_at > now()
+    AND ST_DWithin(hazard.location, route.line::geography, buffer_m)
+  ORDER BY ST_LineLocatePoint(route.line, hazard.location::geometry);
+$$ LANGUAGE sql STABLE
+SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION public.hazards_near(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hazards_along_route(TEXT, DOUBLE PRECISION) TO anon, authenticated;
@@ -0,0 +1,4 @@
+-- Live hazard updates. Publishing hazard_reports to Supabase Realtime lets the app merge new
+-- reports, votes and expiry into the hazard list and map as they happen. Realtime applies the
+-- table's select policy, so subscribers see exactly the rows they could query.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.hazard_reports;
@@ -0,0 +1,31 @@
+-- Photos attached to hazard reports. The app re-encodes each photo as a JPEG (dropping its EXIF,
+-- including GPS) and sends it with the report; submit-hazard strips any metadata left, stores the
+-- photo and a thumbnail in the public hazard-photos bucket and records them here. Photos sent
+-- with a report that is merged into a live hazard are attached to that hazard.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('hazard-photos', 'hazard-photos', true, 5242880, ARRAY['image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE public.hazard_report_media (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hazard_id UUID NOT NULL REFERENCES public.hazard_reports(id) ON DELETE CASCADE,
+  -- Set when the photo came with a report merged into the hazard
+  sighting_id UUID REFERENCES public.hazard_sightings(id) ON DELETE SET NULL,
+  storage_path TEXT NOT NULL, -- In the hazard-photos bucket
+  thumbnail_path TEXT NOT NULL,
+  content_type TEXT NOT NULL DEFAULT 'image/jpeg',
+  width INTEGER NOT NULL CHECK (width > 0),
+  height INTEGER NOT NULL CHECK (height > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_hazard_report_media_hazard_id ON public.hazard_report_media(hazard_id, created_at);
+
+ALTER TABLE public.hazard_report_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Hazard photos are viewable by everyone"
+ON public.hazard_report_media
+FOR SELECT
+USING (true);
+
+-- Uploads go through submit-hazard (service role); the bucket being public covers reads
@@ -0,0 +1,103 @@
+-- User accounts. Signing in (Supabase Auth, email link) is optional; a signed-in driver gets a
+-- profile with a garage of saved vehicles, one of them the default, and named saved places
+-- (Home, Work, Daycare) that pre-fill the route form. Each driver reads and writes only their own rows.
+CREATE TABLE public.profiles (
+  id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.vehicles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  vehicle_type TEXT NOT NULL CHECK (vehicle_type IN ('sedan', 'suv', 'truck')),
+  tires TEXT NOT NULL CHECK (tires IN ('regular', 'snow')),
+  drive TEXT NOT NULL CHECK (drive IN ('fwd', 'awd', '4wd')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_vehicles_user_id ON public.vehicles(user_id, created_at);
+
+-- The vehicle the route form starts with
+ALTER TABLE public.profiles
+  ADD COLUMN default_vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL;
+
+CREATE TABLE public.saved_places (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (length(trim(label)) > 0), -- "Home", "Work", "Daycare", ...
+  address TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, label)
+);
+
+-- Every new user gets a profile
+CREATE OR REPLACE FUNCTION public.create_profile_for_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, display_name)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'display_name')
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+CREATE TRIGGER create_profile_on_signup
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.create_profile_for_user();
+
+-- Users who signed up before profiles existed
+INSERT INTO public.profiles (id)
+SELECT id FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.touch_profile_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER touch_profiles_updated_at
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_profile_updated_at();
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vehicles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_places ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own profile"
+ON public.profiles
+FOR SELECT
+USING (auth.uid() = id);
+
+-- The default vehicle must be one of the user's own
+CREATE POLICY "Users can update their own profile"
+ON public.profiles
+FOR UPDATE
+USING (auth.uid() = id)
+WITH CHECK (
+  auth.uid() = id
+  AND (
+    default_vehicle_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.vehicles WHERE vehicles.id = default_vehicle_id AND vehicles.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can manage their own vehicles"
+ON public.vehicles
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own saved places"
+ON public.saved_places
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
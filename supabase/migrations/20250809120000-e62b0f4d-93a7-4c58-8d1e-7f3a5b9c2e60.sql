@@ -0,0 +1,79 @@
+-- Saved commutes. A signed-in driver saves a route they drive regularly with its usual departure
+-- time and days; the scheduled check-commutes function runs the route analysis ahead of each
+-- departure and keeps every verdict, flagging those worse than the commute's usual one.
+CREATE TABLE public.commutes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  start_location TEXT NOT NULL,
+  end_location TEXT NOT NULL,
+  travel_mode TEXT NOT NULL DEFAULT 'driving' CHECK (travel_mode IN ('driving', 'walking', 'biking')),
+  -- A copy of the vehicle rather than a garage reference, so the commute outlives the garage entry
+  vehicle_type TEXT CHECK (vehicle_type IN ('sedan', 'suv', 'truck')),
+  tires TEXT CHECK (tires IN ('regular', 'snow')),
+  drive TEXT CHECK (drive IN ('fwd', 'awd', '4wd')),
+  departure_time TIME NOT NULL, -- Local time in time_zone
+  days_of_week SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}' -- 0 = Sunday
+    CHECK (cardinality(days_of_week) > 0 AND days_of_week <@ '{0,1,2,3,4,5,6}'),
+  time_zone TEXT NOT NULL DEFAULT 'America/Chicago',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_commutes_user_id ON public.commutes(user_id, created_at);
+
+-- One row per checked departure; the unique key stops overlapping runs checking it twice
+CREATE TABLE public.commute_checks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  commute_id UUID NOT NULL REFERENCES public.commutes(id) ON DELETE CASCADE,
+  departure_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Recommended route's verdict; null (with error set) when the route or its analysis failed
+  overall_safety TEXT CHECK (overall_safety IN ('safe', 'caution', 'danger')),
+  usual_safety TEXT NOT NULL CHECK (usual_safety IN ('safe', 'caution', 'danger')),
+  worsened BOOLEAN NOT NULL DEFAULT false,
+  route_summary TEXT,
+  duration_seconds INTEGER,
+  avg_snow_depth DOUBLE PRECISION,
+  hazard_count INTEGER,
+  recommendation TEXT,
+  error TEXT,
+  UNIQUE (commute_id, departure_at)
+);
+
+CREATE INDEX idx_commute_checks_commute_id ON public.commute_checks(commute_id, departure_at DESC);
+
+ALTER TABLE public.commutes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.commute_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own commutes"
+ON public.commutes
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Checks are written by check-commutes with the service role
+CREATE POLICY "Users can view checks of their own commutes"
+ON public.commute_checks
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.commutes WHERE commutes.id = commute_id AND commutes.user_id = auth.uid()));
+
+-- Run check-commutes every 15 minutes. It reads the project URL and service role key from Vault
+-- secrets named project_url and service_role_key.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'check-commutes',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/check-commutes',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,156 @@
+-- Web Push notifications for signed-in drivers. Browsers that allowed notifications are kept in
+-- push_subscriptions. Triggers queue a notification when a commute check comes out worse than usual
+-- and when a high-severity hazard is reported on a commute's route; the dispatch-notifications
+-- function sends them, holding them through the driver's quiet hours.
+
+-- Quiet hours are wall-clock times in time_zone; both or neither are set
+ALTER TABLE public.profiles
+  ADD COLUMN quiet_hours_start TIME,
+  ADD COLUMN quiet_hours_end TIME,
+  ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'America/Chicago',
+  ADD CONSTRAINT profiles_quiet_hours_check CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+-- Per-commute opt-out, and the route its latest check recommended for matching new hazards
+ALTER TABLE public.commutes
+  ADD COLUMN notify BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN route_polyline TEXT, -- Google encoded polyline
+  ADD COLUMN route_line extensions.geography(LineString, 4326) GENERATED ALWAYS AS (
+    CASE WHEN route_polyline IS NOT NULL
+      THEN extensions.ST_LineFromEncodedPolyline(route_polyline)::extensions.geography
+    END
+  ) STORED;
+
+CREATE INDEX idx_commutes_route_line
+ON public.commutes USING GIST (route_line);
+
+CREATE TABLE public.push_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL, -- The browser's public key, base64url
+  auth TEXT NOT NULL, -- The browser's auth secret, base64url
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+-- Outbox of notifications. A row is sent once (sent_at) or dropped with a reason, and is not worth
+-- sending after not_after (the commute's departure, or the hazard's expiry).
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('commute_risk', 'route_hazard')),
+  commute_id UUID REFERENCES public.commutes(id) ON DELETE CASCADE,
+  hazard_id UUID REFERENCES public.hazard_reports(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  url TEXT NOT NULL DEFAULT '/',
+  urgent BOOLEAN NOT NULL DEFAULT false,
+  -- One notification per check or per hazard, however many of a driver's commutes it touches
+  dedupe_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  not_after TIMESTAMP WITH TIME ZONE NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  dropped_reason TEXT CHECK (dropped_reason IN ('expired', 'no_subscriptions')),
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX idx_notifications_pending
+ON public.notifications(created_at)
+WHERE sent_at IS NULL AND dropped_reason IS NULL;
+
+-- "Your 7:30 commute is now rated danger"
+CREATE OR REPLACE FUNCTION public.queue_commute_risk_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, kind, commute_id, title, body, urgent, dedupe_key, not_after)
+  SELECT
+    commute.user_id,
+    'commute_risk',
+    commute.id,
+    format('Your %s commute is now rated %s', to_char(DATE '2000-01-01' + commute.departure_time, 'FMHH12:MI AM'), NEW.overall_safety),
+    format('%s: %s', commute.name, coalesce(NEW.recommendation, 'Conditions are worse than usual.')),
+    NEW.overall_safety = 'danger',
+    'commute_risk:' || NEW.id,
+    NEW.departure_at
+  FROM public.commutes AS commute
+  WHERE commute.id = NEW.commute_id
+    AND commute.notify
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+CREATE TRIGGER queue_commute_risk_notification
+AFTER INSERT ON public.commute_checks
+FOR EACH ROW
+WHEN (NEW.worsened)
+EXECUTE FUNCTION public.queue_commute_risk_notification();
+
+-- "New high-severity hazard reported on your saved route", to every driver with a commute within
+-- 200 m of it except the reporter
+CREATE OR REPLACE FUNCTION public.queue_route_hazard_notifications()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, kind, commute_id, hazard_id, title, body, urgent, dedupe_key, not_after)
+  SELECT DISTINCT ON (commute.user_id)
+    commute.user_id,
+    'route_hazard',
+    commute.id,
+    NEW.id,
+    format('New hazard on your %s route', commute.name),
+    format('%s%s', coalesce(NEW.title, initcap(NEW.hazard_type)), coalesce(' near ' || NEW.location_address, '')),
+    true,
+    'route_hazard:' || NEW.id,
+    NEW.expires_at
+  FROM public.commutes AS commute
+  WHERE commute.notify
+    AND commute.route_line IS NOT NULL
+    AND ST_DWithin(commute.route_line, NEW.location, 200)
+    AND commute.user_id IS DISTINCT FROM NEW.user_id
+  ORDER BY commute.user_id, commute.created_at
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions;
+
+CREATE TRIGGER queue_route_hazard_notifications
+AFTER INSERT ON public.hazard_reports
+FOR EACH ROW
+WHEN (NEW.severity = 'high' AND NEW.location_lat IS NOT NULL AND NEW.location_lng IS NOT NULL)
+EXECUTE FUNCTION public.queue_route_hazard_notifications();
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own push subscriptions"
+ON public.push_subscriptions
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Queued by the triggers and sent by dispatch-notifications with the service role
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Send queued notifications every minute, the same way check-commutes is scheduled
+SELECT cron.schedule(
+  'dispatch-notifications',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/dispatch-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,4 @@
+-- Notifications held for the driver's quiet hours wait in hold_until instead of at the front of
+-- the queue, so dispatch-notifications' batches move on to the ones it can send now
+ALTER TABLE public.notifications
+  ADD COLUMN hold_until TIMESTAMP WITH TIME ZONE;
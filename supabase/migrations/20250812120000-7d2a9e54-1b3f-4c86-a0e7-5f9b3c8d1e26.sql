@@ -0,0 +1,14 @@
+-- Who made each report and sighting: the user's id, or a key for an anonymous caller's address
+-- (see getCallerKey). A reporter who reports the same hazard again keeps it fresh without counting
+-- as another driver who saw it. Hazards from before this have no rows and count as they did.
+-- Written and read only by the submit-hazard function: a key links every report one driver made.
+CREATE TABLE public.hazard_reporters (
+  hazard_id UUID NOT NULL REFERENCES public.hazard_reports(id) ON DELETE CASCADE,
+  reporter_key TEXT NOT NULL,
+  -- Their sighting of the hazard; null for whoever reported it first
+  sighting_id UUID REFERENCES public.hazard_sightings(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (hazard_id, reporter_key)
+);
+
+ALTER TABLE public.hazard_reporters ENABLE ROW LEVEL SECURITY;
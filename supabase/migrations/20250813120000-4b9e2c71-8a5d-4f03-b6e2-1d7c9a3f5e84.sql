@@ -0,0 +1,16 @@
+-- Run cleanup-old-hazards every hour, the same way check-commutes is scheduled. It expires
+-- hazard reports past their lifetime and deletes cached weather past its expiry.
+SELECT cron.schedule(
+  'cleanup-old-hazards',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/cleanup-old-hazards',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
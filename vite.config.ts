@@ -1,8 +1,43 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest/config" />
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { createHash } from "crypto";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Writes the build's files into the service worker (public/sw.js) so it caches them all when it
+// installs, not only the ones a page happens to load. The list changes with every build, so each
+// deploy installs a new worker with its own cache.
+function precacheBuild(): Plugin {
+  let outDir = "dist";
+  let files: string[] = [];
+  return {
+    name: "madsnowi-precache-build",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    generateBundle(_options, bundle) {
+      files = Object.keys(bundle)
+        .filter(fileName => fileName !== "index.html" && !fileName.endsWith(".map"))
+        .sort()
+        .map(fileName => `/${fileName}`);
+    },
+    // The public directory is copied by then
+    closeBundle() {
+      const workerPath = path.join(outDir, "sw.js");
+      const worker = fs.readFileSync(workerPath, "utf8");
+      const buildId = createHash("sha256").update(files.join("\n")).digest("hex").slice(0, 12);
+      const filled = worker
+        .replace("const BUILD_FILES = [];", `const BUILD_FILES = ${JSON.stringify(files)};`)
+        .replace("const BUILD_ID = 'dev';", `const BUILD_ID = '${buildId}';`);
+      if (!filled.includes(buildId)) throw new Error("public/sw.js no longer has the BUILD_FILES and BUILD_ID placeholders");
+      fs.writeFileSync(workerPath, filled);
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -13,10 +48,21 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    precacheBuild(),
   ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Request/response schemas shared with the edge functions
+      "@contracts": path.resolve(__dirname, "./supabase/functions/_shared/contracts.ts"),
     },
   },
+  test: {
+    environment: "jsdom",
+    // The edge function suites under supabase/functions/tests run in Deno (npm run test:functions)
+    include: ["src/**/*.test.{ts,tsx}"],
+    setupFiles: ["./src/test/setup.ts"],
+    // PlacesAutocompleteInput only queries Places (stubbed in tests) when a key is set
+    env: { VITE_GOOGLE_MAPS_API_KEY: "test-google-maps-key" },
+  },
 }));